@@ -1,4 +1,4 @@
-import type { Pose } from '$lib/types';
+import type { Pose, PoseTemplate } from '$lib/types';
 
 // Body part importance weights (higher = more important for good photos)
 export const BODY_PART_WEIGHTS = {
@@ -301,6 +301,38 @@ export const POSE_TEMPLATES = {
 	}
 } as const;
 
+// Built-in templates as plain PoseTemplate records, in library order
+export const BUILT_IN_POSE_TEMPLATES: PoseTemplate[] = Object.entries(POSE_TEMPLATES).map(([id, template]) => ({
+	id,
+	name: template.name,
+	description: template.description,
+	difficulty: template.difficulty,
+	category: template.category,
+	pose: template.pose,
+	tips: [...template.tips],
+	steps: [...template.steps],
+	commonMistakes: template.commonMistakes.map(({ mistake, correction }) => ({ mistake, correction }))
+}));
+
+// User-authored templates (Dexie), registered once loaded so lookups below include them
+let userPoseTemplates: PoseTemplate[] = [];
+
+export function setUserPoseTemplates(templates: PoseTemplate[]): void {
+	userPoseTemplates = templates;
+}
+
+export function getAllPoseTemplates(): PoseTemplate[] {
+	return [...BUILT_IN_POSE_TEMPLATES, ...userPoseTemplates];
+}
+
+export function getPoseTemplate(id: string): PoseTemplate | undefined {
+	return BUILT_IN_POSE_TEMPLATES.find(template => template.id === id) ?? userPoseTemplates.find(template => template.id === id);
+}
+
+export function isBuiltInPoseTemplate(id: string): boolean {
+	return BUILT_IN_POSE_TEMPLATES.some(template => template.id === id);
+}
+
 // Get recommended pose based on style and context
 export function getRecommendedPose(style?: string, context?: { peopleCount: number; isFullBody: boolean }): Pose {
 	// Default to natural standing pose
@@ -411,16 +443,16 @@ export function getPoseAdjustments(targetPose: Pose, currentPose: Pose): Array<{
 	});
 }
 
-// Get poses by difficulty level
+// Get poses by difficulty level (built-in and user templates)
 export function getPosesByDifficulty(maxDifficulty: number) {
-	return Object.entries(POSE_TEMPLATES)
-		.filter(([_, pose]) => pose.difficulty <= maxDifficulty)
-		.map(([key, pose]) => ({ key, ...pose }));
+	return getAllPoseTemplates()
+		.filter(template => template.difficulty <= maxDifficulty)
+		.map(template => ({ key: template.id, ...template }));
 }
 
-// Get poses by category
+// Get poses by category (built-in and user templates)
 export function getPosesByCategory(category: string) {
-	return Object.entries(POSE_TEMPLATES)
-		.filter(([_, pose]) => pose.category === category)
-		.map(([key, pose]) => ({ key, ...pose }));
+	return getAllPoseTemplates()
+		.filter(template => template.category === category)
+		.map(template => ({ key: template.id, ...template }));
 }
@@ -0,0 +1,71 @@
+import type { ShootScript } from '$lib/types';
+import { getPoseTemplate } from '$lib/data/poseTemplates';
+
+// Accuracy (0-100) a shot needs before the script moves on to the next pose
+export const DEFAULT_SCRIPT_ACCURACY_THRESHOLD = 75;
+
+// Built-in scripts live in code; user scripts are stored in Dexie and synced
+export const BUILT_IN_SHOOT_SCRIPTS: ShootScript[] = [
+	{
+		id: 'builtin:park-date',
+		name: '公园约会',
+		description: '六个姿势，从自然站立到动感抓拍，适合公园散步时拍一组',
+		steps: [
+			{ poseId: 'portrait_natural', note: '找一条有树荫的小路' },
+			{ poseId: 'casual_lean', note: '靠在树干或栏杆上' },
+			{ poseId: 'casual_sitting', note: '坐在长椅或草地上' },
+			{ poseId: 'portrait_elegant', note: '花丛前面' },
+			{ poseId: 'artistic_side', note: '逆光拍侧脸剪影' },
+			{ poseId: 'portrait_dynamic', note: '边走边拍，抓拍迈步瞬间' }
+		],
+		accuracyThreshold: DEFAULT_SCRIPT_ACCURACY_THRESHOLD,
+		createdAt: new Date(0),
+		updatedAt: new Date(0)
+	},
+	{
+		id: 'builtin:street-snap',
+		name: '街拍三连',
+		description: '三个简单姿势，街边随手拍',
+		steps: [
+			{ poseId: 'casual_lean', note: '靠墙站' },
+			{ poseId: 'artistic_triangle' },
+			{ poseId: 'portrait_dynamic', note: '过马路时抓拍' }
+		],
+		accuracyThreshold: 70,
+		createdAt: new Date(0),
+		updatedAt: new Date(0)
+	},
+	{
+		id: 'builtin:couple',
+		name: '情侣合影',
+		description: '需要两个人入镜',
+		steps: [{ poseId: 'couple_close' }, { poseId: 'couple_back_to_back' }],
+		accuracyThreshold: 65,
+		createdAt: new Date(0),
+		updatedAt: new Date(0)
+	}
+];
+
+// Built-in or user template; user templates count once they are loaded
+export function isPoseTemplateId(id: string): boolean {
+	return !!getPoseTemplate(id);
+}
+
+export function isBuiltInShootScript(id: string): boolean {
+	return id.startsWith('builtin:');
+}
+
+// Problems that would stop a script from running; empty when it is usable
+export function validateShootScript(script: Pick<ShootScript, 'name' | 'steps' | 'accuracyThreshold'>): string[] {
+	const errors: string[] = [];
+	if (!script.name.trim()) errors.push('请填写脚本名称');
+	if (script.steps.length === 0) errors.push('至少需要一个姿势');
+	script.steps.forEach((step, index) => {
+		if (!isPoseTemplateId(step.poseId)) errors.push(`第 ${index + 1} 镜的姿势不存在`);
+	});
+	const threshold = script.accuracyThreshold;
+	if (threshold !== null && threshold !== undefined && (threshold < 0 || threshold > 100)) {
+		errors.push('准确度阈值需在 0-100 之间');
+	}
+	return errors;
+}
@@ -0,0 +1,143 @@
+import type { VisionFixtureFile } from '$lib/services/mock';
+
+/**
+ * Built-in fixtures for the mock vision provider
+ * Replayed in order per request type so offline sessions are deterministic
+ */
+export const DEFAULT_VISION_FIXTURES: VisionFixtureFile = {
+	version: 1,
+	recordedAt: '2026-01-01T00:00:00.000Z',
+	responses: {
+		analyzeFrame: [
+			{
+				composition_suggestion: '把人物移到左侧光圈里',
+				lighting_assessment: '',
+				angle_suggestion: '',
+				overall_score: 0.6,
+				should_vibrate: false,
+				guide_lines: [{ type: 'standing_position', x: 0.167, y: 0.5 }]
+			},
+			{
+				composition_suggestion: '走近点，站到光圈里',
+				lighting_assessment: '',
+				angle_suggestion: '',
+				overall_score: 0.68,
+				should_vibrate: false,
+				guide_lines: [{ type: 'standing_position', x: 0.5, y: 0.5 }]
+			},
+			{
+				composition_suggestion: '✨ 位置完美，可以拍了',
+				lighting_assessment: '',
+				angle_suggestion: '',
+				overall_score: 0.88,
+				should_vibrate: true,
+				guide_lines: [{ type: 'standing_position', x: 0.5, y: 0.5 }]
+			}
+		],
+		analyzePose: [
+			{
+				composition_suggestion: '左手抬高轻触头发',
+				lighting_assessment: '',
+				angle_suggestion: '',
+				overall_score: 0.72,
+				should_vibrate: false,
+				pose_guide: {
+					target_pose: {
+						nose: { x: 0.5, y: 0.22, visibility: 1 },
+						left_shoulder: { x: 0.42, y: 0.4, visibility: 1 },
+						right_shoulder: { x: 0.58, y: 0.4, visibility: 1 },
+						left_elbow: { x: 0.35, y: 0.3, visibility: 0.95 },
+						right_elbow: { x: 0.62, y: 0.52, visibility: 0.95 },
+						left_wrist: { x: 0.42, y: 0.2, visibility: 0.9 },
+						right_wrist: { x: 0.64, y: 0.64, visibility: 0.9 },
+						left_hip: { x: 0.44, y: 0.68, visibility: 0.98 },
+						right_hip: { x: 0.56, y: 0.68, visibility: 0.98 },
+						left_knee: { x: 0.44, y: 0.82, visibility: 0.85 },
+						right_knee: { x: 0.56, y: 0.82, visibility: 0.85 }
+					},
+					current_pose: {
+						nose: { x: 0.52, y: 0.24, visibility: 1 },
+						left_shoulder: { x: 0.43, y: 0.38, visibility: 1 },
+						right_shoulder: { x: 0.6, y: 0.41, visibility: 1 },
+						left_elbow: { x: 0.38, y: 0.52, visibility: 0.9 },
+						right_elbow: { x: 0.64, y: 0.53, visibility: 0.9 },
+						left_wrist: { x: 0.36, y: 0.65, visibility: 0.85 },
+						right_wrist: { x: 0.65, y: 0.65, visibility: 0.85 },
+						left_hip: { x: 0.45, y: 0.68, visibility: 0.95 },
+						right_hip: { x: 0.57, y: 0.69, visibility: 0.95 }
+					},
+					instructions: ['🔴 左手抬高至头部高度', '🟡 头部向右倾斜10度'],
+					confidence: 0.88,
+					difficulty: 2,
+					step_by_step: ['自然站立，双脚与肩同宽', '左手慢慢抬起至头部高度', '手指轻触头发'],
+					common_mistake: { mistake: '手用力抓头发', correction: '轻轻触摸，手指自然放松' },
+					symmetry_score: 76
+				},
+				voice_instruction: '左手抬高至头部高度，头部向右倾斜10度'
+			},
+			{
+				composition_suggestion: '✨ 姿势很自然，可以拍了',
+				lighting_assessment: '',
+				angle_suggestion: '',
+				overall_score: 0.9,
+				should_vibrate: true,
+				pose_guide: {
+					target_pose: {
+						nose: { x: 0.5, y: 0.22, visibility: 1 },
+						left_shoulder: { x: 0.42, y: 0.4, visibility: 1 },
+						right_shoulder: { x: 0.58, y: 0.4, visibility: 1 },
+						left_elbow: { x: 0.38, y: 0.52, visibility: 0.95 },
+						right_elbow: { x: 0.62, y: 0.52, visibility: 0.95 },
+						left_wrist: { x: 0.36, y: 0.64, visibility: 0.9 },
+						right_wrist: { x: 0.64, y: 0.64, visibility: 0.9 },
+						left_hip: { x: 0.44, y: 0.68, visibility: 0.98 },
+						right_hip: { x: 0.56, y: 0.68, visibility: 0.98 }
+					},
+					instructions: ['🟢 保持当前姿势'],
+					confidence: 0.92,
+					difficulty: 1,
+					symmetry_score: 94
+				},
+				voice_instruction: '保持当前姿势'
+			}
+		],
+		selectPhotos: [
+			{
+				selected: [
+					{ photo_id: '1', score: 0.91, reasons: ['构图遵循三分法', '表情自然'] },
+					{ photo_id: '3', score: 0.84, reasons: ['光线柔和'] }
+				],
+				summary: '这批照片中，第1张和第3张最佳'
+			}
+		],
+		learnStyle: [
+			{
+				composition: ['rule_of_thirds', 'eye_level'],
+				preferred_angles: ['slight_side'],
+				tone: 'warm',
+				lighting: 'soft',
+				background: 'clean',
+				mood: 'happy',
+				tags: ['portrait', 'smile', 'outdoor']
+			}
+		],
+		analyzePhoto: [
+			{
+				score: 0.85,
+				reasons: ['构图好', '光线佳'],
+				tags: ['portrait', 'smile'],
+				composition: 'rule_of_thirds',
+				lighting: 'soft',
+				angle: 'eye_level'
+			},
+			{
+				score: 0.62,
+				reasons: ['轻微模糊'],
+				tags: ['portrait'],
+				composition: 'center',
+				lighting: 'backlit',
+				angle: 'slight_low'
+			}
+		]
+	}
+};
@@ -0,0 +1,171 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, photoService, poseTemplateService, sessionService, shootScriptService } from '$lib/services/db';
+import { exportBackup, openBackup, restoreBackup } from '$lib/services/backup';
+import { createZip } from '$lib/utils/zip';
+
+const SCRIPT = {
+	id: 'script-1',
+	name: '公园约会',
+	description: '六个姿势',
+	steps: [{ poseId: 'classic_portrait', note: '树荫下' }, { poseId: 'casual_lean' }],
+	accuracyThreshold: 80
+};
+
+async function seed(): Promise<string> {
+	await shootScriptService.save(SCRIPT);
+	return sessionService.create({
+		styleId: null,
+		startedAt: new Date('2026-10-01T10:00:00Z'),
+		completedAt: null,
+		photos: [],
+		aiSelection: null,
+		userFeedback: null,
+		shootScript: { scriptId: SCRIPT.id, name: SCRIPT.name, poseIds: ['classic_portrait', 'casual_lean'], shots: [] }
+	});
+}
+
+const TEMPLATE = {
+	id: 'user-pose-1',
+	name: '倚栏回眸',
+	description: '',
+	difficulty: 2,
+	category: 'portrait' as const,
+	pose: { nose: { x: 0.5, y: 0.2 } },
+	tips: [],
+	steps: [],
+	commonMistakes: []
+};
+
+// A session with one photo that the AI picked and a script shot recorded for a user template
+async function seedShotSession(startedAt: Date): Promise<{ sessionId: string; photoId: string }> {
+	const sessionId = await sessionService.create({
+		styleId: null,
+		startedAt,
+		completedAt: null,
+		photos: [],
+		aiSelection: null,
+		userFeedback: null
+	});
+	const photoId = await photoService.add({ sessionId, blob: new Blob(['jpeg'], { type: 'image/jpeg' }) });
+	await sessionService.update(sessionId, {
+		aiSelection: [photoId],
+		shootScript: {
+			scriptId: SCRIPT.id,
+			name: SCRIPT.name,
+			poseIds: [TEMPLATE.id],
+			shots: [{ photoId, stepIndex: 0, poseId: TEMPLATE.id, accuracy: 90 }]
+		}
+	});
+	return { sessionId, photoId };
+}
+
+describe('backup round trip', () => {
+	beforeEach(async () => {
+		await Promise.all(db.tables.map(table => table.clear()));
+	});
+
+	it('restores shoot scripts', async () => {
+		await seed();
+		const { archive } = await exportBackup();
+		await db.shootScripts.clear();
+
+		const opened = await openBackup(archive);
+		expect(opened.manifest.shootScripts).toHaveLength(1);
+		const result = await restoreBackup(opened, { conflict: 'skip', restoreSettings: false });
+
+		expect(result.shootScripts).toEqual({ added: 1, overwritten: 0, skipped: 0 });
+		const restored = await shootScriptService.get(SCRIPT.id);
+		expect(restored).toMatchObject({ name: SCRIPT.name, steps: SCRIPT.steps, accuracyThreshold: 80, syncedAt: null });
+	});
+
+	it('points duplicated sessions at the duplicated script', async () => {
+		await seed();
+		const opened = await openBackup((await exportBackup()).archive);
+		expect(opened.conflicts.shootScripts).toBe(1);
+		const result = await restoreBackup(opened, { conflict: 'duplicate', restoreSettings: false });
+
+		expect(result.shootScripts.added).toBe(1);
+		const scripts = await db.shootScripts.toArray();
+		const copy = scripts.find(script => script.id !== SCRIPT.id)!;
+		const sessions = await db.sessions.toArray();
+		expect(sessions.map(session => session.shootScript?.scriptId).sort()).toEqual([SCRIPT.id, copy.id].sort());
+	});
+
+	it('points duplicated script steps at duplicated pose templates', async () => {
+		await poseTemplateService.save(TEMPLATE);
+		await shootScriptService.save({ ...SCRIPT, steps: [{ poseId: 'user-pose-1' }, { poseId: 'casual_lean' }] });
+
+		const opened = await openBackup((await exportBackup()).archive);
+		expect(opened.conflicts.poseTemplates).toBe(1);
+		const result = await restoreBackup(opened, { conflict: 'duplicate', restoreSettings: false });
+
+		expect(result.poseTemplates.added).toBe(1);
+		const templates = await db.poseTemplates.toArray();
+		const copy = templates.find(template => template.id !== 'user-pose-1')!;
+		expect(copy.name).toBe('倚栏回眸');
+		const script = (await db.shootScripts.toArray()).find(script => script.id !== SCRIPT.id)!;
+		expect(script.steps.map(step => step.poseId)).toEqual([copy.id, 'casual_lean']);
+	});
+
+	it('points a duplicated session at its own photos and pose templates', async () => {
+		await poseTemplateService.save(TEMPLATE);
+		await shootScriptService.save(SCRIPT);
+		const original = await seedShotSession(new Date('2026-10-01T10:00:00Z'));
+
+		const opened = await openBackup((await exportBackup()).archive);
+		const result = await restoreBackup(opened, { conflict: 'duplicate', restoreSettings: false });
+		expect(result.sessions.added).toBe(1);
+		expect(result.photos.added).toBe(1);
+
+		const copy = (await db.sessions.toArray()).find(session => session.id !== original.sessionId)!;
+		const copyPhotoId = copy.photos[0].id;
+		expect(copyPhotoId).not.toBe(original.photoId);
+		expect(copy.aiSelection).toEqual([copyPhotoId]);
+
+		const templateCopy = (await db.poseTemplates.toArray()).find(template => template.id !== TEMPLATE.id)!;
+		expect(copy.shootScript?.poseIds).toEqual([templateCopy.id]);
+		expect(copy.shootScript?.shots).toEqual([
+			{ photoId: copyPhotoId, stepIndex: 0, poseId: templateCopy.id, accuracy: 90 }
+		]);
+
+		const local = await sessionService.get(original.sessionId);
+		expect(local?.aiSelection).toEqual([original.photoId]);
+	});
+
+	it('exports only the chosen sessions and date range', async () => {
+		const early = await seedShotSession(new Date('2026-09-01T10:00:00Z'));
+		const late = await seedShotSession(new Date('2026-10-01T10:00:00Z'));
+
+		const byId = await openBackup((await exportBackup({ sessionIds: [early.sessionId] })).archive);
+		expect(byId.manifest.sessions.map(session => session.id)).toEqual([early.sessionId]);
+		expect(byId.manifest.photos.map(photo => photo.id)).toEqual([early.photoId]);
+
+		const byRange = await openBackup(
+			(await exportBackup({ from: new Date('2026-09-15T00:00:00Z'), to: new Date('2026-10-15T00:00:00Z') })).archive
+		);
+		expect(byRange.manifest.sessions.map(session => session.id)).toEqual([late.sessionId]);
+		expect(byRange.manifest.photos.map(photo => photo.id)).toEqual([late.photoId]);
+	});
+
+	it('leaves marking photos exported to the caller', async () => {
+		const sessionId = await seed();
+		const photoId = await photoService.add({ sessionId, blob: new Blob(['jpeg'], { type: 'image/jpeg' }) });
+
+		const { photoIds } = await exportBackup();
+		expect(photoIds).toEqual([photoId]);
+		expect((await photoService.get(photoId))?.exportedAt).toBeUndefined();
+	});
+
+	it('opens backups made before shoot scripts were backed up', async () => {
+		await seed();
+		const { manifest } = await openBackup((await exportBackup()).archive);
+		const { shootScripts: _scripts, poseTemplates: _templates, ...older } = manifest;
+		const opened = await openBackup(await createZip([{ name: 'manifest.json', data: JSON.stringify(older) }]));
+
+		expect(opened.manifest.shootScripts).toEqual([]);
+		expect(opened.manifest.poseTemplates).toEqual([]);
+		const result = await restoreBackup(opened, { conflict: 'overwrite', restoreSettings: false });
+		expect(result.sessions.overwritten).toBe(1);
+	});
+});
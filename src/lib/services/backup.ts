@@ -0,0 +1,550 @@
+import type { AppSettings, CustomStyle, Photo, PhotoEdit, Session, ShootScript, UserPoseTemplate } from '$lib/types';
+import { db, settingsService } from '$lib/services/db';
+import { createZip, crc32, readZip, ZipFormatError, type ZipEntry, type ZipEntryInput } from '$lib/utils/zip';
+
+/**
+ * Full backup and restore of the local data
+ * A backup is a ZIP with manifest.json (every record, dates as ISO strings) plus the original
+ * photo blobs under photos/<sessionId>/. Renditions are left out; they are re-rendered from the
+ * edit recipes. Restored records are marked dirty so cloud sync picks them up.
+ */
+
+export const BACKUP_FORMAT = 'boyfriend-camera/backup';
+export const BACKUP_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+// User data kept outside IndexedDB; caches (offline_cache) are not worth restoring
+export const BACKUP_LOCAL_STORAGE_KEYS = [
+	'adaptive-learning',
+	'camera-calibration',
+	'analytics_history',
+	'audio-guidance-config',
+	'external_services_config',
+	'social_sharing_data',
+	'preferred_language',
+	'metrics_visible'
+] as const;
+
+export interface BackupOptions {
+	sessionIds?: string[] | null; // null / omitted: every session
+	from?: Date | null; // Session start time range, inclusive
+	to?: Date | null;
+	includeSettings?: boolean; // App settings and the localStorage data
+}
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface RestoreOptions {
+	conflict: ConflictStrategy;
+	restoreSettings: boolean;
+}
+
+export interface BackupProgress {
+	phase: 'collecting' | 'packing' | 'restoring';
+	done: number;
+	total: number;
+}
+
+export type BackupSession = Omit<Session, 'photos' | 'startedAt' | 'completedAt' | 'updatedAt' | 'syncedAt'> & {
+	startedAt: string;
+	completedAt: string | null;
+	updatedAt: string | null;
+	photoIds: string[];
+};
+
+// Export/downscale times are bookkeeping of the device the photo lives on, so they stay out
+export type BackupPhoto = Omit<
+	Photo,
+	'blob' | 'thumbnail' | 'preview' | 'createdAt' | 'updatedAt' | 'syncedAt' | 'exportedAt' | 'downscaledAt'
+> & {
+	createdAt: string;
+	updatedAt: string | null;
+	file: string; // Path of the original image inside the archive
+	type: string;
+	size: number;
+};
+
+export type BackupPhotoEdit = Omit<PhotoEdit, 'rendition' | 'updatedAt'> & { updatedAt: string };
+
+export type BackupCustomStyle = Omit<CustomStyle, 'createdAt' | 'updatedAt' | 'syncedAt'> & {
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type BackupShootScript = Omit<ShootScript, 'createdAt' | 'updatedAt' | 'syncedAt'> & {
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type BackupPoseTemplate = Omit<UserPoseTemplate, 'createdAt' | 'updatedAt'> & {
+	createdAt: string;
+	updatedAt: string;
+};
+
+export interface BackupManifest {
+	format: typeof BACKUP_FORMAT;
+	version: number;
+	createdAt: string;
+	filter: { sessionIds: string[] | null; from: string | null; to: string | null };
+	sessions: BackupSession[];
+	photos: BackupPhoto[];
+	photoEdits: BackupPhotoEdit[];
+	customStyles: BackupCustomStyle[];
+	shootScripts: BackupShootScript[]; // Missing in backups made before shoot scripts existed
+	poseTemplates: BackupPoseTemplate[]; // Missing in backups made before user pose templates existed
+	settings: AppSettings | null;
+	localStorage: Record<string, string>;
+}
+
+export interface BackupExport {
+	archive: Blob;
+	photoIds: string[]; // Photos whose originals are in the archive
+}
+
+export interface OpenedBackup {
+	manifest: BackupManifest;
+	entries: Map<string, ZipEntry>;
+	conflicts: { sessions: number; photos: number; customStyles: number; shootScripts: number; poseTemplates: number };
+}
+
+export interface RestoreCounts {
+	added: number;
+	overwritten: number;
+	skipped: number;
+}
+
+export interface RestoreResult {
+	sessions: RestoreCounts;
+	photos: RestoreCounts;
+	customStyles: RestoreCounts;
+	shootScripts: RestoreCounts;
+	poseTemplates: RestoreCounts;
+	failedPhotos: string[]; // Photo ids whose image was missing or corrupt in the archive
+	settingsRestored: boolean;
+}
+
+export class BackupError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BackupError';
+	}
+}
+
+function toISO(date: Date | null | undefined): string | null {
+	return date ? new Date(date).toISOString() : null;
+}
+
+function fileExtension(type: string): string {
+	const subtype = type.split('/')[1]?.split(';')[0];
+	if (!subtype) return 'bin';
+	return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+}
+
+async function selectSessions(options: BackupOptions): Promise<Session[]> {
+	const ids = options.sessionIds ? new Set(options.sessionIds) : null;
+	const from = options.from?.getTime() ?? -Infinity;
+	const to = options.to?.getTime() ?? Infinity;
+	const sessions = await db.sessions.orderBy('startedAt').toArray();
+	return sessions.filter(session => {
+		const startedAt = new Date(session.startedAt).getTime();
+		return (!ids || ids.has(session.id)) && startedAt >= from && startedAt <= to;
+	});
+}
+
+// Export the selected sessions (plus every custom style, shoot script and pose template) into one archive.
+// Photos are not marked exported here: the caller does that once the archive is actually saved.
+export async function exportBackup(
+	options: BackupOptions = {},
+	onProgress?: (progress: BackupProgress) => void
+): Promise<BackupExport> {
+	const sessions = await selectSessions(options);
+	const manifest: BackupManifest = {
+		format: BACKUP_FORMAT,
+		version: BACKUP_VERSION,
+		createdAt: new Date().toISOString(),
+		filter: {
+			sessionIds: options.sessionIds ?? null,
+			from: toISO(options.from),
+			to: toISO(options.to)
+		},
+		sessions: [],
+		photos: [],
+		photoEdits: [],
+		customStyles: [],
+		shootScripts: [],
+		poseTemplates: [],
+		settings: null,
+		localStorage: {}
+	};
+	const files: ZipEntryInput[] = [];
+
+	for (const [index, session] of sessions.entries()) {
+		const photos = await db.photos.where('sessionId').equals(session.id).toArray();
+		const { photos: _embedded, syncedAt: _sessionSyncedAt, ...sessionRecord } = session;
+		manifest.sessions.push({
+			...sessionRecord,
+			startedAt: toISO(session.startedAt)!,
+			completedAt: toISO(session.completedAt),
+			updatedAt: toISO(session.updatedAt),
+			photoIds: photos.map(photo => photo.id)
+		});
+
+		for (const photo of photos) {
+			const {
+				blob,
+				syncedAt: _photoSyncedAt,
+				exportedAt: _exportedAt,
+				downscaledAt: _downscaledAt,
+				// Regenerated by the thumbnail backfill after a restore
+				thumbnail: _thumbnail,
+				preview: _preview,
+				...photoRecord
+			} = photo;
+			const file = `photos/${session.id}/${photo.id}.${fileExtension(blob.type)}`;
+			manifest.photos.push({
+				...photoRecord,
+				createdAt: toISO(photo.createdAt)!,
+				updatedAt: toISO(photo.updatedAt),
+				file,
+				type: blob.type,
+				size: blob.size
+			});
+			files.push({ name: file, data: blob, modifiedAt: new Date(photo.createdAt) });
+		}
+
+		const edits = await db.photoEdits.where('photoId').anyOf(photos.map(photo => photo.id)).toArray();
+		for (const edit of edits) {
+			const { rendition: _rendition, ...editRecord } = edit;
+			manifest.photoEdits.push({ ...editRecord, updatedAt: toISO(edit.updatedAt)! });
+		}
+		onProgress?.({ phase: 'collecting', done: index + 1, total: sessions.length });
+	}
+
+	for (const style of await db.customStyles.toArray()) {
+		const { syncedAt: _syncedAt, ...styleRecord } = style;
+		manifest.customStyles.push({
+			...styleRecord,
+			createdAt: toISO(style.createdAt)!,
+			updatedAt: toISO(style.updatedAt)!
+		});
+	}
+
+	for (const script of await db.shootScripts.toArray()) {
+		const { syncedAt: _syncedAt, ...scriptRecord } = script;
+		manifest.shootScripts.push({
+			...scriptRecord,
+			createdAt: toISO(script.createdAt)!,
+			updatedAt: toISO(script.updatedAt)!
+		});
+	}
+
+	for (const template of await db.poseTemplates.toArray()) {
+		manifest.poseTemplates.push({
+			...template,
+			createdAt: toISO(template.createdAt)!,
+			updatedAt: toISO(template.updatedAt)!
+		});
+	}
+
+	if (options.includeSettings) {
+		manifest.settings = (await settingsService.get()) ?? null;
+		for (const key of BACKUP_LOCAL_STORAGE_KEYS) {
+			const value = localStorage.getItem(key);
+			if (value !== null) manifest.localStorage[key] = value;
+		}
+	}
+
+	const entries: ZipEntryInput[] = [{ name: MANIFEST_FILE, data: JSON.stringify(manifest, null, 2) }, ...files];
+	const archive = await createZip(entries, (done, total) => onProgress?.({ phase: 'packing', done, total }));
+	return { archive, photoIds: manifest.photos.map(photo => photo.id) };
+}
+
+function validateManifest(raw: unknown, entries: Map<string, ZipEntry>): BackupManifest {
+	if (!raw || typeof raw !== 'object' || (raw as BackupManifest).format !== BACKUP_FORMAT) {
+		throw new BackupError('Not a backup manifest');
+	}
+	const manifest = raw as BackupManifest;
+	if (typeof manifest.version !== 'number' || manifest.version < 1) {
+		throw new BackupError('Missing or invalid backup version');
+	}
+	if (manifest.version > BACKUP_VERSION) {
+		throw new BackupError(`Backup version ${manifest.version} is newer than this app supports`);
+	}
+	for (const list of ['sessions', 'photos', 'photoEdits', 'customStyles'] as const) {
+		if (!Array.isArray(manifest[list])) {
+			throw new BackupError(`Backup manifest has no ${list} list`);
+		}
+	}
+	for (const list of ['shootScripts', 'poseTemplates'] as const) {
+		if (manifest[list] !== undefined && !Array.isArray(manifest[list])) {
+			throw new BackupError(`Backup manifest has an invalid ${list} list`);
+		}
+	}
+
+	const sessionIds = new Set(manifest.sessions.map(session => session.id));
+	for (const session of manifest.sessions) {
+		if (typeof session.id !== 'string' || Number.isNaN(Date.parse(session.startedAt))) {
+			throw new BackupError('Backup contains an invalid session');
+		}
+	}
+	for (const photo of manifest.photos) {
+		if (typeof photo.id !== 'string' || !sessionIds.has(photo.sessionId)) {
+			throw new BackupError(`Photo ${photo.id} does not belong to a session in the backup`);
+		}
+		const entry = entries.get(photo.file);
+		if (!entry || entry.size !== photo.size) {
+			throw new BackupError(`Image for photo ${photo.id} is missing from the archive`);
+		}
+	}
+	return {
+		...manifest,
+		shootScripts: manifest.shootScripts ?? [],
+		poseTemplates: manifest.poseTemplates ?? [],
+		settings: manifest.settings ?? null,
+		localStorage: manifest.localStorage ?? {}
+	};
+}
+
+async function countExisting(
+	table: 'sessions' | 'photos' | 'customStyles' | 'shootScripts' | 'poseTemplates',
+	ids: string[]
+): Promise<number> {
+	const found = await db.table(table).bulkGet(ids);
+	return found.filter(Boolean).length;
+}
+
+// Read and validate an archive; nothing is written until restoreBackup
+export async function openBackup(file: Blob): Promise<OpenedBackup> {
+	let entries: Map<string, ZipEntry>;
+	try {
+		entries = await readZip(file);
+	} catch (error) {
+		throw error instanceof ZipFormatError ? new BackupError(error.message) : error;
+	}
+
+	const manifestEntry = entries.get(MANIFEST_FILE);
+	if (!manifestEntry) {
+		throw new BackupError('Archive has no manifest.json');
+	}
+	let raw: unknown;
+	try {
+		raw = JSON.parse(await (await manifestEntry.read()).text());
+	} catch {
+		throw new BackupError('manifest.json is not valid JSON');
+	}
+
+	const manifest = validateManifest(raw, entries);
+	return {
+		manifest,
+		entries,
+		conflicts: {
+			sessions: await countExisting('sessions', manifest.sessions.map(session => session.id)),
+			photos: await countExisting('photos', manifest.photos.map(photo => photo.id)),
+			customStyles: await countExisting('customStyles', manifest.customStyles.map(style => style.id)),
+			shootScripts: await countExisting('shootScripts', manifest.shootScripts.map(script => script.id)),
+			poseTemplates: await countExisting('poseTemplates', manifest.poseTemplates.map(template => template.id))
+		}
+	};
+}
+
+// Read one image and check it against the archive checksum
+async function readPhotoBlob(entry: ZipEntry | undefined, type: string): Promise<Blob | null> {
+	if (!entry) return null;
+	const bytes = new Uint8Array(await (await entry.read()).arrayBuffer());
+	if (crc32(bytes) !== entry.crc32) return null;
+	return new Blob([bytes], { type });
+}
+
+function emptyCounts(): RestoreCounts {
+	return { added: 0, overwritten: 0, skipped: 0 };
+}
+
+// The id to write a record under, or null to skip it
+function resolveId(id: string, exists: boolean, conflict: ConflictStrategy): string | null {
+	if (!exists || conflict === 'overwrite') return id;
+	return conflict === 'duplicate' ? crypto.randomUUID() : null;
+}
+
+function countWrite(counts: RestoreCounts, originalId: string, id: string | null, exists: boolean): void {
+	if (!id) counts.skipped++;
+	else if (exists && id === originalId) counts.overwritten++;
+	else counts.added++;
+}
+
+export async function restoreBackup(
+	backup: OpenedBackup,
+	options: RestoreOptions,
+	onProgress?: (progress: BackupProgress) => void
+): Promise<RestoreResult> {
+	const { manifest, entries } = backup;
+	const result: RestoreResult = {
+		sessions: emptyCounts(),
+		photos: emptyCounts(),
+		customStyles: emptyCounts(),
+		shootScripts: emptyCounts(),
+		poseTemplates: emptyCounts(),
+		failedPhotos: [],
+		settingsRestored: false
+	};
+	const now = new Date();
+	const total = manifest.photos.length + manifest.sessions.length;
+	let done = 0;
+	const step = () => onProgress?.({ phase: 'restoring', done: ++done, total });
+
+	// Styles first, so duplicated styles can be remapped on the sessions that use them
+	const styleIds = new Map<string, string>();
+	for (const style of manifest.customStyles) {
+		const exists = !!(await db.customStyles.get(style.id));
+		const id = resolveId(style.id, exists, options.conflict);
+		countWrite(result.customStyles, style.id, id, exists);
+		if (!id) continue;
+		styleIds.set(style.id, id);
+		await db.customStyles.put({ ...style, id, createdAt: new Date(style.createdAt), updatedAt: now, syncedAt: null });
+		await db.tombstones.delete(['custom_styles', id]);
+	}
+
+	// Pose templates before scripts, whose steps refer to them; they are not synced, so they keep their times
+	const poseIds = new Map<string, string>();
+	for (const template of manifest.poseTemplates) {
+		const exists = !!(await db.poseTemplates.get(template.id));
+		const id = resolveId(template.id, exists, options.conflict);
+		countWrite(result.poseTemplates, template.id, id, exists);
+		if (!id) continue;
+		poseIds.set(template.id, id);
+		await db.poseTemplates.put({
+			...template,
+			id,
+			createdAt: new Date(template.createdAt),
+			updatedAt: new Date(template.updatedAt)
+		});
+	}
+
+	// Scripts before sessions too: a session records the script it followed
+	const scriptIds = new Map<string, string>();
+	for (const script of manifest.shootScripts) {
+		const exists = !!(await db.shootScripts.get(script.id));
+		const id = resolveId(script.id, exists, options.conflict);
+		countWrite(result.shootScripts, script.id, id, exists);
+		if (!id) continue;
+		scriptIds.set(script.id, id);
+		await db.shootScripts.put({
+			...script,
+			id,
+			steps: script.steps.map(step => ({ ...step, poseId: poseIds.get(step.poseId) ?? step.poseId })),
+			createdAt: new Date(script.createdAt),
+			updatedAt: now,
+			syncedAt: null
+		});
+		await db.tombstones.delete(['shoot_scripts', id]);
+	}
+
+	const photosBySession = new Map<string, BackupPhoto[]>();
+	for (const photo of manifest.photos) {
+		photosBySession.set(photo.sessionId, [...(photosBySession.get(photo.sessionId) ?? []), photo]);
+	}
+	const editsByPhoto = new Map(manifest.photoEdits.map(edit => [edit.photoId, edit]));
+
+	for (const session of manifest.sessions) {
+		const photos = photosBySession.get(session.id) ?? [];
+		const sessionExists = !!(await db.sessions.get(session.id));
+		const sessionId = resolveId(session.id, sessionExists, options.conflict);
+		countWrite(result.sessions, session.id, sessionId, sessionExists);
+		if (!sessionId) {
+			// Photos of a skipped session stay with the local copy of that session
+			result.photos.skipped += photos.length;
+			photos.forEach(step);
+			step();
+			continue;
+		}
+		const duplicated = sessionId !== session.id;
+		const photoIds = new Map<string, string>();
+
+		for (const photo of photos) {
+			const exists = !!(await db.photos.get(photo.id));
+			// A duplicated session gets fresh photo ids so the local originals stay untouched
+			const photoId = duplicated ? crypto.randomUUID() : resolveId(photo.id, exists, options.conflict);
+			if (!photoId) {
+				result.photos.skipped++;
+				step();
+				continue;
+			}
+
+			const blob = await readPhotoBlob(entries.get(photo.file), photo.type);
+			if (!blob) {
+				result.failedPhotos.push(photo.id);
+				step();
+				continue;
+			}
+
+			const { file: _file, type: _type, size: _size, ...record } = photo;
+			await db.photos.put({
+				...record,
+				id: photoId,
+				sessionId,
+				blob,
+				// The cloud object belongs to the original photo id
+				storagePath: photoId === photo.id ? photo.storagePath : undefined,
+				createdAt: new Date(photo.createdAt),
+				updatedAt: now,
+				syncedAt: null
+			});
+			await db.tombstones.delete(['photos', photoId]);
+			countWrite(result.photos, photo.id, photoId, exists);
+			photoIds.set(photo.id, photoId);
+
+			const edit = editsByPhoto.get(photo.id);
+			if (edit) {
+				await db.photoEdits.put({ ...edit, photoId, updatedAt: new Date(edit.updatedAt) });
+			} else if (photoId === photo.id) {
+				// A local recipe would no longer match the restored original
+				await db.photoEdits.delete(photoId);
+			}
+			step();
+		}
+
+		// A duplicate must not point at the original session's photos, even ones that failed to restore
+		const restoredPhotoId = (id: string) => photoIds.get(id) ?? (duplicated ? null : id);
+		const { photoIds: _photoIds, ...record } = session;
+		const script = session.shootScript;
+		await db.sessions.put({
+			...record,
+			id: sessionId,
+			styleId: session.styleId ? styleIds.get(session.styleId) ?? session.styleId : null,
+			aiSelection: session.aiSelection
+				? session.aiSelection.map(restoredPhotoId).filter((id): id is string => id !== null)
+				: null,
+			shootScript: script
+				? {
+						...script,
+						scriptId: scriptIds.get(script.scriptId) ?? script.scriptId,
+						poseIds: script.poseIds.map(id => poseIds.get(id) ?? id),
+						shots: script.shots.flatMap(shot => {
+							const photoId = restoredPhotoId(shot.photoId);
+							return photoId ? [{ ...shot, photoId, poseId: poseIds.get(shot.poseId) ?? shot.poseId }] : [];
+						})
+					}
+				: script,
+			startedAt: new Date(session.startedAt),
+			completedAt: session.completedAt ? new Date(session.completedAt) : null,
+			// Sessions keep a copy of their photo list; rebuild it from what is stored now
+			photos: await db.photos.where('sessionId').equals(sessionId).toArray(),
+			updatedAt: now,
+			syncedAt: null
+		});
+		await db.tombstones.delete(['sessions', sessionId]);
+		step();
+	}
+
+	if (options.restoreSettings && manifest.settings) {
+		const current = await settingsService.get();
+		// The device id identifies this install for sync, not the one the backup came from
+		await settingsService.set({ ...manifest.settings, syncDeviceId: current?.syncDeviceId ?? manifest.settings.syncDeviceId });
+		for (const key of BACKUP_LOCAL_STORAGE_KEYS) {
+			const value = manifest.localStorage[key];
+			if (typeof value === 'string') localStorage.setItem(key, value);
+		}
+		result.settingsRestored = true;
+	}
+
+	return result;
+}
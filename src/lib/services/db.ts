@@ -1,28 +1,131 @@
 import Dexie from 'dexie';
 import type { Table } from 'dexie';
-import type { Photo, Session, AppSettings } from '$lib/types';
+import type { Photo, PhotoEdit, Session, AppSettings, CustomStyle, ShootScript, UserPoseTemplate } from '$lib/types';
+import { decodePixels, encodePixels, isIdentityRecipe, renderEdits } from '$lib/utils/imagePipeline';
 
 // Database name and version
 const DB_NAME = 'BoyfriendCameraDB';
-const DB_VERSION = 1;
+const DB_VERSION = 7;
+
+// Tables mirrored to the cloud (names match the Supabase tables)
+export type SyncTable = 'sessions' | 'photos' | 'custom_styles' | 'shoot_scripts';
+
+// A local delete that the cloud has not seen yet
+export interface Tombstone {
+	table: SyncTable;
+	id: string;
+	deletedAt: Date;
+	storagePath?: string; // Photo object to remove from storage
+}
+
+// Progress of a resumable photo upload, kept so an interrupted upload continues where it stopped
+export interface PendingUpload {
+	photoId: string;
+	storagePath: string;
+	uploadUrl: string;
+	offset: number;
+	size: number;
+	startedAt: Date;
+}
+
+export interface SyncCursor {
+	table: SyncTable;
+	pulledUntil: string; // Highest remote synced_at (server write time) applied locally
+}
+
+// One supabase-js auth storage item (the serialized session)
+export interface AuthStorageItem {
+	key: string;
+	value: string;
+}
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+// A queued background operation; payload shapes per type live in the job queue
+export interface JobRecord {
+	id: string;
+	type: string;
+	payload: unknown;
+	idempotencyKey: string;
+	status: JobStatus;
+	attempts: number;
+	maxAttempts: number;
+	nextRunAt: number; // Epoch ms; pending jobs are not picked up before this
+	leaseUntil: number | null; // A running job whose lease expired was abandoned (page closed, worker killed)
+	progress: number; // 0-1, reported by the handler
+	error: string | null; // Last failure
+	requiresNetwork: boolean;
+	createdAt: Date;
+	updatedAt: Date;
+	completedAt?: Date;
+}
 
 export class BoyfriendCameraDB extends Dexie {
 	sessions!: Table<Session>;
 	photos!: Table<Photo>;
 	settings!: Table<AppSettings & { key: string }>;
+	photoEdits!: Table<PhotoEdit>;
+	customStyles!: Table<CustomStyle>;
+	tombstones!: Table<Tombstone>;
+	uploads!: Table<PendingUpload>;
+	syncCursors!: Table<SyncCursor>;
+	jobs!: Table<JobRecord>;
+	shootScripts!: Table<ShootScript>;
+	poseTemplates!: Table<UserPoseTemplate>;
+	authStorage!: Table<AuthStorageItem>;
 
-	constructor() {
-		super(DB_NAME);
-		this.version(DB_VERSION).stores({
+	// A second name gives an independent database, e.g. a second "device" in sync tests
+	constructor(name: string = DB_NAME) {
+		super(name);
+		this.version(1).stores({
 			sessions: 'id, startedAt, completedAt',
 			photos: 'id, sessionId, createdAt',
 			settings: 'key' // Using key-value pattern for settings
 		});
+		// v2: edit recipes live beside photos, original blobs are never rewritten
+		this.version(2).stores({
+			photoEdits: 'photoId, updatedAt'
+		});
+		// v3: cloud sync bookkeeping (modification times, tombstones, resumable uploads)
+		this.version(3).stores({
+			sessions: 'id, startedAt, completedAt, updatedAt',
+			photos: 'id, sessionId, createdAt, updatedAt',
+			customStyles: 'id, updatedAt',
+			tombstones: '[table+id], table',
+			uploads: 'photoId',
+			syncCursors: 'table'
+		}).upgrade(async (tx) => {
+			await tx.table('sessions').toCollection().modify((session: Session) => {
+				session.updatedAt = session.updatedAt ?? session.completedAt ?? session.startedAt;
+			});
+			await tx.table('photos').toCollection().modify((photo: Photo) => {
+				photo.updatedAt = photo.updatedAt ?? photo.createdAt;
+			});
+		});
+		// v4: durable job queue (replaces the localStorage offline queue)
+		this.version(4).stores({
+			jobs: 'id, idempotencyKey, status, [status+nextRunAt], type'
+		});
+		// v5: user-defined shoot scripts (guided pose sequences)
+		this.version(5).stores({
+			shootScripts: 'id, updatedAt'
+		});
+		// v6: user-authored pose templates
+		this.version(6).stores({
+			poseTemplates: 'id, category, updatedAt'
+		});
+		// v7: cloud auth session, shared by the page and the service worker (which has no localStorage)
+		this.version(DB_VERSION).stores({
+			authStorage: 'key'
+		});
 	}
 }
 
 export const db = new BoyfriendCameraDB();
 
+// Bulk photo operations commit in transactions of this many photos
+const PHOTO_BATCH_SIZE = 50;
+
 // Settings service
 const SETTINGS_KEY = 'app-settings';
 
@@ -48,11 +151,30 @@ export const settingsService = {
 	}
 };
 
+// Storage for the supabase-js auth session
+export const authStorageService = {
+	async getItem(key: string): Promise<string | null> {
+		const item = await db.authStorage.get(key);
+		if (item) return item.value;
+		// Sessions persisted before v7 live in the page's localStorage
+		return typeof localStorage === 'undefined' ? null : localStorage.getItem(key);
+	},
+
+	async setItem(key: string, value: string): Promise<void> {
+		await db.authStorage.put({ key, value });
+	},
+
+	async removeItem(key: string): Promise<void> {
+		await db.authStorage.delete(key);
+		if (typeof localStorage !== 'undefined') localStorage.removeItem(key);
+	}
+};
+
 // Session service
 export const sessionService = {
 	async create(session: Omit<Session, 'id'>): Promise<string> {
 		const id = crypto.randomUUID();
-		await db.sessions.add({ ...session, id });
+		await db.sessions.add({ ...session, id, updatedAt: new Date(), syncedAt: null });
 		return id;
 	},
 
@@ -65,16 +187,19 @@ export const sessionService = {
 	},
 
 	async update(id: string, updates: Partial<Session>): Promise<void> {
-		await db.sessions.update(id, updates);
+		await db.sessions.update(id, { ...updates, updatedAt: new Date() });
 	},
 
 	async delete(id: string): Promise<void> {
-		// Delete associated photos
+		// Delete associated photos and their edits
 		const photos = await db.photos.where('sessionId').equals(id).toArray();
 		for (const photo of photos) {
-			await db.photos.delete(photo.id);
+			await photoService.delete(photo.id);
 		}
-		await db.sessions.delete(id);
+		await db.transaction('rw', db.sessions, db.tombstones, async () => {
+			await db.sessions.delete(id);
+			await db.tombstones.put({ table: 'sessions', id, deletedAt: new Date() });
+		});
 	}
 };
 
@@ -82,7 +207,8 @@ export const sessionService = {
 export const photoService = {
 	async add(photo: Omit<Photo, 'id' | 'createdAt'>): Promise<string> {
 		const id = crypto.randomUUID();
-		await db.photos.add({ ...photo, id, createdAt: new Date() });
+		const now = new Date();
+		await db.photos.add({ ...photo, id, createdAt: now, updatedAt: now, syncedAt: null });
 		return id;
 	},
 
@@ -95,20 +221,214 @@ export const photoService = {
 	},
 
 	async update(id: string, updates: Partial<Photo>): Promise<void> {
-		await db.photos.update(id, updates);
+		await db.photos.update(id, { ...updates, updatedAt: new Date() });
 	},
 
 	async delete(id: string): Promise<void> {
-		await db.photos.delete(id);
+		await db.transaction('rw', [db.photos, db.photoEdits, db.tombstones, db.uploads], async () => {
+			const photo = await db.photos.get(id);
+			await db.photos.delete(id);
+			await db.photoEdits.delete(id);
+			await db.uploads.delete(id);
+			await db.tombstones.put({ table: 'photos', id, deletedAt: new Date(), storagePath: photo?.storagePath });
+		});
+	},
+
+	// Delete in batches, one transaction each; sessions drop the photos from their embedded copies
+	// too, otherwise the blobs would stay stored there
+	async deleteMany(ids: string[], onProgress?: (done: number, total: number) => void): Promise<void> {
+		for (let start = 0; start < ids.length; start += PHOTO_BATCH_SIZE) {
+			const batch = ids.slice(start, start + PHOTO_BATCH_SIZE);
+			await db.transaction('rw', [db.photos, db.photoEdits, db.tombstones, db.uploads, db.sessions], async () => {
+				const photos = (await db.photos.bulkGet(batch)).filter((photo): photo is Photo => !!photo);
+				const deletedAt = new Date();
+				await db.photos.bulkDelete(batch);
+				await db.photoEdits.bulkDelete(batch);
+				await db.uploads.bulkDelete(batch);
+				await db.tombstones.bulkPut(
+					photos.map(photo => ({ table: 'photos' as const, id: photo.id, deletedAt, storagePath: photo.storagePath }))
+				);
+				await removeFromSessions(photos.map(photo => photo.sessionId), new Set(batch));
+			});
+			onProgress?.(Math.min(start + batch.length, ids.length), ids.length);
+		}
+	},
+
+	// Swap original blobs for downscaled copies, keeping the sessions' embedded copies in step.
+	// A null blob only marks the photo as processed (its original was already small enough).
+	async replaceBlobs(updates: Array<{ id: string; blob: Blob | null }>): Promise<void> {
+		for (let start = 0; start < updates.length; start += PHOTO_BATCH_SIZE) {
+			const batch = updates.slice(start, start + PHOTO_BATCH_SIZE);
+			await db.transaction('rw', [db.photos, db.sessions], async () => {
+				const now = new Date();
+				const blobs = new Map(batch.map(update => [update.id, update.blob]));
+				const photos = (await db.photos.bulkGet(batch.map(update => update.id))).filter(
+					(photo): photo is Photo => !!photo
+				);
+				await db.photos.bulkPut(
+					photos.map(photo => {
+						const blob = blobs.get(photo.id);
+						return blob ? { ...photo, blob, downscaledAt: now, updatedAt: now } : { ...photo, downscaledAt: now };
+					})
+				);
+				for (const sessionId of new Set(photos.map(photo => photo.sessionId))) {
+					const session = await db.sessions.get(sessionId);
+					if (!session) continue;
+					await db.sessions.update(sessionId, {
+						photos: session.photos.map(photo => {
+							const blob = blobs.get(photo.id);
+							return blob ? { ...photo, blob, downscaledAt: now } : photo;
+						})
+					});
+				}
+			});
+		}
+	},
+
+	// Thumbnails are derived from the blob, so storing them does not mark the photo for sync
+	async setThumbnails(id: string, thumbnails: { thumbnail: string; preview: Blob }): Promise<void> {
+		await db.photos.update(id, thumbnails);
+	},
+
+	// Export time is local bookkeeping, so it does not mark the photo dirty for sync
+	async markExported(ids: string[]): Promise<void> {
+		const exportedAt = new Date();
+		await db.photos.where(':id').anyOf(ids).modify({ exportedAt });
 	},
 
 	async clearUnselected(): Promise<void> {
 		// Delete photos that are neither AI selected nor user selected
-		const photos = await db.photos.toArray();
-		for (const photo of photos) {
-			if (!photo.isAiSelected && !photo.isUserSelected) {
-				await this.delete(photo.id);
-			}
+		const ids = await db.photos
+			.filter(photo => !photo.isAiSelected && !photo.isUserSelected)
+			.primaryKeys();
+		await this.deleteMany(ids as string[]);
+	}
+};
+
+async function removeFromSessions(sessionIds: string[], photoIds: Set<string>): Promise<void> {
+	for (const sessionId of new Set(sessionIds)) {
+		const session = await db.sessions.get(sessionId);
+		if (session) {
+			await db.sessions.update(sessionId, { photos: session.photos.filter(photo => !photoIds.has(photo.id)) });
+		}
+	}
+}
+
+// Custom style service (styles learned from the user's own photos)
+export const customStyleService = {
+	async get(id: string): Promise<CustomStyle | undefined> {
+		return await db.customStyles.get(id);
+	},
+
+	async getAll(): Promise<CustomStyle[]> {
+		return await db.customStyles.orderBy('updatedAt').reverse().toArray();
+	},
+
+	async save(style: Omit<CustomStyle, 'createdAt' | 'updatedAt' | 'syncedAt'> & { createdAt?: Date }): Promise<void> {
+		const existing = await db.customStyles.get(style.id);
+		const now = new Date();
+		await db.customStyles.put({
+			...style,
+			createdAt: existing?.createdAt ?? style.createdAt ?? now,
+			updatedAt: now,
+			syncedAt: existing?.syncedAt ?? null
+		});
+	},
+
+	async delete(id: string): Promise<void> {
+		await db.transaction('rw', db.customStyles, db.tombstones, async () => {
+			await db.customStyles.delete(id);
+			await db.tombstones.put({ table: 'custom_styles', id, deletedAt: new Date() });
+		});
+	}
+};
+
+export const shootScriptService = {
+	async get(id: string): Promise<ShootScript | undefined> {
+		return await db.shootScripts.get(id);
+	},
+
+	async getAll(): Promise<ShootScript[]> {
+		return await db.shootScripts.orderBy('updatedAt').reverse().toArray();
+	},
+
+	async save(script: Omit<ShootScript, 'createdAt' | 'updatedAt' | 'syncedAt'>): Promise<void> {
+		const existing = await db.shootScripts.get(script.id);
+		const now = new Date();
+		await db.shootScripts.put({
+			...script,
+			createdAt: existing?.createdAt ?? now,
+			updatedAt: now,
+			syncedAt: existing?.syncedAt ?? null
+		});
+	},
+
+	async delete(id: string): Promise<void> {
+		await db.transaction('rw', db.shootScripts, db.tombstones, async () => {
+			await db.shootScripts.delete(id);
+			await db.tombstones.put({ table: 'shoot_scripts', id, deletedAt: new Date() });
+		});
+	}
+};
+
+export const poseTemplateService = {
+	async get(id: string): Promise<UserPoseTemplate | undefined> {
+		return await db.poseTemplates.get(id);
+	},
+
+	async getAll(): Promise<UserPoseTemplate[]> {
+		return await db.poseTemplates.orderBy('updatedAt').reverse().toArray();
+	},
+
+	async save(template: Omit<UserPoseTemplate, 'createdAt' | 'updatedAt'>): Promise<void> {
+		const existing = await db.poseTemplates.get(template.id);
+		const now = new Date();
+		await db.poseTemplates.put({ ...template, createdAt: existing?.createdAt ?? now, updatedAt: now });
+	},
+
+	async delete(id: string): Promise<void> {
+		await db.poseTemplates.delete(id);
+	}
+};
+
+// Photo edit service (non-destructive: recipes are stored, photo blobs stay untouched)
+export const photoEditService = {
+	async get(photoId: string): Promise<PhotoEdit | undefined> {
+		return await db.photoEdits.get(photoId);
+	},
+
+	async getForPhotos(photoIds: string[]): Promise<PhotoEdit[]> {
+		return await db.photoEdits.where('photoId').anyOf(photoIds).toArray();
+	},
+
+	// Saving a new recipe drops the cached rendition; an empty recipe is the same as reverting
+	async save(edit: Omit<PhotoEdit, 'rendition' | 'updatedAt'>): Promise<void> {
+		if (isIdentityRecipe(edit)) {
+			await this.revert(edit.photoId);
+			return;
+		}
+		await db.photoEdits.put({ ...edit, rendition: undefined, updatedAt: new Date() });
+	},
+
+	// Back to the original photo
+	async revert(photoId: string): Promise<void> {
+		await db.photoEdits.delete(photoId);
+	},
+
+	// Edited version of a photo, rendered on first request and cached; null when the photo has no edits
+	async getRendition(photo: Photo): Promise<Blob | null> {
+		const edit = await this.get(photo.id);
+		if (!edit) return null;
+		if (edit.rendition) return edit.rendition;
+
+		const pixels = await decodePixels(photo.blob);
+		const rendition = await encodePixels(renderEdits(pixels, edit), 'jpeg', 0.92);
+
+		// Skip the cache write if the recipe changed while rendering
+		const current = await this.get(photo.id);
+		if (current && current.updatedAt.getTime() === edit.updatedAt.getTime()) {
+			await db.photoEdits.update(photo.id, { rendition });
 		}
+		return rendition;
 	}
 };
@@ -1,4 +1,5 @@
-import type { AISuggestion, PhotoAnalysis, StyleProfile, GuideLine, Pose, PoseKeypoint } from '$lib/types';
+import type { AISuggestion, PhotoAnalysis, StyleProfile, GuideLine, Pose, PoseKeypoint, ModelType, VisionProviderId } from '$lib/types';
+import type { VisionProvider, PhotoSelectionResult, VisionRequestOptions } from '$lib/services/vision';
 import { POSE_TEMPLATES } from '$lib/data/poseTemplates';
 import { calculatePoseMatchScore, calculatePoseSymmetry, detectPoseIssues, calculatePoseDifficulty } from '$lib/utils/poseMatching';
 import { getPoseSmoother, type SmoothingConfig } from '$lib/utils/poseSmoothing';
@@ -6,7 +7,7 @@ import {
 	analysisCache,
 	requestQueue,
 	performanceMonitor,
-	generatePoseCacheKey,
+	generateFrameCacheKey,
 	debounce,
 	optimizeImageForAnalysis
 } from '$lib/utils/performanceOptimizer';
@@ -14,11 +15,25 @@ import {
 	classifyError,
 	generateFallbackSuggestion,
 	recoverFromError,
-	errorTracker
+	errorTracker,
+	isAbortError,
+	ResponseParseError
 } from '$lib/utils/errorHandling';
+import { coercePose, parseModelResponse, reportParsingError, validateModelResponse } from '$lib/utils/responseParsing';
+import {
+	AI_SUGGESTION_SCHEMA,
+	POSE_GUIDE_SCHEMA,
+	PHOTO_ANALYSIS_SCHEMA,
+	STYLE_PROFILE_SCHEMA,
+	PHOTO_SELECTION_SCHEMA
+} from '$lib/services/schemas';
+import { readChatCompletionStream, parsePartialJSON, isKeyComplete } from '$lib/utils/streaming';
+import { hashString } from '$lib/utils/sceneChange';
 
 const GLM_API_BASE = 'https://open.bigmodel.cn/api/paas/v4/chat/completions';
 
+export type GLMModel = ModelType<'glm'>;
+
 export interface GLMMessage {
 	role: 'system' | 'user' | 'assistant';
 	content: string;
@@ -32,16 +47,19 @@ export interface GLMResponse {
 	}>;
 }
 
-export class GLMService {
-	private apiKey: string;
-	private model: 'glm-4v' | 'glm-4.6v' | 'glm-4.6v-flash' | 'glm-4.6v-flashx' | 'glm-4.5v';
+// GLM speaks the chat-completions wire format; subclasses only swap the transport
+export class GLMService implements VisionProvider {
+	readonly id: VisionProviderId = 'glm';
+	protected apiKey: string;
+	protected model: ModelType;
+	protected endpoint: string = GLM_API_BASE;
 
-	constructor(apiKey: string, model: 'glm-4v' | 'glm-4.6v' | 'glm-4.6v-flash' | 'glm-4.6v-flashx' | 'glm-4.5v' = 'glm-4.6v-flash') {
+	constructor(apiKey: string, model: ModelType = 'glm-4.6v-flash') {
 		this.apiKey = apiKey;
 		this.model = model;
 	}
 
-	setModel(model: 'glm-4v' | 'glm-4.6v' | 'glm-4.6v-flash' | 'glm-4.6v-flashx' | 'glm-4.5v') {
+	setModel(model: ModelType) {
 		this.model = model;
 	}
 
@@ -49,49 +67,65 @@ export class GLMService {
 		this.apiKey = apiKey;
 	}
 
-	private async call(messages: GLMMessage[], imageUrl?: string, retryCount: number = 0): Promise<string> {
-		const MAX_RETRIES = 2;
-		const RETRY_DELAY = 1000; // 1 second
+	protected buildHeaders(): Record<string, string> {
+		return {
+			'Content-Type': 'application/json',
+			'Authorization': `Bearer ${this.apiKey}`
+		};
+	}
 
-		// Ensure imageUrl has the data URL prefix if it's just base64
-		let formattedImageUrl = imageUrl;
-		if (imageUrl && !imageUrl.startsWith('data:')) {
-			formattedImageUrl = `data:image/jpeg;base64,${imageUrl}`;
-		}
+	// Several images go into one user message, in order, ahead of the text
+	protected buildRequestBody(messages: GLMMessage[], images?: string | string[], stream: boolean = false) {
+		// Ensure each image has the data URL prefix if it's just base64
+		const imageUrls = (Array.isArray(images) ? images : images ? [images] : []).map(image =>
+			image.startsWith('data:') ? image : `data:image/jpeg;base64,${image}`
+		);
 
-		const requestBody = {
+		return {
 			model: this.model,
-			messages: formattedImageUrl
+			messages: imageUrls.length > 0
 				? [
-						{ role: 'user', content: [{ type: 'image_url', image_url: { url: formattedImageUrl } }, { type: 'text', text: messages[0].content }] }
+						{
+							role: 'user',
+							content: [
+								...imageUrls.map(url => ({ type: 'image_url', image_url: { url } })),
+								{ type: 'text', text: messages[0].content }
+							]
+						}
 				  ]
 				: messages,
 			temperature: 0.7,
-			max_tokens: 1024
+			max_tokens: 1024,
+			...(stream ? { stream: true } : {})
 		};
+	}
+
+	protected async call(messages: GLMMessage[], imageUrl?: string | string[], retryCount: number = 0, signal?: AbortSignal): Promise<string> {
+		const MAX_RETRIES = 2;
+		const RETRY_DELAY = 1000; // 1 second
+
+		const requestBody = this.buildRequestBody(messages, imageUrl);
 
 		try {
-			const response = await fetch(GLM_API_BASE, {
+			const response = await fetch(this.endpoint, {
 				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${this.apiKey}`
-				},
-				body: JSON.stringify(requestBody)
+				headers: this.buildHeaders(),
+				body: JSON.stringify(requestBody),
+				signal
 			});
 
 			if (!response.ok) {
 				const errorText = await response.text();
-				console.error('GLM API Error:', response.status, errorText);
+				console.error(`${this.id} API Error:`, response.status, errorText);
 
 				// Retry on 5xx errors or rate limiting (429)
 				if ((response.status >= 500 || response.status === 429) && retryCount < MAX_RETRIES) {
 					console.log(`Retrying... (${retryCount + 1}/${MAX_RETRIES})`);
 					await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-					return this.call(messages, imageUrl, retryCount + 1);
+					return this.call(messages, imageUrl, retryCount + 1, signal);
 				}
 
-				throw new Error(`GLM API error: ${response.status} - ${errorText}`);
+				throw new Error(`${this.id} API error: ${response.status} - ${errorText}`);
 			}
 
 			const data: GLMResponse = await response.json();
@@ -107,14 +141,91 @@ export class GLMService {
 			if (error instanceof TypeError && retryCount < MAX_RETRIES) {
 				console.log(`Network error, retrying... (${retryCount + 1}/${MAX_RETRIES})`);
 				await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-				return this.call(messages, imageUrl, retryCount + 1);
+				return this.call(messages, imageUrl, retryCount + 1, signal);
 			}
 			throw error;
 		}
 	}
 
+	// Streaming variant of call(): reports the accumulated text as each SSE chunk arrives
+	protected async callStream(messages: GLMMessage[], imageUrl: string | undefined, onText: (text: string) => void, signal?: AbortSignal): Promise<string> {
+		const response = await fetch(this.endpoint, {
+			method: 'POST',
+			headers: this.buildHeaders(),
+			body: JSON.stringify(this.buildRequestBody(messages, imageUrl, true)),
+			signal
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			console.error(`${this.id} API Error:`, response.status, errorText);
+
+			// Let the buffered path handle retries on 5xx / rate limiting
+			if (response.status >= 500 || response.status === 429) {
+				return this.call(messages, imageUrl, 1, signal);
+			}
+
+			throw new Error(`${this.id} API error: ${response.status} - ${errorText}`);
+		}
+
+		// Some servers ignore "stream": true and answer with a plain completion
+		const contentType = response.headers.get('content-type') || '';
+		if (!response.body || !contentType.includes('text/event-stream')) {
+			const data: GLMResponse = await response.json();
+			const content = data.choices?.[0]?.message?.content;
+			if (!content) {
+				throw new Error('Invalid API response: No content returned');
+			}
+			onText(content);
+			return content;
+		}
+
+		let text = '';
+		for await (const delta of readChatCompletionStream(response.body, signal)) {
+			text += delta;
+			onText(text);
+		}
+
+		if (!text) {
+			throw new Error('Invalid API response: No content returned');
+		}
+
+		return text;
+	}
+
+	// Stream when the caller wants partial updates, otherwise wait for the full completion
+	private request(prompt: string, imageBase64: string, options: VisionRequestOptions | undefined, onPartialJSON: (partial: Record<string, any>) => void): Promise<string> {
+		const messages: GLMMessage[] = [{ role: 'user', content: prompt }];
+		if (!options?.onPartial) {
+			return this.call(messages, imageBase64, 0, options?.signal);
+		}
+
+		return this.callStream(messages, imageBase64, (text) => {
+			const partial = parsePartialJSON(text);
+			if (partial && !options.signal?.aborted) {
+				onPartialJSON(partial);
+			}
+		}, options.signal);
+	}
+
+	// One text-only round-trip asking the model to fix its own invalid JSON.
+	// Only used for offline requests; real-time frames are superseded faster than a repair returns.
+	private repair = (prompt: string): Promise<string> => {
+		return this.call([{ role: 'user', content: prompt }]);
+	};
+
 	// Real-time guidance analysis
-	async analyzeFrame(imageBase64: string, style?: string): Promise<AISuggestion> {
+	async analyzeFrame(imageBase64: string, style?: string, options?: VisionRequestOptions): Promise<AISuggestion> {
+		const startTime = performance.now();
+
+		// Check cache first (a near-identical scene hashes the same)
+		const cacheKey = generateFrameCacheKey('analyzeFrame', options?.frameHash ?? hashString(imageBase64), style);
+		const cachedResult = options?.bypassCache ? null : analysisCache.get(cacheKey);
+		if (cachedResult) {
+			performanceMonitor.record('analyzeFrame_cache_hit', performance.now() - startTime);
+			return cachedResult;
+		}
+
 		const styleHint = style ? `\n目标风格：${style}。请特别关注这种风格的构图特点。` : '';
 		const prompt = `你是一个专业且友好的拍照助手。${styleHint}
 
@@ -168,54 +279,38 @@ export class GLMService {
 
 现在分析这张照片并返回JSON：`;
 
-		const response = await this.call([{ role: 'user', content: prompt }], imageBase64);
+		const response = await this.request(prompt, imageBase64, options, (partial) => {
+			if (typeof partial.suggestion !== 'string') return;
+			options?.onPartial?.({
+				...this.toFrameSuggestion(partial.suggestion, partial.grid_position, partial.confidence, partial.score),
+				should_vibrate: false
+			});
+		});
+
+		const parsed = validateModelResponse(response, AI_SUGGESTION_SCHEMA);
+		if (parsed.ok) {
+			const { suggestion, grid_position, confidence, score } = parsed.value;
+			const result = this.toFrameSuggestion(suggestion, grid_position, confidence, score);
+			analysisCache.set(cacheKey, result);
+			performanceMonitor.record('analyzeFrame', performance.now() - startTime);
+			return result;
+		}
 
-		// Clean up the response
-		let cleanText = response.trim()
+		// The model answered in plain text: report it and show the text itself
+		reportParsingError(AI_SUGGESTION_SCHEMA, parsed.issues, response);
+		const suggestionText = response.trim()
 			.replace(/^["`]|["`]$/g, '') // Remove quotes and backticks
 			.replace(/```json\n?|\n?```/g, '') // Remove code blocks
 			.replace(/\n+/g, ' ') // Replace newlines with space
-			.trim();
-
-		// Remove common prefixes if AI still uses them
-		cleanText = cleanText
-			.replace(/^(建议|拍照建议|构图建议|AI建议)[:：]\s*/i, '')
+			.replace(/^(建议|拍照建议|构图建议|AI建议)[:：]\s*/i, '') // Remove common prefixes
 			.replace(/^(composition_suggestion|suggestion|text)[:：]\s*/i, '')
 			.trim();
 
-		// Try to parse JSON response with enhanced fields
-		let suggestionText = cleanText;
-		let gridPosition = 'center'; // Default position
-		let confidence = 0.7; // Default confidence
-		let score = 60; // Default score
-		let guideLines: GuideLine[] = [];
-
-		try {
-			// First try to match JSON in the response
-			const jsonMatch = cleanText.match(/\{[^}]*"suggestion"[^}]*"grid_position"[^}]*\}/);
-			if (jsonMatch) {
-				const parsed = JSON.parse(jsonMatch[0]);
-				suggestionText = parsed.suggestion || suggestionText;
-				gridPosition = parsed.grid_position || 'center';
-				confidence = parsed.confidence ?? 0.7;
-				score = parsed.score ?? 60;
-			} else {
-				// Try to parse the entire response as JSON
-				const parsed = JSON.parse(cleanText);
-				suggestionText = parsed.suggestion || parsed.composition_suggestion || suggestionText;
-				gridPosition = parsed.grid_position || 'center';
-				confidence = parsed.confidence ?? 0.7;
-				score = parsed.score ?? 60;
-			}
-		} catch {
-			// If JSON parsing fails, use the text as is
-			// Check if response contains old format JSON and extract value if so
-			const oldJsonMatch = cleanText.match(/"composition_suggestion"\\s*:\\s*"([^"]+)"/);
-			if (oldJsonMatch) {
-				suggestionText = oldJsonMatch[1];
-			}
-		}
+		return this.toFrameSuggestion(suggestionText);
+	}
 
+	// Build the frame suggestion from parsed (possibly partial) model output
+	private toFrameSuggestion(suggestionText: string, gridPosition: string = 'center', confidence: number = 0.7, score: number = 60): AISuggestion {
 		// Convert grid position to guide lines
 		// Grid is 3x3, so positions are at: 0.167, 0.5, 0.833 for rows and cols
 		const positionMap: Record<string, { x: number; y: number }> = {
@@ -231,7 +326,7 @@ export class GLMService {
 		};
 
 		const pos = positionMap[gridPosition] || positionMap['center'];
-		guideLines = [{
+		const guideLines: GuideLine[] = [{
 			type: 'standing_position',
 			x: pos.x,
 			y: pos.y
@@ -260,22 +355,36 @@ export class GLMService {
 	}
 
 	// AI Pose Coach - Analyze frame and return pose guidance
-	async analyzePose(imageBase64: string, style?: string): Promise<AISuggestion> {
+	async analyzePose(imageBase64: string, style?: string, options?: VisionRequestOptions): Promise<AISuggestion> {
 		const startTime = performance.now();
 
 		// Check cache first
-		const cacheKey = generatePoseCacheKey({ imageBase64: imageBase64.slice(0, 100), style }); // Cache by partial image data
-		const cachedResult = analysisCache.get(cacheKey);
+		const cacheKey = generateFrameCacheKey('analyzePose', options?.frameHash ?? hashString(imageBase64), style);
+		const cachedResult = options?.bypassCache ? null : analysisCache.get(cacheKey);
 		if (cachedResult) {
 			performanceMonitor.record('analyzePose_cache_hit', performance.now() - startTime);
+			// The target pose can be reused, the detected one cannot
+			if (cachedResult.pose_guide && options?.currentPose) {
+				return { ...cachedResult, pose_guide: { ...cachedResult.pose_guide, current_pose: options.currentPose } };
+			}
 			return cachedResult;
 		}
 
 		// Use request queue to prevent overwhelming the API
 		return requestQueue.add(async () => {
 			try {
+				// Superseded while waiting in the queue
+				if (options?.signal?.aborted) {
+					throw new DOMException('Analysis superseded', 'AbortError');
+				}
+
 				const styleHint = style ? `\n目标风格：${style}。根据这种风格的特点调整姿势建议。` : '';
-				const prompt = `你是一个世界级的专业拍照姿势教练和摄影指导，拥有20年摄影指导经验。${styleHint}
+				// With on-device keypoints the model no longer has to locate the body itself
+				const detectedPose = options?.currentPose && Object.keys(options.currentPose).length > 0 ? options.currentPose : null;
+				const detectedPoseHint = detectedPose
+					? `\n\n**当前骨架（设备端姿态检测结果，坐标已精确，无需重新估计）：**\n${JSON.stringify(detectedPose)}\n请直接基于当前骨架生成目标姿势（target_pose）和调整建议，target_pose 只做必要的调整，未检测到的关键点可以省略。`
+					: '';
+				const prompt = `你是一个世界级的专业拍照姿势教练和摄影指导，拥有20年摄影指导经验。${styleHint}${detectedPoseHint}
 
 **核心任务：精确分析当前画面，生成完美的目标姿势骨架**
 
@@ -480,36 +589,39 @@ export class GLMService {
 
 现在开始专业分析并返回JSON：`;
 
-		const response = await this.call([{ role: 'user', content: prompt }], imageBase64);
-
-		// Clean up the response
-		let cleanText = response.trim()
-			.replace(/^["`]|["`]$/g, '')
-			.replace(/```json\n?|\n?```/g, '')
-			.replace(/\n+/g, ' ')
-			.trim();
+		const response = await this.request(prompt, imageBase64, options, (partial) => {
+			if (typeof partial.suggestion !== 'string') return;
+			const partialScore = typeof partial.score === 'number' ? partial.score : 60;
+			// Only show the skeleton once target_pose is fully received
+			const targetPose = isKeyComplete(partial, 'target_pose') ? coercePose(partial.target_pose) : {};
+			options?.onPartial?.({
+				composition_suggestion: partial.suggestion,
+				lighting_assessment: '',
+				angle_suggestion: '',
+				overall_score: Math.min(1, Math.max(0, partialScore / 100)),
+				should_vibrate: false,
+				pose_guide: Object.keys(targetPose).length > 0
+					? { target_pose: targetPose, current_pose: detectedPose ?? undefined, instructions: [], confidence: partial.confidence ?? 0.7 }
+					: undefined
+			});
+		});
 
-		// Parse JSON response
-		const parsed = JSON.parse(cleanText);
-		let suggestionText = parsed.suggestion || 'AI正在分析姿势...';
-		let confidence = parsed.confidence ?? 0.7;
-		let score = parsed.score ?? 60;
-		let targetPose = parsed.target_pose || {};
+		// Throws a (tracked) ResponseParseError when the output is unusable
+		const { value: parsed } = await parseModelResponse(response, POSE_GUIDE_SCHEMA);
+		let suggestionText = parsed.suggestion;
+		let confidence = parsed.confidence;
+		let score = parsed.score;
+		let targetPose = parsed.target_pose;
 		let instructions: string[] = [];
 		let poseGuide: any = null;
 
 		// Enhanced instruction parsing from adjustments array
-		if (parsed.adjustments && Array.isArray(parsed.adjustments)) {
-			// Sort by urgency if available
-			const sortedAdjustments = parsed.adjustments.sort((a: any, b: any) => {
-				const urgencyOrder = { high: 0, medium: 1, low: 2 };
-				const urgencyA = a.urgency || 'low';
-				const urgencyB = b.urgency || 'low';
-				return urgencyOrder[urgencyA as keyof typeof urgencyOrder] -
-				       urgencyOrder[urgencyB as keyof typeof urgencyOrder];
-			});
+		if (parsed.adjustments.length > 0) {
+			// Sort by urgency
+			const urgencyOrder = { high: 0, medium: 1, low: 2 };
+			const sortedAdjustments = [...parsed.adjustments].sort((a, b) => urgencyOrder[a.urgency] - urgencyOrder[b.urgency]);
 
-			instructions = sortedAdjustments.map((adj: any, index: number) => {
+			instructions = sortedAdjustments.map((adj) => {
 				const urgencyEmoji = adj.urgency === 'high' ? '🔴' :
 				                    adj.urgency === 'medium' ? '🟡' : '🟢';
 				return `${urgencyEmoji} ${adj.body_part}${adj.action}`;
@@ -517,8 +629,8 @@ export class GLMService {
 		}
 
 		// Add step-by-step instructions if available
-		if (parsed.step_by_step && Array.isArray(parsed.step_by_step)) {
-			const stepInstructions = parsed.step_by_step.map((step: string, i: number) =>
+		if (parsed.step_by_step.length > 0) {
+			const stepInstructions = parsed.step_by_step.map((step, i) =>
 				`📋 ${i + 1}. ${step}`
 			);
 			instructions = [...stepInstructions, ...instructions];
@@ -529,9 +641,6 @@ export class GLMService {
 			instructions.push(`⚠️ 常见错误：${parsed.common_mistake.mistake} → ${parsed.common_mistake.correction}`);
 		}
 
-		// Validate pose coordinates
-		targetPose = this.validatePoseCoordinates(targetPose);
-
 		// Apply pose smoothing to reduce jitter
 		if (Object.keys(targetPose).length > 0) {
 			const smoothingConfig: SmoothingConfig = {
@@ -568,7 +677,7 @@ export class GLMService {
 		if (Object.keys(targetPose).length > 0) {
 			poseGuide = {
 				target_pose: targetPose,
-				current_pose: parsed.current_pose_analysis,
+				current_pose: detectedPose ?? undefined,
 				instructions: instructions,
 				confidence: confidence,
 				difficulty: difficulty.difficulty,
@@ -600,9 +709,16 @@ export class GLMService {
 
 		return result;
 		} catch (error) {
-			// Classify and track the error
+			// Superseded requests are dropped, not replaced with a fallback
+			if (isAbortError(error)) {
+				throw error;
+			}
+
+			// Classify and track the error (parse errors are already tracked by the parser)
 			const appError = classifyError(error);
-			errorTracker.track(appError);
+			if (!(error instanceof ResponseParseError)) {
+				errorTracker.track(appError);
+			}
 
 			// Try to recover or use fallback
 			const fallback = await recoverFromError(appError, {
@@ -616,62 +732,62 @@ export class GLMService {
 		});
 	}
 
-	// Validate and normalize pose coordinates
-	private validatePoseCoordinates(pose: any): any {
-		const validated: any = {};
-
-		for (const [key, value] of Object.entries(pose)) {
-			if (value && typeof value === 'object') {
-				const x = (value as any).x;
-				const y = (value as any).y;
-				const visibility = (value as any).visibility;
-
-				// Validate and clamp coordinates to [0, 1] range
-				if (typeof x === 'number' && typeof y === 'number') {
-					validated[key] = {
-						x: Math.max(0, Math.min(1, x)),
-						y: Math.max(0, Math.min(1, y)),
-						visibility: typeof visibility === 'number' ? Math.max(0, Math.min(1, visibility)) : 0.8
-					};
-				}
-			}
-		}
-
-		return validated;
-	}
-
 	// Photo selection analysis
-	async selectPhotos(photoData: Array<{ id: string; base64: string }>): Promise<{ selected: Array<{ photo_id: string; score: number; reasons: string[] }>; summary: string }> {
-		const photoList = photoData.map((p, i) => `照片${i + 1}: [ID: ${p.id}]`).join('\n');
-		const prompt = `你是一个专业摄影师。请从以下 ${photoData.length} 张照片中选出最佳的 1-3 张。
+	// Compares a batch of photos in one multi-image request; images are labelled P1..Pn in order
+	// and the labels are mapped back to the real photo ids
+	async selectPhotos(photoData: Array<{ id: string; base64: string }>): Promise<PhotoSelectionResult> {
+		if (photoData.length === 0) {
+			return { selected: [], summary: '', analyses: [] };
+		}
 
-照片列表：
-${photoList}
+		const labels = photoData.map((_, i) => `P${i + 1}`);
+		const prompt = `你是一个专业摄影师。上面按顺序附上了 ${photoData.length} 张照片，依次编号为 ${labels.join('、')}。
 
-请分析每张照片的构图、光线、表情、角度等，选出最佳照片。
+请逐张分析构图、光线、表情、角度等，给每张照片打分，并选出最佳的 1-3 张。
+photo_id 必须使用上面的编号（如 P1）。
 
 请以 JSON 格式返回：
 {
+  "analyses": [
+    {
+      "photo_id": "P1",
+      "score": 0.85,
+      "reasons": ["构图遵循三分法", "表情自然"],
+      "tags": ["portrait", "smile"],
+      "composition": "rule_of_thirds",
+      "lighting": "soft",
+      "angle": "eye_level"
+    }
+  ],
   "selected": [
     {
-      "photo_id": "照片ID（如 1, 2, 3）",
+      "photo_id": "P1",
       "score": 0.9,
       "reasons": ["构图遵循三分法", "表情自然", "光线柔和"]
     }
   ],
-  "summary": "这批照片中，第1张和第3张最佳..."
+  "summary": "这批照片中，P1 和 P3 最佳..."
 }`;
 
-		const response = await this.call([{ role: 'user', content: prompt }]);
+		const response = await this.call([{ role: 'user', content: prompt }], photoData.map(p => p.base64));
+		const { value } = await parseModelResponse(response, PHOTO_SELECTION_SCHEMA, { repair: this.repair });
+
+		const ids = photoData.map(p => p.id);
+		const resolve = <T extends { photo_id: string }>(items: T[] = []): T[] => {
+			const seen = new Set<string>();
+			return items.flatMap(item => {
+				const id = resolvePhotoLabel(item.photo_id, ids);
+				if (!id || seen.has(id)) return [];
+				seen.add(id);
+				return [{ ...item, photo_id: id }];
+			});
+		};
 
-		try {
-			return JSON.parse(response);
-		} catch {
-			return {
-				selected: [],
-				summary: response
-			};
-		}
+		return {
+			...value,
+			selected: resolve(value.selected),
+			analyses: resolve(value.analyses)
+		};
 	}
 
 	// Style learning from uploaded photos
@@ -690,20 +806,8 @@ ${photoList}
 }`;
 
 		const response = await this.call([{ role: 'user', content: prompt }], imageBase64);
-
-		try {
-			return JSON.parse(response);
-		} catch {
-			return {
-				composition: [],
-				preferred_angles: [],
-				tone: 'neutral',
-				lighting: 'natural',
-				background: 'unknown',
-				mood: 'neutral',
-				tags: []
-			};
-		}
+		const { value } = await parseModelResponse(response, STYLE_PROFILE_SCHEMA, { repair: this.repair });
+		return value;
 	}
 
 	// Analyze a single photo
@@ -721,29 +825,31 @@ ${photoList}
 }`;
 
 		const response = await this.call([{ role: 'user', content: prompt }], imageBase64);
-
-		try {
-			return JSON.parse(response);
-		} catch {
-			return {
-				score: 0.5,
-				reasons: [],
-				tags: []
-			};
-		}
+		const { value } = await parseModelResponse(response, PHOTO_ANALYSIS_SCHEMA, { repair: this.repair });
+		return value;
 	}
 }
 
 // Singleton instance
 let glmService: GLMService | null = null;
 
-export function getGLMService(apiKey: string, model: 'glm-4v' | 'glm-4.6v' | 'glm-4.6v-flash' | 'glm-4.6v-flashx' | 'glm-4.5v' = 'glm-4.6v-flash'): GLMService {
+export function getGLMService(apiKey: string, model: GLMModel = 'glm-4.6v-flash'): GLMService {
 	if (!glmService || glmService['apiKey'] !== apiKey) {
 		glmService = new GLMService(apiKey, model);
 	}
 	return glmService;
 }
 
+// Map a label the model used ("P2", "照片2", "2" or the id itself) back to a photo id
+export function resolvePhotoLabel(label: string, ids: string[]): string | undefined {
+	const trimmed = String(label).trim();
+	if (ids.includes(trimmed)) return trimmed;
+
+	const match = trimmed.match(/^(?:P|p|照片|第)?\s*(\d+)\s*张?$/);
+	if (!match) return undefined;
+	return ids[Number(match[1]) - 1];
+}
+
 // Helper to convert canvas/blob to base64
 export async function imageToBase64(blob: Blob): Promise<string> {
 	return new Promise((resolve, reject) => {
@@ -0,0 +1,85 @@
+import { photoService, settingsService } from '$lib/services/db';
+import { getJobQueue, PermanentJobError, type JobQueue } from '$lib/services/jobQueue';
+import { configureSync, getSyncEngine, type SyncEngine } from '$lib/services/sync';
+import { getVisionProvider, isVisionProviderConfigured } from '$lib/services/vision';
+import { imageToBase64 } from '$lib/services/glm';
+import { decodePixels, encodePixels } from '$lib/utils/imagePipeline';
+import { getSocialSharingManager } from '$lib/utils/socialSharing';
+import { applyRetention, hasRetentionRules, planRetention } from '$lib/services/storageManager';
+import { backfillThumbnails } from '$lib/services/photoThumbnails';
+
+/**
+ * Handlers for the job queue
+ * Worker handlers only touch IndexedDB and the network, so the service worker can run them
+ * from Background Sync; page handlers additionally need window state (localStorage).
+ */
+
+const ANALYSIS_MAX_SIDE = 1024;
+const SHARE_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// In the service worker nothing has configured the engine yet, so build it from stored settings
+async function resolveSyncEngine(): Promise<SyncEngine> {
+	const engine = getSyncEngine() ?? configureSync((await settingsService.get()) ?? {});
+	if (!engine) {
+		throw new PermanentJobError('Cloud sync is not configured');
+	}
+	return engine;
+}
+
+export function registerWorkerJobHandlers(queue: JobQueue = getJobQueue()): void {
+	queue.register('sync', async () => {
+		const engine = await resolveSyncEngine();
+		await engine.sync();
+	});
+
+	queue.register('cloud-upload', async ({ photoId }, { reportProgress }) => {
+		const engine = await resolveSyncEngine();
+		await engine.uploadPhotoBlob(photoId, fraction => reportProgress(fraction * 0.9));
+		// The photo row follows with the next sync pass
+		await engine.sync();
+	});
+
+	queue.register('analyze-photo', async ({ photoId }, { reportProgress }) => {
+		const photo = await photoService.get(photoId);
+		if (!photo) throw new PermanentJobError(`Photo ${photoId} no longer exists`);
+		const settings = await settingsService.get();
+		if (!settings || !isVisionProviderConfigured(settings)) {
+			throw new PermanentJobError('No vision provider configured');
+		}
+
+		const pixels = await decodePixels(photo.blob, ANALYSIS_MAX_SIDE);
+		const base64 = await imageToBase64(await encodePixels(pixels, 'jpeg', 0.85));
+		await reportProgress(0.2);
+
+		const analysis = await getVisionProvider(settings).analyzePhoto(base64);
+		await photoService.update(photoId, { analysis });
+	});
+
+	queue.register('enforce-retention', async (_payload, { reportProgress }) => {
+		const policy = (await settingsService.get())?.retentionPolicy;
+		// The policy may have been switched off since the job was queued
+		if (!policy?.autoEnforce || !hasRetentionRules(policy)) return;
+		const plan = await planRetention(policy);
+		await applyRetention(plan, policy, ({ done, total }) => reportProgress(total > 0 ? done / total : 1));
+	});
+
+	queue.register('backfill-thumbnails', async (_payload, { reportProgress }) => {
+		await backfillThumbnails((done, total) => reportProgress(done / total));
+	});
+}
+
+export function registerPageJobHandlers(queue: JobQueue = getJobQueue()): void {
+	registerWorkerJobHandlers(queue);
+
+	queue.register('share-publish', async ({ shareLinkId, photoId }, { reportProgress }) => {
+		const sharing = getSocialSharingManager();
+		if (!sharing.getShareLink(shareLinkId)) {
+			throw new PermanentJobError(`Share link ${shareLinkId} expired or was removed`);
+		}
+
+		const engine = await resolveSyncEngine();
+		const storagePath = await engine.uploadPhotoBlob(photoId, fraction => reportProgress(fraction * 0.9));
+		const url = await engine.createSignedUrl(storagePath, SHARE_LINK_TTL_SECONDS);
+		sharing.setPublishedUrl(shareLinkId, url);
+	});
+}
@@ -0,0 +1,386 @@
+import { writable } from 'svelte/store';
+import { db as defaultDb, type BoyfriendCameraDB, type JobRecord } from '$lib/services/db';
+
+/**
+ * Durable background job queue
+ * Jobs live in the Dexie `jobs` table, so they survive reloads and can be drained from the page
+ * or from the service worker (Background Sync). Each context registers handlers for the job
+ * types it can run; jobs of other types stay queued for a context that can.
+ *
+ * - A job is claimed with a lease; a job whose lease ran out (tab closed mid-run) is picked up again.
+ * - Failures retry with exponential backoff and jitter until maxAttempts, then the job is dead-lettered.
+ * - An idempotency key identifies the work: enqueueing the same key again returns the existing job.
+ */
+
+// Payload per job type
+export interface JobPayloads {
+	'analyze-photo': { photoId: string };
+	'cloud-upload': { photoId: string };
+	'share-publish': { shareLinkId: string; photoId: string };
+	sync: Record<string, never>;
+	'enforce-retention': Record<string, never>;
+	'backfill-thumbnails': Record<string, never>;
+}
+
+export type JobType = keyof JobPayloads;
+
+export type Job<T extends JobType = JobType> = Omit<JobRecord, 'type' | 'payload'> & {
+	type: T;
+	payload: JobPayloads[T];
+};
+
+export interface JobContext {
+	job: Job;
+	// Persist progress (0-1); also renews the lease of long-running jobs
+	reportProgress(progress: number): Promise<void>;
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], context: JobContext) => Promise<void>;
+
+// Failure that retrying cannot fix; the job is dead-lettered right away
+export class PermanentJobError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PermanentJobError';
+	}
+}
+
+export interface JobQueueConfig {
+	maxAttempts: number;
+	baseDelayMs: number; // Backoff after the first failure
+	maxDelayMs: number;
+	leaseMs: number;
+}
+
+export const DEFAULT_JOB_QUEUE: JobQueueConfig = {
+	maxAttempts: 6,
+	baseDelayMs: 2000,
+	maxDelayMs: 10 * 60 * 1000,
+	leaseMs: 2 * 60 * 1000
+};
+
+export interface EnqueueOptions {
+	idempotencyKey?: string; // Defaults to a fresh id (no deduplication)
+	maxAttempts?: number;
+	delayMs?: number;
+	requiresNetwork?: boolean; // Defaults to true
+}
+
+// Background Sync tag the service worker drains the queue on
+export const JOB_QUEUE_SYNC_TAG = 'job-queue';
+
+export interface JobQueueStatus {
+	pending: number;
+	running: number;
+	dead: number;
+	jobs: Job[]; // Everything not completed, oldest first
+}
+
+export const jobQueueStatus = writable<JobQueueStatus>({ pending: 0, running: 0, dead: 0, jobs: [] });
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half random, so clients
+// that failed together (e.g. the same outage) do not all retry at the same moment
+export function backoffDelay(attempts: number, config: JobQueueConfig = DEFAULT_JOB_QUEUE): number {
+	const delay = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** Math.max(0, attempts - 1));
+	return delay / 2 + Math.random() * (delay / 2);
+}
+
+function isOffline(): boolean {
+	return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+// Ask the service worker to drain the queue once the connection is back (page context only)
+export function requestBackgroundSync(): void {
+	if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+
+	navigator.serviceWorker.ready
+		.then(registration => {
+			const sync = (registration as ServiceWorkerRegistration & {
+				sync?: { register(tag: string): Promise<void> };
+			}).sync;
+			return sync?.register(JOB_QUEUE_SYNC_TAG);
+		})
+		.catch(error => console.warn('Background Sync unavailable:', error));
+}
+
+export interface JobQueueOptions {
+	database?: BoyfriendCameraDB;
+	config?: Partial<JobQueueConfig>;
+}
+
+export class JobQueue {
+	private db: BoyfriendCameraDB;
+	private config: JobQueueConfig;
+	private handlers = new Map<JobType, JobHandler<JobType>>();
+	private draining: Promise<number> | null = null;
+	private enqueueListeners = new Set<() => void>();
+
+	constructor(options: JobQueueOptions = {}) {
+		this.db = options.database ?? defaultDb;
+		this.config = { ...DEFAULT_JOB_QUEUE, ...options.config };
+	}
+
+	register<T extends JobType>(type: T, handler: JobHandler<T>): void {
+		this.handlers.set(type, handler as unknown as JobHandler<JobType>);
+	}
+
+	canRun(type: string): boolean {
+		return this.handlers.has(type as JobType);
+	}
+
+	onEnqueue(listener: () => void): () => void {
+		this.enqueueListeners.add(listener);
+		return () => this.enqueueListeners.delete(listener);
+	}
+
+	async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): Promise<Job<T>> {
+		const idempotencyKey = options.idempotencyKey ?? crypto.randomUUID();
+		const now = new Date();
+
+		const job = await this.db.transaction('rw', this.db.jobs, async () => {
+			const existing = await this.db.jobs.where('idempotencyKey').equals(idempotencyKey).first();
+			if (existing) return existing as Job<T>;
+
+			const created: Job<T> = {
+				id: crypto.randomUUID(),
+				type,
+				payload,
+				idempotencyKey,
+				status: 'pending',
+				attempts: 0,
+				maxAttempts: options.maxAttempts ?? this.config.maxAttempts,
+				nextRunAt: now.getTime() + (options.delayMs ?? 0),
+				leaseUntil: null,
+				progress: 0,
+				error: null,
+				requiresNetwork: options.requiresNetwork ?? true,
+				createdAt: now,
+				updatedAt: now
+			};
+			await this.db.jobs.add(created);
+			return created;
+		});
+
+		await this.refreshStatus();
+		this.enqueueListeners.forEach(listener => listener());
+		requestBackgroundSync();
+		return job;
+	}
+
+	async get(id: string): Promise<Job | undefined> {
+		return (await this.db.jobs.get(id)) as Job | undefined;
+	}
+
+	// Give a dead-lettered job a fresh set of attempts
+	async retry(id: string): Promise<void> {
+		await this.db.jobs
+			.where('id')
+			.equals(id)
+			.and(job => job.status === 'dead')
+			.modify({ status: 'pending', attempts: 0, nextRunAt: Date.now(), error: null, updatedAt: new Date() });
+		await this.refreshStatus();
+		this.enqueueListeners.forEach(listener => listener());
+	}
+
+	// Drop a job that has not started (or is dead); running jobs finish first
+	async cancel(id: string): Promise<void> {
+		await this.db.jobs.where('id').equals(id).and(job => job.status !== 'running').delete();
+		await this.refreshStatus();
+	}
+
+	// Completed jobs are kept for idempotency; forget the ones older than maxAgeMs
+	async prune(maxAgeMs: number = 7 * 24 * 60 * 60 * 1000): Promise<number> {
+		const cutoff = Date.now() - maxAgeMs;
+		const removed = await this.db.jobs
+			.where('status')
+			.equals('completed')
+			.and(job => (job.completedAt?.getTime() ?? 0) < cutoff)
+			.delete();
+		await this.refreshStatus();
+		return removed;
+	}
+
+	async clear(): Promise<void> {
+		await this.db.jobs.clear();
+		await this.refreshStatus();
+	}
+
+	// Run every due job this context has a handler for; returns how many ran.
+	// Concurrent callers share the drain that is already running.
+	drain(): Promise<number> {
+		if (!this.draining) {
+			this.draining = this.runDrain().finally(() => {
+				this.draining = null;
+			});
+		}
+		return this.draining;
+	}
+
+	// Earliest time a runnable job becomes due (null when nothing is waiting)
+	async nextDueAt(): Promise<number | null> {
+		const waiting = await this.db.jobs.where('status').anyOf('pending', 'running').toArray();
+		const times = waiting
+			.filter(job => this.canRun(job.type))
+			.map(job => (job.status === 'running' ? job.leaseUntil ?? Date.now() : job.nextRunAt));
+		return times.length > 0 ? Math.min(...times) : null;
+	}
+
+	// Jobs this context could still run (now or after their backoff)
+	async pendingCount(): Promise<number> {
+		return this.db.jobs
+			.where('status')
+			.anyOf('pending', 'running')
+			.filter(job => this.canRun(job.type))
+			.count();
+	}
+
+	async refreshStatus(): Promise<void> {
+		const jobs = (await this.db.jobs.where('status').anyOf('pending', 'running', 'dead').toArray()) as Job[];
+		jobs.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+		jobQueueStatus.set({
+			pending: jobs.filter(job => job.status === 'pending').length,
+			running: jobs.filter(job => job.status === 'running').length,
+			dead: jobs.filter(job => job.status === 'dead').length,
+			jobs
+		});
+	}
+
+	private async runDrain(): Promise<number> {
+		let ran = 0;
+		for (let job = await this.claimNext(); job; job = await this.claimNext()) {
+			await this.run(job);
+			ran++;
+		}
+		return ran;
+	}
+
+	// Atomically take the oldest due job, so a page and the service worker never run the same one
+	private async claimNext(): Promise<Job | null> {
+		const offline = isOffline();
+		const job = await this.db.transaction('rw', this.db.jobs, async () => {
+			const now = Date.now();
+			const due = await this.db.jobs
+				.where('status')
+				.anyOf('pending', 'running')
+				.filter(job =>
+					this.canRun(job.type) &&
+					(job.status === 'pending' ? job.nextRunAt <= now : (job.leaseUntil ?? 0) <= now) &&
+					!(job.requiresNetwork && offline)
+				)
+				.toArray();
+			if (due.length === 0) return null;
+
+			due.sort((a, b) => a.nextRunAt - b.nextRunAt);
+			const claimed: JobRecord = {
+				...due[0],
+				status: 'running',
+				attempts: due[0].attempts + 1,
+				leaseUntil: now + this.config.leaseMs,
+				updatedAt: new Date()
+			};
+			await this.db.jobs.put(claimed);
+			return claimed as Job;
+		});
+
+		if (job) await this.refreshStatus();
+		return job;
+	}
+
+	private async run(job: Job): Promise<void> {
+		const handler = this.handlers.get(job.type)!;
+		const context: JobContext = {
+			job,
+			reportProgress: async (progress: number) => {
+				await this.db.jobs.update(job.id, {
+					progress: Math.max(0, Math.min(1, progress)),
+					leaseUntil: Date.now() + this.config.leaseMs,
+					updatedAt: new Date()
+				});
+				await this.refreshStatus();
+			}
+		};
+
+		try {
+			await handler(job.payload, context);
+			await this.db.jobs.update(job.id, {
+				status: 'completed',
+				progress: 1,
+				leaseUntil: null,
+				error: null,
+				completedAt: new Date(),
+				updatedAt: new Date()
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			const dead = error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+			console.error(`Job ${job.type} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+			await this.db.jobs.update(job.id, {
+				status: dead ? 'dead' : 'pending',
+				nextRunAt: dead ? job.nextRunAt : Date.now() + backoffDelay(job.attempts, this.config),
+				leaseUntil: null,
+				error: message,
+				updatedAt: new Date()
+			});
+		}
+		await this.refreshStatus();
+	}
+}
+
+// Singleton instance
+let jobQueue: JobQueue | null = null;
+
+export function getJobQueue(): JobQueue {
+	if (!jobQueue) {
+		jobQueue = new JobQueue();
+	}
+	return jobQueue;
+}
+
+export function enqueueJob<T extends JobType>(type: T, payload: JobPayloads[T], options?: EnqueueOptions): Promise<Job<T>> {
+	return getJobQueue().enqueue(type, payload, options);
+}
+
+// Page-side runner: drains on start, when back online or visible, on enqueue, and when the next
+// backoff expires. Returns a stop function.
+export function startJobQueue(queue: JobQueue = getJobQueue()): () => void {
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let stopped = false;
+
+	const schedule = async () => {
+		if (stopped) return;
+		if (timer) clearTimeout(timer);
+		timer = null;
+
+		const dueAt = await queue.nextDueAt();
+		if (stopped || dueAt === null) return;
+		// setTimeout overflows past ~24.8 days; re-check at least hourly
+		const delay = Math.min(Math.max(0, dueAt - Date.now()), 60 * 60 * 1000);
+		timer = setTimeout(run, delay);
+	};
+
+	const run = () => {
+		if (stopped) return;
+		queue
+			.drain()
+			.catch(error => console.error('Job queue drain failed:', error))
+			.finally(schedule);
+	};
+
+	const onVisible = () => {
+		if (document.visibilityState === 'visible') run();
+	};
+
+	window.addEventListener('online', run);
+	document.addEventListener('visibilitychange', onVisible);
+	const unsubscribe = queue.onEnqueue(run);
+	queue.refreshStatus().then(run);
+
+	return () => {
+		stopped = true;
+		if (timer) clearTimeout(timer);
+		window.removeEventListener('online', run);
+		document.removeEventListener('visibilitychange', onVisible);
+		unsubscribe();
+	};
+}
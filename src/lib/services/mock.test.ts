@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { AISuggestion, PhotoAnalysis } from '$lib/types';
+import {
+	MockVisionProvider,
+	RecordingVisionProvider,
+	fixturesToBlob,
+	parseFixtureFile,
+	type VisionFixtureFile
+} from '$lib/services/mock';
+
+const SUGGESTIONS: AISuggestion[] = [
+	{ composition_suggestion: '人物往左一点', lighting_assessment: '顺光', angle_suggestion: '', overall_score: 62, should_vibrate: false },
+	{ composition_suggestion: '构图很好', lighting_assessment: '顺光', angle_suggestion: '', overall_score: 91, should_vibrate: true }
+];
+
+const ANALYSIS: PhotoAnalysis = { score: 0.8, reasons: ['表情自然'], tags: ['portrait'] };
+
+// Stands in for the live provider being recorded
+function liveProvider(): MockVisionProvider {
+	return new MockVisionProvider({
+		version: 1,
+		responses: { analyzeFrame: SUGGESTIONS, analyzePhoto: [ANALYSIS] }
+	});
+}
+
+async function recordSession(): Promise<VisionFixtureFile> {
+	const recorder = new RecordingVisionProvider(liveProvider());
+	await recorder.analyzeFrame('frame-1');
+	await recorder.analyzeFrame('frame-2');
+	await recorder.analyzePhoto('photo-1');
+	expect(recorder.recordedCount).toBe(3);
+	return recorder.exportFixtures();
+}
+
+describe('vision fixtures', () => {
+	it('replays recorded responses in order, cycling per request type', async () => {
+		const fixtures = parseFixtureFile(await fixturesToBlob(await recordSession()).text());
+		const replay = new MockVisionProvider(fixtures);
+
+		expect(await replay.analyzeFrame('any')).toEqual(SUGGESTIONS[0]);
+		expect(await replay.analyzeFrame('any')).toEqual(SUGGESTIONS[1]);
+		expect(await replay.analyzeFrame('any')).toEqual(SUGGESTIONS[0]);
+		expect(await replay.analyzePhoto('any')).toEqual(ANALYSIS);
+		await expect(replay.learnStyle('any')).rejects.toThrow('No fixture recorded for learnStyle');
+	});
+
+	it('hands out copies, so callers cannot change the fixtures', async () => {
+		const replay = new MockVisionProvider(await recordSession());
+		const first = await replay.analyzeFrame('any');
+		first.overall_score = 0;
+		replay.reset();
+
+		expect((await replay.analyzeFrame('any')).overall_score).toBe(62);
+	});
+
+	it('streams a partial suggestion before the full one', async () => {
+		const replay = new MockVisionProvider(await recordSession());
+		const partials: AISuggestion[] = [];
+		const result = await replay.analyzeFrame('any', undefined, { onPartial: partial => partials.push(partial) });
+
+		expect(partials).toHaveLength(1);
+		expect(partials[0].composition_suggestion).toBe(result.composition_suggestion);
+		expect(partials[0].should_vibrate).toBe(false);
+	});
+
+	it('maps recorded photo ids onto the current batch', async () => {
+		const replay = new MockVisionProvider({
+			version: 1,
+			responses: { selectPhotos: [{ selected: [{ photo_id: 'P2', score: 90, reasons: [] }], summary: '' }] }
+		});
+		const result = await replay.selectPhotos([{ id: 'a', base64: '' }, { id: 'b', base64: '' }]);
+
+		expect(result.selected.map(item => item.photo_id)).toEqual(['b']);
+	});
+
+	it('rejects malformed fixture files', () => {
+		expect(() => parseFixtureFile('{"version":2,"responses":{}}')).toThrow();
+		expect(() => parseFixtureFile('{"version":1,"responses":{"analyzeFrame":{}}}')).toThrow();
+	});
+});
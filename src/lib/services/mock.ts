@@ -0,0 +1,237 @@
+import type { AISuggestion, ModelType, PhotoAnalysis, StyleProfile, VisionProviderId } from '$lib/types';
+import type { VisionProvider, PhotoSelectionResult, VisionRequestOptions } from '$lib/services/vision';
+import { DEFAULT_VISION_FIXTURES } from '$lib/data/visionFixtures';
+
+// Response type for each VisionProvider request
+export interface VisionResponseMap {
+	analyzeFrame: AISuggestion;
+	analyzePose: AISuggestion;
+	selectPhotos: PhotoSelectionResult;
+	learnStyle: StyleProfile;
+	analyzePhoto: PhotoAnalysis;
+}
+
+export type VisionRequestType = keyof VisionResponseMap;
+
+export type VisionFixtureResponses = { [K in VisionRequestType]?: Array<VisionResponseMap[K]> };
+
+// Fixture file format (what record mode exports and replay mode loads)
+export interface VisionFixtureFile {
+	version: 1;
+	recordedAt?: string;
+	responses: VisionFixtureResponses;
+}
+
+const REQUEST_TYPES: VisionRequestType[] = ['analyzeFrame', 'analyzePose', 'selectPhotos', 'learnStyle', 'analyzePhoto'];
+
+function clone<T>(value: T): T {
+	return JSON.parse(JSON.stringify(value));
+}
+
+// Parse and validate a fixture file
+export function parseFixtureFile(json: string): VisionFixtureFile {
+	const parsed = JSON.parse(json);
+	if (!parsed || parsed.version !== 1 || typeof parsed.responses !== 'object' || parsed.responses === null) {
+		throw new Error('Invalid fixture file: expected { version: 1, responses: {...} }');
+	}
+
+	const responses: VisionFixtureResponses = {};
+	for (const type of REQUEST_TYPES) {
+		const list = parsed.responses[type];
+		if (list === undefined) continue;
+		if (!Array.isArray(list)) {
+			throw new Error(`Invalid fixture file: responses.${type} must be an array`);
+		}
+		(responses as Record<string, unknown[]>)[type] = list;
+	}
+
+	return { version: 1, recordedAt: parsed.recordedAt, responses };
+}
+
+// Serialize fixtures for download
+export function fixturesToBlob(fixtures: VisionFixtureFile): Blob {
+	return new Blob([JSON.stringify(fixtures, null, 2)], { type: 'application/json' });
+}
+
+// Deterministic provider that replays recorded responses, cycling per request type
+export class MockVisionProvider implements VisionProvider {
+	readonly id: VisionProviderId = 'mock';
+	private fixtures: VisionFixtureFile;
+	private cursors = new Map<VisionRequestType, number>();
+	private delayMs: number;
+
+	constructor(fixtures: VisionFixtureFile = DEFAULT_VISION_FIXTURES, options: { delayMs?: number } = {}) {
+		this.fixtures = fixtures;
+		this.delayMs = options.delayMs ?? 0;
+	}
+
+	setModel(_model: ModelType) {}
+
+	setApiKey(_apiKey: string) {}
+
+	setDelay(delayMs: number) {
+		this.delayMs = delayMs;
+	}
+
+	loadFixtures(fixtures: VisionFixtureFile) {
+		this.fixtures = fixtures;
+		this.reset();
+	}
+
+	// Rewind every request type to its first fixture
+	reset() {
+		this.cursors.clear();
+	}
+
+	private async replay<K extends VisionRequestType>(type: K, signal?: AbortSignal): Promise<VisionResponseMap[K]> {
+		const list = this.fixtures.responses[type] as Array<VisionResponseMap[K]> | undefined;
+		if (!list || list.length === 0) {
+			throw new Error(`No fixture recorded for ${type}`);
+		}
+
+		const index = this.cursors.get(type) ?? 0;
+		this.cursors.set(type, (index + 1) % list.length);
+
+		if (this.delayMs > 0) {
+			await new Promise(resolve => setTimeout(resolve, this.delayMs));
+		}
+
+		if (signal?.aborted) {
+			throw new DOMException('Analysis superseded', 'AbortError');
+		}
+
+		return clone(list[index]);
+	}
+
+	// Mimic streaming: text and score first, the rest after another delay
+	private async replaySuggestion(type: 'analyzeFrame' | 'analyzePose', options?: VisionRequestOptions): Promise<AISuggestion> {
+		const result = await this.replay(type, options?.signal);
+		if (!options?.onPartial) {
+			return result;
+		}
+
+		options.onPartial({ ...result, should_vibrate: false, pose_guide: undefined, guide_lines: undefined });
+		if (this.delayMs > 0) {
+			await new Promise(resolve => setTimeout(resolve, this.delayMs));
+		}
+		if (options.signal?.aborted) {
+			throw new DOMException('Analysis superseded', 'AbortError');
+		}
+		return result;
+	}
+
+	async analyzeFrame(_imageBase64: string, _style?: string, options?: VisionRequestOptions): Promise<AISuggestion> {
+		return this.replaySuggestion('analyzeFrame', options);
+	}
+
+	async analyzePose(_imageBase64: string, _style?: string, options?: VisionRequestOptions): Promise<AISuggestion> {
+		const result = await this.replaySuggestion('analyzePose', options);
+		// The recorded skeleton belongs to another frame; prefer the live one from the on-device detector
+		if (result.pose_guide && options?.currentPose) {
+			result.pose_guide.current_pose = options.currentPose;
+		}
+		return result;
+	}
+
+	// Recorded photo ids rarely match the current session, so map them onto the real ones
+	async selectPhotos(photoData: Array<{ id: string; base64: string }>): Promise<PhotoSelectionResult> {
+		const result = await this.replay('selectPhotos');
+		const ids = photoData.map(p => p.id);
+
+		const mapIds = <T extends { photo_id: string }>(items: T[]): T[] => items
+			.map((item, i) => {
+				if (ids.includes(item.photo_id)) return item;
+				const position = Number(String(item.photo_id).replace(/^P/i, ''));
+				const mapped = Number.isInteger(position) && position >= 1 ? ids[position - 1] : ids[i];
+				return mapped ? { ...item, photo_id: mapped } : null;
+			})
+			.filter((item): item is T => item !== null);
+
+		return {
+			...result,
+			selected: mapIds(result.selected),
+			analyses: result.analyses ? mapIds(result.analyses) : undefined
+		};
+	}
+
+	async learnStyle(_imageBase64: string): Promise<StyleProfile> {
+		return this.replay('learnStyle');
+	}
+
+	async analyzePhoto(_imageBase64: string): Promise<PhotoAnalysis> {
+		return this.replay('analyzePhoto');
+	}
+}
+
+// Wraps a live provider and captures every response as a fixture
+export class RecordingVisionProvider implements VisionProvider {
+	readonly id: VisionProviderId;
+	private inner: VisionProvider;
+	private recorded: VisionFixtureResponses = {};
+
+	constructor(inner: VisionProvider) {
+		this.inner = inner;
+		this.id = inner.id;
+	}
+
+	setModel(model: ModelType) {
+		this.inner.setModel(model);
+	}
+
+	setApiKey(apiKey: string) {
+		this.inner.setApiKey(apiKey);
+	}
+
+	get recordedCount(): number {
+		return Object.values(this.recorded).reduce((sum, list) => sum + (list?.length ?? 0), 0);
+	}
+
+	private async record<K extends VisionRequestType>(type: K, request: Promise<VisionResponseMap[K]>): Promise<VisionResponseMap[K]> {
+		const result = await request;
+		const list = (this.recorded[type] ??= []) as Array<VisionResponseMap[K]>;
+		list.push(clone(result));
+		return result;
+	}
+
+	analyzeFrame(imageBase64: string, style?: string, options?: VisionRequestOptions): Promise<AISuggestion> {
+		return this.record('analyzeFrame', this.inner.analyzeFrame(imageBase64, style, options));
+	}
+
+	analyzePose(imageBase64: string, style?: string, options?: VisionRequestOptions): Promise<AISuggestion> {
+		return this.record('analyzePose', this.inner.analyzePose(imageBase64, style, options));
+	}
+
+	selectPhotos(photoData: Array<{ id: string; base64: string }>): Promise<PhotoSelectionResult> {
+		return this.record('selectPhotos', this.inner.selectPhotos(photoData));
+	}
+
+	learnStyle(imageBase64: string): Promise<StyleProfile> {
+		return this.record('learnStyle', this.inner.learnStyle(imageBase64));
+	}
+
+	analyzePhoto(imageBase64: string): Promise<PhotoAnalysis> {
+		return this.record('analyzePhoto', this.inner.analyzePhoto(imageBase64));
+	}
+
+	exportFixtures(): VisionFixtureFile {
+		return {
+			version: 1,
+			recordedAt: new Date().toISOString(),
+			responses: clone(this.recorded)
+		};
+	}
+
+	clear() {
+		this.recorded = {};
+	}
+}
+
+// Singleton instance
+let mockVisionProvider: MockVisionProvider | null = null;
+
+export function getMockVisionProvider(): MockVisionProvider {
+	if (!mockVisionProvider) {
+		mockVisionProvider = new MockVisionProvider(DEFAULT_VISION_FIXTURES, { delayMs: 300 });
+	}
+	return mockVisionProvider;
+}
@@ -0,0 +1,46 @@
+import type { ModelType, VisionProviderId } from '$lib/types';
+import { GLMService } from '$lib/services/glm';
+
+export const OPENAI_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Normalize a base URL (".../v1") or full endpoint into the chat-completions endpoint
+export function resolveChatCompletionsUrl(baseUrl: string): string {
+	const trimmed = baseUrl.trim().replace(/\/+$/, '');
+	if (trimmed.endsWith('/chat/completions')) {
+		return trimmed;
+	}
+	return `${trimmed}/chat/completions`;
+}
+
+// OpenAI-compatible chat-completions provider (OpenAI, Ollama, llama.cpp server, vLLM...)
+// Reuses GLM's prompts and parsing; only the endpoint and auth differ.
+export class OpenAICompatibleService extends GLMService {
+	readonly id: VisionProviderId = 'openai';
+	private baseUrl: string;
+
+	constructor(apiKey: string, model: ModelType<'openai'>, baseUrl: string = OPENAI_DEFAULT_BASE_URL) {
+		super(apiKey, model);
+		this.baseUrl = baseUrl;
+		this.endpoint = resolveChatCompletionsUrl(baseUrl);
+	}
+
+	setBaseUrl(baseUrl: string) {
+		this.baseUrl = baseUrl;
+		this.endpoint = resolveChatCompletionsUrl(baseUrl);
+	}
+
+	getBaseUrl(): string {
+		return this.baseUrl;
+	}
+
+	// Local servers usually run without auth, so only send the header when a key is set
+	protected buildHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json'
+		};
+		if (this.apiKey) {
+			headers['Authorization'] = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+}
@@ -0,0 +1,54 @@
+import type { Photo, Session } from '$lib/types';
+import { photoService, sessionService } from '$lib/services/db';
+import { enqueueJob } from '$lib/services/jobQueue';
+
+/**
+ * Importing photos from outside the camera (OS share sheet, file handler, file picker)
+ * Each import becomes its own completed Session. Analysis runs through the job queue, so
+ * photos imported offline are analyzed once the connection is back.
+ */
+
+export interface PhotoImportResult {
+	session: Session;
+	photos: Photo[];
+	skipped: string[]; // Names of files that were not images
+}
+
+export function isImportableImage(file: File): boolean {
+	return file.type.startsWith('image/');
+}
+
+export function analysisJobKey(photoId: string): string {
+	return `analyze-photo:${photoId}`;
+}
+
+export async function importPhotos(files: File[], styleId: string | null = null): Promise<PhotoImportResult> {
+	const images = files.filter(isImportableImage);
+	const skipped = files.filter(file => !isImportableImage(file)).map(file => file.name);
+	if (images.length === 0) {
+		throw new Error('No images to import');
+	}
+
+	const now = new Date();
+	const sessionId = await sessionService.create({
+		styleId,
+		startedAt: now,
+		completedAt: now,
+		photos: [],
+		aiSelection: null,
+		userFeedback: null
+	});
+
+	const photos: Photo[] = [];
+	for (const file of images) {
+		const id = await photoService.add({ sessionId, blob: file });
+		photos.push((await photoService.get(id))!);
+	}
+	await sessionService.update(sessionId, { photos });
+
+	for (const photo of photos) {
+		await enqueueJob('analyze-photo', { photoId: photo.id }, { idempotencyKey: analysisJobKey(photo.id) });
+	}
+
+	return { session: (await sessionService.get(sessionId))!, photos, skipped };
+}
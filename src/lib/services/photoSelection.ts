@@ -0,0 +1,123 @@
+import type { Photo, PhotoAnalysis } from '$lib/types';
+import type { VisionProvider } from '$lib/services/vision';
+import { photoService } from '$lib/services/db';
+import { imageToBase64 } from '$lib/services/glm';
+import { decodePixels, encodePixels } from '$lib/utils/imagePipeline';
+
+/**
+ * Session photo selection ("智能选片")
+ * Photos are downscaled and sent to the model in multi-image batches. Sessions larger than one
+ * batch run as a knockout: every batch sends its best photos to the next round until one batch
+ * is left, which makes the final pick. Each photo is scored once, in the round it first appears.
+ */
+
+export interface PhotoSelectionOptions {
+	batchSize: number; // Images per request
+	advancePerBatch: number; // Photos each batch sends to the next round
+	maxSelected: number; // Photos kept by the final round
+	maxSide: number; // Long side of the images sent to the model
+}
+
+export const DEFAULT_PHOTO_SELECTION: PhotoSelectionOptions = {
+	batchSize: 6,
+	advancePerBatch: 2,
+	maxSelected: 3,
+	maxSide: 512
+};
+
+export interface SessionPhotoSelection {
+	selectedIds: string[]; // Best first
+	analyses: Record<string, PhotoAnalysis>; // By photo id
+	summary: string;
+}
+
+async function downscalePhoto(photo: Photo, maxSide: number): Promise<string> {
+	const pixels = await decodePixels(photo.blob, maxSide);
+	return imageToBase64(await encodePixels(pixels, 'jpeg', 0.8));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+	const chunks: T[][] = [];
+	for (let i = 0; i < items.length; i += size) {
+		chunks.push(items.slice(i, i + size));
+	}
+	return chunks;
+}
+
+export async function selectPhotos(
+	photos: Photo[],
+	provider: VisionProvider,
+	options: Partial<PhotoSelectionOptions> = {}
+): Promise<SessionPhotoSelection> {
+	const config = { ...DEFAULT_PHOTO_SELECTION, ...options };
+	const analyses: Record<string, PhotoAnalysis> = {};
+	if (photos.length === 0) {
+		return { selectedIds: [], analyses, summary: '' };
+	}
+
+	// Each photo is downscaled once, even if it survives several rounds
+	const images = new Map<string, string>();
+	const imageFor = async (photo: Photo) => {
+		if (!images.has(photo.id)) {
+			images.set(photo.id, await downscalePhoto(photo, config.maxSide));
+		}
+		return { id: photo.id, base64: images.get(photo.id)! };
+	};
+
+	const runBatch = async (batch: Photo[]) => {
+		const photoData = [];
+		for (const photo of batch) {
+			photoData.push(await imageFor(photo));
+		}
+		const result = await provider.selectPhotos(photoData);
+
+		for (const { photo_id, ...analysis } of result.analyses ?? []) {
+			analyses[photo_id] ??= analysis;
+		}
+		// Models sometimes only return the picks; keep their scores as the analysis
+		for (const { photo_id, score, reasons } of result.selected) {
+			analyses[photo_id] ??= { score, reasons, tags: [] };
+		}
+		return result;
+	};
+
+	// Best-first ids of a batch: the model's picks, then the rest by score
+	const rankBatch = (batch: Photo[], picked: string[]) => {
+		const ids = batch.map(photo => photo.id);
+		const rest = ids
+			.filter(id => !picked.includes(id))
+			.sort((a, b) => (analyses[b]?.score ?? 0) - (analyses[a]?.score ?? 0));
+		return [...picked.filter(id => ids.includes(id)), ...rest];
+	};
+
+	// Every round must shrink, or the knockout never ends
+	const batchSize = Math.max(2, config.batchSize);
+	const advance = Math.max(1, Math.min(config.advancePerBatch, batchSize - 1));
+
+	let round = photos;
+	while (round.length > batchSize) {
+		const next: Photo[] = [];
+		for (const batch of chunk(round, batchSize)) {
+			const result = await runBatch(batch);
+			const winners = rankBatch(batch, result.selected.map(item => item.photo_id)).slice(0, advance);
+			next.push(...batch.filter(photo => winners.includes(photo.id)));
+		}
+		round = next;
+	}
+
+	const final = await runBatch(round);
+	const selectedIds = rankBatch(round, final.selected.map(item => item.photo_id))
+		.slice(0, Math.max(1, Math.min(config.maxSelected, final.selected.length || 1)));
+
+	return { selectedIds, analyses, summary: final.summary };
+}
+
+// Write the outcome onto the photos table
+export async function applyPhotoSelection(photos: Photo[], selection: SessionPhotoSelection): Promise<void> {
+	for (const photo of photos) {
+		await photoService.update(photo.id, {
+			isAiSelected: selection.selectedIds.includes(photo.id),
+			analysis: selection.analyses[photo.id] ?? photo.analysis
+		});
+	}
+}
@@ -0,0 +1,53 @@
+import type { Photo } from '$lib/types';
+import { db, photoService } from '$lib/services/db';
+import { getThumbnailGenerator } from '$lib/utils/thumbnails';
+
+/**
+ * Photo thumbnails in IndexedDB
+ * New photos get their thumbnail and preview right after capture; photos stored before
+ * thumbnails existed (or restored from a backup) are filled in by a background backfill job.
+ */
+
+export interface ThumbnailBackfillResult {
+	generated: number;
+	failed: number;
+}
+
+export async function generatePhotoThumbnails(photo: Pick<Photo, 'id' | 'blob'>): Promise<Pick<Photo, 'thumbnail' | 'preview'>> {
+	const thumbnails = await getThumbnailGenerator().generate(photo.blob);
+	await photoService.setThumbnails(photo.id, thumbnails);
+	return thumbnails;
+}
+
+export async function getPhotoIdsWithoutThumbnails(): Promise<string[]> {
+	return (await db.photos.filter(photo => !photo.thumbnail).primaryKeys()) as string[];
+}
+
+// One photo at a time: each decode holds a full-size image in memory
+export async function backfillThumbnails(
+	onProgress?: (done: number, total: number) => void
+): Promise<ThumbnailBackfillResult> {
+	const ids = await getPhotoIdsWithoutThumbnails();
+	const result: ThumbnailBackfillResult = { generated: 0, failed: 0 };
+
+	for (const [index, id] of ids.entries()) {
+		const photo = await db.photos.get(id);
+		// Deleted meanwhile, or generated by the page while the backfill ran
+		if (photo && !photo.thumbnail) {
+			try {
+				await generatePhotoThumbnails(photo);
+				result.generated++;
+			} catch (error) {
+				console.error(`Failed to generate thumbnails for photo ${id}:`, error);
+				result.failed++;
+			}
+		}
+		onProgress?.(index + 1, ids.length);
+	}
+
+	return result;
+}
+
+export function thumbnailBackfillJobKey(now: Date = new Date()): string {
+	return `backfill-thumbnails:${now.toISOString().slice(0, 10)}`;
+}
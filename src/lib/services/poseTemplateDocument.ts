@@ -0,0 +1,216 @@
+import type { Pose, PoseCategory, PoseKeypoint, PoseTemplate, UserPoseTemplate } from '$lib/types';
+import { poseTemplateService } from '$lib/services/db';
+import { validatePose } from '$lib/utils/poseValidation';
+
+/**
+ * Portable pose template documents
+ * Templates (built-in or the user's own) are exchanged as a versioned JSON document holding one or
+ * more templates. Imports always become new user templates, so a received file never overwrites
+ * one of the user's own, and every imported skeleton must pass validatePose().
+ */
+
+export const POSE_TEMPLATE_DOCUMENT_FORMAT = 'boyfriend-camera/pose-templates';
+export const POSE_TEMPLATE_DOCUMENT_VERSION = 1;
+
+export const POSE_CATEGORIES: PoseCategory[] = ['portrait', 'casual', 'artistic', 'couple'];
+
+// Templates are body-only; the hand points in Pose only feed gesture recognition
+export type PoseTemplateKeypoint = Exclude<
+	keyof Pose,
+	'left_pinky' | 'right_pinky' | 'left_index' | 'right_index' | 'left_thumb' | 'right_thumb'
+>;
+
+export const POSE_KEYPOINTS: PoseTemplateKeypoint[] = [
+	'nose',
+	'left_eye',
+	'right_eye',
+	'left_ear',
+	'right_ear',
+	'left_shoulder',
+	'right_shoulder',
+	'left_elbow',
+	'right_elbow',
+	'left_wrist',
+	'right_wrist',
+	'left_hip',
+	'right_hip',
+	'left_knee',
+	'right_knee',
+	'left_ankle',
+	'right_ankle'
+];
+
+const NAME_MAX_LENGTH = 40;
+const LIST_MAX_ITEMS = 12;
+// A single file should not be able to flood the library
+const DOCUMENT_MAX_TEMPLATES = 100;
+
+export type PoseTemplateDocumentBody = Omit<PoseTemplate, 'id'>;
+
+export interface PoseTemplateDocument {
+	format: typeof POSE_TEMPLATE_DOCUMENT_FORMAT;
+	version: number;
+	exportedAt: string;
+	templates: PoseTemplateDocumentBody[];
+}
+
+export class PoseTemplateDocumentError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PoseTemplateDocumentError';
+	}
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Blocking problems in a template skeleton (validatePose in strict mode); empty when usable
+export function poseTemplateErrors(pose: Pose): string[] {
+	const result = validatePose(pose, { strict: true, calibrate: false });
+	return result.issues.filter(issue => issue.severity === 'critical').map(issue => issue.message);
+}
+
+export function createPoseTemplateDocument(templates: PoseTemplate[]): PoseTemplateDocument {
+	return {
+		format: POSE_TEMPLATE_DOCUMENT_FORMAT,
+		version: POSE_TEMPLATE_DOCUMENT_VERSION,
+		exportedAt: new Date().toISOString(),
+		templates: templates.map(({ name, description, difficulty, category, pose, tips, steps, commonMistakes }) => ({
+			name,
+			description,
+			difficulty,
+			category,
+			pose,
+			tips,
+			steps,
+			commonMistakes
+		}))
+	};
+}
+
+export function serializePoseTemplateDocument(doc: PoseTemplateDocument): string {
+	return JSON.stringify(doc, null, 2);
+}
+
+export function poseTemplateDocumentFileName(doc: PoseTemplateDocument): string {
+	const base = doc.templates.length === 1 ? doc.templates[0].name : 'pose-templates';
+	const safeName = base.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || 'pose';
+	return `${safeName}.poses.json`;
+}
+
+function parseStringList(raw: unknown, field: string): string[] {
+	if (raw === undefined || raw === null) return [];
+	if (!Array.isArray(raw)) {
+		throw new PoseTemplateDocumentError(`${field} must be a list`);
+	}
+	return raw
+		.filter((item): item is string => typeof item === 'string')
+		.map(item => item.trim())
+		.filter(Boolean)
+		.slice(0, LIST_MAX_ITEMS);
+}
+
+function parseKeypoint(raw: unknown, key: string): PoseKeypoint {
+	if (!isPlainObject(raw) || typeof raw.x !== 'number' || typeof raw.y !== 'number') {
+		throw new PoseTemplateDocumentError(`Keypoint ${key} needs numeric x and y`);
+	}
+	const keypoint: PoseKeypoint = { x: raw.x, y: raw.y };
+	if (typeof raw.visibility === 'number') {
+		keypoint.visibility = Math.max(0, Math.min(1, raw.visibility));
+	}
+	return keypoint;
+}
+
+// Known keypoints only; validatePose() then rejects missing or out-of-frame critical points
+function parsePose(raw: unknown): Pose {
+	if (!isPlainObject(raw)) {
+		throw new PoseTemplateDocumentError('Template has no pose');
+	}
+	const pose: Pose = {};
+	for (const key of POSE_KEYPOINTS) {
+		if (raw[key] !== undefined) pose[key] = parseKeypoint(raw[key], key);
+	}
+	const errors = poseTemplateErrors(pose);
+	if (errors.length > 0) {
+		throw new PoseTemplateDocumentError(`Invalid pose: ${errors.join('; ')}`);
+	}
+	return pose;
+}
+
+function parseTemplate(raw: unknown, index: number): PoseTemplateDocumentBody {
+	if (!isPlainObject(raw)) {
+		throw new PoseTemplateDocumentError(`Template ${index + 1} is not an object`);
+	}
+	const name = typeof raw.name === 'string' ? raw.name.trim().slice(0, NAME_MAX_LENGTH) : '';
+	if (!name) {
+		throw new PoseTemplateDocumentError(`Template ${index + 1} has no name`);
+	}
+	const category = POSE_CATEGORIES.find(value => value === raw.category) ?? 'portrait';
+	const difficulty =
+		typeof raw.difficulty === 'number' && Number.isFinite(raw.difficulty)
+			? Math.max(1, Math.min(5, Math.round(raw.difficulty)))
+			: 1;
+	const commonMistakes = Array.isArray(raw.commonMistakes)
+		? raw.commonMistakes
+				.filter(isPlainObject)
+				.filter(item => typeof item.mistake === 'string' && typeof item.correction === 'string')
+				.map(item => ({ mistake: String(item.mistake).trim(), correction: String(item.correction).trim() }))
+				.filter(item => item.mistake && item.correction)
+				.slice(0, LIST_MAX_ITEMS)
+		: [];
+
+	return {
+		name,
+		description: typeof raw.description === 'string' ? raw.description.trim() : '',
+		difficulty,
+		category,
+		pose: parsePose(raw.pose),
+		tips: parseStringList(raw.tips, 'tips'),
+		steps: parseStringList(raw.steps, 'steps'),
+		commonMistakes
+	};
+}
+
+// Validate an untrusted file into a PoseTemplateDocument
+export function parsePoseTemplateDocument(text: string): PoseTemplateDocument {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(text);
+	} catch {
+		throw new PoseTemplateDocumentError('Not a JSON document');
+	}
+	if (!isPlainObject(raw) || raw.format !== POSE_TEMPLATE_DOCUMENT_FORMAT) {
+		throw new PoseTemplateDocumentError('Not a pose template document');
+	}
+	if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+		throw new PoseTemplateDocumentError('Missing or invalid document version');
+	}
+	if (raw.version > POSE_TEMPLATE_DOCUMENT_VERSION) {
+		throw new PoseTemplateDocumentError(`Pose template document version ${raw.version} is newer than this app supports`);
+	}
+	if (!Array.isArray(raw.templates) || raw.templates.length === 0) {
+		throw new PoseTemplateDocumentError('Document has no templates');
+	}
+	if (raw.templates.length > DOCUMENT_MAX_TEMPLATES) {
+		throw new PoseTemplateDocumentError(`Too many templates (max ${DOCUMENT_MAX_TEMPLATES})`);
+	}
+
+	return {
+		format: POSE_TEMPLATE_DOCUMENT_FORMAT,
+		version: POSE_TEMPLATE_DOCUMENT_VERSION,
+		exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date().toISOString(),
+		templates: raw.templates.map(parseTemplate)
+	};
+}
+
+// Save every template in the document as a new user template
+export async function importPoseTemplateDocument(doc: PoseTemplateDocument): Promise<UserPoseTemplate[]> {
+	const imported: UserPoseTemplate[] = [];
+	for (const template of doc.templates) {
+		const id = crypto.randomUUID();
+		await poseTemplateService.save({ id, ...template });
+		imported.push((await poseTemplateService.get(id))!);
+	}
+	return imported;
+}
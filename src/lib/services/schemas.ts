@@ -0,0 +1,170 @@
+import type { PhotoAnalysis, Pose, StyleProfile } from '$lib/types';
+import type { PhotoSelectionResult } from '$lib/services/vision';
+import type { ResponseSchema } from '$lib/utils/responseParsing';
+
+/**
+ * Declared shapes of the JSON each prompt asks the model for
+ * Parsed through utils/responseParsing before anything reaches the UI or database
+ */
+
+export const GRID_POSITIONS = [
+	'center',
+	'center-top',
+	'center-bottom',
+	'left-top',
+	'left-middle',
+	'left-bottom',
+	'right-top',
+	'right-middle',
+	'right-bottom'
+] as const;
+
+export type GridPosition = (typeof GRID_POSITIONS)[number];
+
+// analyzeFrame output, mapped onto AISuggestion
+export interface FrameSuggestionResponse {
+	score: number; // 0-100
+	suggestion: string;
+	grid_position: GridPosition;
+	issues: string[];
+	confidence: number; // 0-1
+}
+
+export const AI_SUGGESTION_SCHEMA: ResponseSchema<FrameSuggestionResponse> = {
+	name: 'AISuggestion',
+	fields: {
+		score: { type: 'number', scale: 'percent', default: 60, description: '构图总分' },
+		suggestion: { type: 'string', required: true, aliases: ['composition_suggestion', 'text'], description: '15字以内的拍照建议' },
+		grid_position: { type: 'string', enum: GRID_POSITIONS, default: 'center' },
+		issues: { type: 'array', items: { type: 'string' }, default: [] },
+		confidence: { type: 'number', scale: 'unit', default: 0.7 }
+	}
+};
+
+export interface PoseAdjustment {
+	body_part: string;
+	action: string;
+	reason?: string;
+	urgency: 'high' | 'medium' | 'low';
+}
+
+// analyzePose output, mapped onto AISuggestion.pose_guide
+export interface PoseGuideResponse {
+	score: number; // 0-100
+	suggestion: string;
+	current_pose_analysis?: {
+		detected?: boolean;
+		people_count?: number;
+		body_visibility?: string;
+		posture_quality?: string;
+	};
+	target_pose: Pose;
+	adjustments: PoseAdjustment[];
+	step_by_step: string[];
+	common_mistake?: { mistake: string; correction: string };
+	voice_instruction?: string;
+	difficulty?: number;
+	confidence: number; // 0-1
+}
+
+export const POSE_GUIDE_SCHEMA: ResponseSchema<PoseGuideResponse> = {
+	name: 'PoseGuide',
+	fields: {
+		score: { type: 'number', scale: 'percent', default: 60 },
+		suggestion: { type: 'string', default: 'AI正在分析姿势...', aliases: ['composition_suggestion'] },
+		current_pose_analysis: {
+			type: 'object',
+			fields: {
+				detected: { type: 'boolean' },
+				people_count: { type: 'number', min: 0 },
+				body_visibility: { type: 'string' },
+				posture_quality: { type: 'string' }
+			}
+		},
+		target_pose: { type: 'pose', description: '0-1 归一化坐标，检测不到人物时为空对象' },
+		adjustments: {
+			type: 'array',
+			default: [],
+			items: {
+				type: 'object',
+				fields: {
+					body_part: { type: 'string', required: true },
+					action: { type: 'string', required: true },
+					reason: { type: 'string' },
+					urgency: { type: 'string', enum: ['high', 'medium', 'low'], default: 'low' }
+				}
+			}
+		},
+		step_by_step: { type: 'array', items: { type: 'string' }, default: [] },
+		common_mistake: {
+			type: 'object',
+			fields: {
+				mistake: { type: 'string', required: true },
+				correction: { type: 'string', default: '' }
+			}
+		},
+		voice_instruction: { type: 'string' },
+		difficulty: { type: 'number', min: 1, max: 5 },
+		confidence: { type: 'number', scale: 'unit', default: 0.7 }
+	}
+};
+
+export const PHOTO_ANALYSIS_SCHEMA: ResponseSchema<PhotoAnalysis> = {
+	name: 'PhotoAnalysis',
+	fields: {
+		score: { type: 'number', scale: 'unit', required: true, description: '照片质量分' },
+		reasons: { type: 'array', items: { type: 'string' }, default: [] },
+		tags: { type: 'array', items: { type: 'string' }, default: [] },
+		composition: { type: 'string' },
+		lighting: { type: 'string' },
+		angle: { type: 'string' }
+	}
+};
+
+export const STYLE_PROFILE_SCHEMA: ResponseSchema<StyleProfile> = {
+	name: 'StyleProfile',
+	fields: {
+		composition: { type: 'array', items: { type: 'string' }, required: true },
+		preferred_angles: { type: 'array', items: { type: 'string' }, default: [] },
+		tone: { type: 'string', default: 'neutral' },
+		lighting: { type: 'string', default: 'natural' },
+		background: { type: 'string', default: 'unknown' },
+		mood: { type: 'string', default: 'neutral' },
+		tags: { type: 'array', items: { type: 'string' }, default: [] }
+	}
+};
+
+export const PHOTO_SELECTION_SCHEMA: ResponseSchema<PhotoSelectionResult> = {
+	name: 'PhotoSelection',
+	fields: {
+		selected: {
+			type: 'array',
+			required: true,
+			items: {
+				type: 'object',
+				fields: {
+					photo_id: { type: 'string', required: true },
+					score: { type: 'number', scale: 'unit', default: 0.5 },
+					reasons: { type: 'array', items: { type: 'string' }, default: [] }
+				}
+			}
+		},
+		summary: { type: 'string', default: '' },
+		analyses: {
+			type: 'array',
+			default: [],
+			items: {
+				type: 'object',
+				fields: {
+					photo_id: { type: 'string', required: true },
+					score: { type: 'number', scale: 'unit', default: 0.5 },
+					reasons: { type: 'array', items: { type: 'string' }, default: [] },
+					tags: { type: 'array', items: { type: 'string' }, default: [] },
+					composition: { type: 'string' },
+					lighting: { type: 'string' },
+					angle: { type: 'string' }
+				}
+			}
+		}
+	}
+};
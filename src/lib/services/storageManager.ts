@@ -0,0 +1,252 @@
+import type { Photo, RetentionPolicy } from '$lib/types';
+import { db, photoService } from '$lib/services/db';
+import { decodePixels, encodePixels } from '$lib/utils/imagePipeline';
+
+/**
+ * Storage quota and retention
+ * Usage comes from navigator.storage.estimate() (everything the origin stores) plus a per-session
+ * breakdown summed from blob sizes. A retention policy is first planned, so the UI can show what
+ * would go, then applied in batched Dexie transactions. Selected photos (AI or user) are never
+ * deleted by a policy; they can only be downscaled once exported.
+ */
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+	autoEnforce: false,
+	keepSelectedOnlyAfterDays: null,
+	maxTotalBytes: null,
+	downscaleExportedMaxSide: null
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DOWNSCALE_QUALITY = 0.9;
+// Downscaling decodes full-size images, so keep few of them in memory at once
+const DOWNSCALE_BATCH_SIZE = 5;
+
+export interface StorageEstimateInfo {
+	usage: number | null; // Bytes; null when the browser cannot tell
+	quota: number | null;
+	persisted: boolean;
+	supported: boolean;
+}
+
+export interface SessionUsage {
+	sessionId: string;
+	startedAt: Date;
+	photoCount: number;
+	selectedCount: number;
+	photoBytes: number;
+	renditionBytes: number; // Cached edit renditions
+	totalBytes: number;
+}
+
+export type RetentionReason = 'age' | 'size';
+
+export interface RetentionCandidate {
+	photoId: string;
+	sessionId: string;
+	createdAt: Date;
+	bytes: number;
+	reason: RetentionReason;
+}
+
+export interface RetentionPlan {
+	deletions: RetentionCandidate[];
+	downscales: Array<Omit<RetentionCandidate, 'reason'>>;
+	freedBytes: number; // From deletions; downscale savings are only known afterwards
+	totalBytes: number; // Photo bytes before the plan
+	overBudgetBytes: number; // Still above maxTotalBytes once every unselected photo is planned away
+}
+
+export interface RetentionResult {
+	deleted: number;
+	downscaled: number;
+	freedBytes: number;
+}
+
+export interface RetentionProgress {
+	phase: 'deleting' | 'downscaling';
+	done: number;
+	total: number;
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimateInfo> {
+	if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+		return { usage: null, quota: null, persisted: false, supported: false };
+	}
+	const [estimate, persisted] = await Promise.all([
+		navigator.storage.estimate(),
+		navigator.storage.persisted?.() ?? Promise.resolve(false)
+	]);
+	return { usage: estimate.usage ?? null, quota: estimate.quota ?? null, persisted, supported: true };
+}
+
+// Ask the browser not to evict our data under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+	if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+	if (await navigator.storage.persisted()) return true;
+	return await navigator.storage.persist();
+}
+
+function isSelected(photo: Pick<Photo, 'isAiSelected' | 'isUserSelected'>): boolean {
+	return !!(photo.isAiSelected || photo.isUserSelected);
+}
+
+// Per-session usage, largest first
+export async function getSessionUsage(): Promise<SessionUsage[]> {
+	const usage = new Map<string, SessionUsage>();
+	const photoSessions = new Map<string, string>();
+
+	for (const session of await db.sessions.toArray()) {
+		usage.set(session.id, {
+			sessionId: session.id,
+			startedAt: new Date(session.startedAt),
+			photoCount: 0,
+			selectedCount: 0,
+			photoBytes: 0,
+			renditionBytes: 0,
+			totalBytes: 0
+		});
+	}
+
+	await db.photos.each(photo => {
+		const entry = usage.get(photo.sessionId);
+		if (!entry) return;
+		photoSessions.set(photo.id, photo.sessionId);
+		entry.photoCount++;
+		if (isSelected(photo)) entry.selectedCount++;
+		entry.photoBytes += photo.blob.size + (photo.thumbnail?.length ?? 0) + (photo.preview?.size ?? 0);
+	});
+
+	await db.photoEdits.each(edit => {
+		const entry = usage.get(photoSessions.get(edit.photoId) ?? '');
+		if (entry && edit.rendition) entry.renditionBytes += edit.rendition.size;
+	});
+
+	return Array.from(usage.values())
+		.map(entry => ({ ...entry, totalBytes: entry.photoBytes + entry.renditionBytes }))
+		.sort((a, b) => b.totalBytes - a.totalBytes);
+}
+
+// Work out what the policy would change, without touching anything
+export async function planRetention(policy: RetentionPolicy, now: Date = new Date()): Promise<RetentionPlan> {
+	const photos: Array<Omit<RetentionCandidate, 'reason'> & { selected: boolean; exported: boolean }> = [];
+	await db.photos.each(photo => {
+		photos.push({
+			photoId: photo.id,
+			sessionId: photo.sessionId,
+			createdAt: new Date(photo.createdAt),
+			bytes: photo.blob.size,
+			selected: isSelected(photo),
+			exported: !!photo.exportedAt && !photo.downscaledAt
+		});
+	});
+	photos.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+	const totalBytes = photos.reduce((sum, photo) => sum + photo.bytes, 0);
+	const deletions: RetentionCandidate[] = [];
+	const deleted = new Set<string>();
+
+	if (policy.keepSelectedOnlyAfterDays !== null) {
+		const cutoff = now.getTime() - policy.keepSelectedOnlyAfterDays * DAY_MS;
+		for (const photo of photos) {
+			if (!photo.selected && photo.createdAt.getTime() < cutoff) {
+				deletions.push({ ...photo, reason: 'age' });
+				deleted.add(photo.photoId);
+			}
+		}
+	}
+
+	let remaining = totalBytes - deletions.reduce((sum, photo) => sum + photo.bytes, 0);
+	if (policy.maxTotalBytes !== null) {
+		// Oldest unselected photos go first
+		for (const photo of photos) {
+			if (remaining <= policy.maxTotalBytes) break;
+			if (photo.selected || deleted.has(photo.photoId)) continue;
+			deletions.push({ ...photo, reason: 'size' });
+			deleted.add(photo.photoId);
+			remaining -= photo.bytes;
+		}
+	}
+
+	const downscales =
+		policy.downscaleExportedMaxSide !== null
+			? photos.filter(photo => photo.exported && !deleted.has(photo.photoId))
+			: [];
+
+	return {
+		deletions,
+		downscales: downscales.map(({ photoId, sessionId, createdAt, bytes }) => ({ photoId, sessionId, createdAt, bytes })),
+		freedBytes: totalBytes - remaining,
+		totalBytes,
+		overBudgetBytes: policy.maxTotalBytes !== null ? Math.max(0, remaining - policy.maxTotalBytes) : 0
+	};
+}
+
+async function downscaleBlob(blob: Blob, maxSide: number): Promise<Blob | null> {
+	const pixels = await decodePixels(blob, maxSide);
+	// decodePixels never upscales: a smaller result means the original already fits
+	if (Math.max(pixels.width, pixels.height) < maxSide) return null;
+	const smaller = await encodePixels(pixels, 'jpeg', DOWNSCALE_QUALITY);
+	return smaller.size < blob.size ? smaller : null;
+}
+
+export async function applyRetention(
+	plan: RetentionPlan,
+	policy: RetentionPolicy,
+	onProgress?: (progress: RetentionProgress) => void
+): Promise<RetentionResult> {
+	const result: RetentionResult = { deleted: 0, downscaled: 0, freedBytes: 0 };
+
+	if (plan.deletions.length > 0) {
+		await photoService.deleteMany(
+			plan.deletions.map(candidate => candidate.photoId),
+			(done, total) => onProgress?.({ phase: 'deleting', done, total })
+		);
+		result.deleted = plan.deletions.length;
+		result.freedBytes = plan.freedBytes;
+	}
+
+	const maxSide = policy.downscaleExportedMaxSide;
+	if (maxSide !== null) {
+		for (let start = 0; start < plan.downscales.length; start += DOWNSCALE_BATCH_SIZE) {
+			const batch = plan.downscales.slice(start, start + DOWNSCALE_BATCH_SIZE);
+			const updates: Array<{ id: string; blob: Blob | null }> = [];
+			for (const candidate of batch) {
+				const photo = await db.photos.get(candidate.photoId);
+				if (!photo) continue;
+				try {
+					const blob = await downscaleBlob(photo.blob, maxSide);
+					// Originals that already fit are still marked, so they are not decoded again
+					updates.push({ id: photo.id, blob });
+					if (blob) {
+						result.downscaled++;
+						result.freedBytes += photo.blob.size - blob.size;
+					}
+				} catch (error) {
+					console.error(`Failed to downscale photo ${photo.id}:`, error);
+				}
+			}
+			await photoService.replaceBlobs(updates);
+			onProgress?.({
+				phase: 'downscaling',
+				done: Math.min(start + batch.length, plan.downscales.length),
+				total: plan.downscales.length
+			});
+		}
+	}
+
+	return result;
+}
+
+export function hasRetentionRules(policy: RetentionPolicy | undefined): policy is RetentionPolicy {
+	return (
+		!!policy &&
+		(policy.keepSelectedOnlyAfterDays !== null ||
+			policy.maxTotalBytes !== null ||
+			policy.downscaleExportedMaxSide !== null)
+	);
+}
+
+export function retentionJobKey(now: Date = new Date()): string {
+	return `enforce-retention:${now.toISOString().slice(0, 10)}`;
+}
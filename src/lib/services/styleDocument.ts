@@ -0,0 +1,197 @@
+import type { CustomStyle, PresetStyle, StyleProfile } from '$lib/types';
+import { customStyleService } from '$lib/services/db';
+import { STYLE_PROFILE_SCHEMA } from '$lib/services/schemas';
+import { validateModelResponse } from '$lib/utils/responseParsing';
+
+/**
+ * Portable style documents
+ * A style (preset or learned) is exchanged as a versioned JSON document, either as a .json file
+ * or packed into an /styles?import=... link that fits in a QR code. Imports always become new
+ * custom styles, so a received style never overwrites one of the user's own.
+ */
+
+export const STYLE_DOCUMENT_FORMAT = 'boyfriend-camera/style';
+export const STYLE_DOCUMENT_VERSION = 1;
+export const STYLE_IMPORT_PARAM = 'import';
+
+// Longer links make dense QR codes that phone cameras struggle to read
+export const STYLE_LINK_MAX_LENGTH = 1800;
+
+const STYLE_NAME_MAX_LENGTH = 40;
+const EMPTY_PROFILE: StyleProfile = {
+	composition: [],
+	preferred_angles: [],
+	tone: '',
+	lighting: '',
+	background: '',
+	mood: '',
+	tags: []
+};
+
+export interface StyleDocumentBody {
+	name: string;
+	description: string | null;
+	config: Record<string, unknown>;
+	profile: StyleProfile;
+	sampleCount: number;
+}
+
+export interface StyleDocument {
+	format: typeof STYLE_DOCUMENT_FORMAT;
+	version: number;
+	exportedAt: string;
+	style: StyleDocumentBody;
+}
+
+export class StyleDocumentError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'StyleDocumentError';
+	}
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Keys the app adds to learned styles itself; they describe the local copy, not the style
+function portableConfig(config: Record<string, unknown> | undefined): Record<string, unknown> {
+	const { custom: _custom, sampleCount: _sampleCount, ...rest } = config ?? {};
+	return rest;
+}
+
+export function createStyleDocument(style: PresetStyle | CustomStyle): StyleDocument {
+	return {
+		format: STYLE_DOCUMENT_FORMAT,
+		version: STYLE_DOCUMENT_VERSION,
+		exportedAt: new Date().toISOString(),
+		style: {
+			name: style.name,
+			description: style.description ?? null,
+			config: portableConfig(style.config),
+			profile: style.profile ?? EMPTY_PROFILE,
+			sampleCount:
+				'sampleCount' in style
+					? style.sampleCount
+					: typeof style.config.sampleCount === 'number'
+						? style.config.sampleCount
+						: 0
+		}
+	};
+}
+
+export function serializeStyleDocument(doc: StyleDocument): string {
+	return JSON.stringify(doc, null, 2);
+}
+
+export function styleDocumentFileName(doc: StyleDocument): string {
+	const safeName = doc.style.name.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || 'style';
+	return `${safeName}.style.json`;
+}
+
+function parseProfile(raw: unknown): StyleProfile {
+	if (!isPlainObject(raw)) return { ...EMPTY_PROFILE };
+	// Missing fields stay empty rather than taking the schema's model-output defaults
+	const outcome = validateModelResponse(JSON.stringify({ ...EMPTY_PROFILE, ...raw }), STYLE_PROFILE_SCHEMA);
+	if (!outcome.ok) {
+		throw new StyleDocumentError(`Invalid style profile: ${outcome.issues.map(i => `${i.path} ${i.problem}`).join('; ')}`);
+	}
+	return outcome.value;
+}
+
+function parseConfig(raw: unknown): Record<string, unknown> {
+	if (raw === undefined || raw === null) return {};
+	if (!isPlainObject(raw)) {
+		throw new StyleDocumentError('Style config must be an object');
+	}
+	return portableConfig(raw);
+}
+
+// Validate an untrusted document (file contents or decoded link) into a StyleDocument
+export function parseStyleDocument(text: string): StyleDocument {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(text);
+	} catch {
+		throw new StyleDocumentError('Not a JSON document');
+	}
+	if (!isPlainObject(raw) || raw.format !== STYLE_DOCUMENT_FORMAT) {
+		throw new StyleDocumentError('Not a style document');
+	}
+	if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+		throw new StyleDocumentError('Missing or invalid document version');
+	}
+	if (raw.version > STYLE_DOCUMENT_VERSION) {
+		throw new StyleDocumentError(`Style document version ${raw.version} is newer than this app supports`);
+	}
+
+	const style = raw.style;
+	if (!isPlainObject(style)) {
+		throw new StyleDocumentError('Style document has no style');
+	}
+	const name = typeof style.name === 'string' ? style.name.trim().slice(0, STYLE_NAME_MAX_LENGTH) : '';
+	if (!name) {
+		throw new StyleDocumentError('Style name is missing');
+	}
+
+	return {
+		format: STYLE_DOCUMENT_FORMAT,
+		version: STYLE_DOCUMENT_VERSION,
+		exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date().toISOString(),
+		style: {
+			name,
+			description: typeof style.description === 'string' && style.description.trim() ? style.description.trim() : null,
+			config: parseConfig(style.config),
+			profile: parseProfile(style.profile),
+			sampleCount:
+				typeof style.sampleCount === 'number' && style.sampleCount > 0 ? Math.round(style.sampleCount) : 0
+		}
+	};
+}
+
+// Save the document as a new custom style
+export async function importStyleDocument(doc: StyleDocument): Promise<CustomStyle> {
+	const id = crypto.randomUUID();
+	await customStyleService.save({
+		id,
+		name: doc.style.name,
+		description: doc.style.description,
+		config: doc.style.config,
+		profile: doc.style.profile,
+		sampleCount: doc.style.sampleCount
+	});
+	return (await customStyleService.get(id))!;
+}
+
+// UTF-8 safe base64url, so Chinese style text survives a URL
+function encodeBase64Url(text: string): string {
+	const bytes = new TextEncoder().encode(text);
+	let binary = '';
+	bytes.forEach(byte => {
+		binary += String.fromCharCode(byte);
+	});
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeBase64Url(encoded: string): string {
+	const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+	const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+	return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+// Compact /styles?import=... link for QR codes; null when the style is too large to scan reliably
+export function createStyleImportLink(doc: StyleDocument, origin: string): string | null {
+	const { exportedAt: _exportedAt, ...compact } = doc;
+	const link = `${origin}/styles?${STYLE_IMPORT_PARAM}=${encodeBase64Url(JSON.stringify(compact))}`;
+	return link.length <= STYLE_LINK_MAX_LENGTH ? link : null;
+}
+
+export function parseStyleImportParam(encoded: string): StyleDocument {
+	let text: string;
+	try {
+		text = decodeBase64Url(encoded);
+	} catch {
+		throw new StyleDocumentError('Malformed style link');
+	}
+	return parseStyleDocument(text);
+}
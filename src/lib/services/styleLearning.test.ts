@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { StyleProfile } from '$lib/types';
+import { aggregateStyleProfiles, scoreWeights } from '$lib/services/styleLearning';
+
+function profile(tone: string, tags: string[] = []): StyleProfile {
+	return { composition: [], preferred_angles: [], tone, lighting: '', background: '', mood: '', tags };
+}
+
+describe('scoreWeights', () => {
+	it('leaves the vote unweighted when no photo has a score', () => {
+		expect(scoreWeights([undefined, undefined])).toBeUndefined();
+	});
+
+	it('gives unscored photos the mean of the known scores', () => {
+		expect(scoreWeights([0.9, undefined, 0.5])).toEqual([0.9, 0.7, 0.5]);
+	});
+
+	it('keeps a small vote for photos scored 0', () => {
+		const weights = scoreWeights([0, 0.8])!;
+		expect(weights[0]).toBeGreaterThan(0);
+		expect(weights[0]).toBeLessThan(weights[1]);
+	});
+});
+
+describe('aggregateStyleProfiles', () => {
+	it('lets unscored photos neither outvote nor get outvoted by scored ones', () => {
+		// Two well-scored warm photos against one unscored cool photo
+		const profiles = [profile('暖色'), profile('暖色'), profile('冷色')];
+		expect(aggregateStyleProfiles(profiles, scoreWeights([0.6, 0.6, undefined])).tone).toBe('暖色');
+	});
+
+	it('keeps list values that clear the vote share', () => {
+		const profiles = [profile('', ['海边', '逆光']), profile('', ['海边']), profile('', ['街头'])];
+		expect(aggregateStyleProfiles(profiles).tags).toEqual(['海边', '逆光', '街头']);
+	});
+});
@@ -0,0 +1,157 @@
+import type { CustomStyle, Photo, PresetStyle, StyleProfile } from '$lib/types';
+import type { VisionProvider } from '$lib/services/vision';
+import { customStyleService } from '$lib/services/db';
+import { imageToBase64 } from '$lib/services/glm';
+import { decodePixels, encodePixels } from '$lib/utils/imagePipeline';
+
+/**
+ * Style learning ("学习女友的审美偏好")
+ * Every reference photo yields its own StyleProfile; the profiles are merged by weighted vote
+ * into one profile that is stored as a custom style (mirroring the custom_styles table) and can
+ * be picked like a preset. The selected style is spelled out in the analysis prompts.
+ */
+
+// Fewer photos give a noisy vote; more mostly cost requests
+export const STYLE_LEARNING_MIN_PHOTOS = 5;
+export const STYLE_LEARNING_MAX_PHOTOS = 30;
+
+const LEARNING_MAX_SIDE = 768;
+// List attributes keep the values seen in at least this share of the photos
+const LIST_VOTE_SHARE = 0.3;
+const LIST_MAX_VALUES = 5;
+
+// Value with the highest total weight; ties go to the value seen first
+function vote(values: string[], weights: number[]): string {
+	const counts = new Map<string, number>();
+	values.forEach((raw, i) => {
+		const value = raw.trim();
+		if (value) counts.set(value, (counts.get(value) ?? 0) + weights[i]);
+	});
+	let best = '';
+	let bestCount = 0;
+	for (const [value, count] of counts) {
+		if (count > bestCount) {
+			best = value;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+function voteList(lists: string[][], weights: number[], total: number): string[] {
+	const counts = new Map<string, number>();
+	lists.forEach((list, i) => {
+		// A photo votes once per value
+		for (const value of new Set(list.map(v => v.trim()).filter(Boolean))) {
+			counts.set(value, (counts.get(value) ?? 0) + weights[i]);
+		}
+	});
+	const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+	const kept = ranked.filter(([, count]) => count / total >= LIST_VOTE_SHARE).map(([value]) => value);
+	// Small or very diverse sets may clear no threshold; keep the front-runner at least
+	return (kept.length > 0 ? kept : ranked.slice(0, 1).map(([value]) => value)).slice(0, LIST_MAX_VALUES);
+}
+
+// Merge per-photo profiles; weights (default 1 each) let better photos count for more
+export function aggregateStyleProfiles(profiles: StyleProfile[], weights?: number[]): StyleProfile {
+	const w = profiles.map((_, i) => Math.max(0, weights?.[i] ?? 1));
+	const total = w.reduce((sum, weight) => sum + weight, 0) || 1;
+	return {
+		composition: voteList(profiles.map(p => p.composition), w, total),
+		preferred_angles: voteList(profiles.map(p => p.preferred_angles), w, total),
+		tone: vote(profiles.map(p => p.tone), w),
+		lighting: vote(profiles.map(p => p.lighting), w),
+		background: vote(profiles.map(p => p.background), w),
+		mood: vote(profiles.map(p => p.mood), w),
+		tags: voteList(profiles.map(p => p.tags), w, total)
+	};
+}
+
+// Text for the "目标风格" line of the analysis prompts
+export function describeStyleForPrompt(style: PresetStyle | null | undefined): string {
+	if (!style) return '';
+	const { profile } = style;
+	if (!profile) {
+		return style.description ? `${style.name}（${style.description}）` : style.name;
+	}
+
+	const parts = [
+		profile.composition.length > 0 && `构图 ${profile.composition.join('/')}`,
+		profile.preferred_angles.length > 0 && `角度 ${profile.preferred_angles.join('/')}`,
+		profile.tone && `色调 ${profile.tone}`,
+		profile.lighting && `光线 ${profile.lighting}`,
+		profile.background && `背景 ${profile.background}`,
+		profile.mood && `氛围 ${profile.mood}`,
+		profile.tags.length > 0 && `关键词 ${profile.tags.join('、')}`
+	].filter(Boolean);
+	// Styles copied from a preset start with an empty profile
+	if (parts.length === 0) {
+		return style.description ? `${style.name}（${style.description}）` : style.name;
+	}
+	return `${style.name}（从用户喜欢的照片中学习的偏好：${parts.join('；')}）`;
+}
+
+async function photoToBase64(blob: Blob): Promise<string> {
+	const pixels = await decodePixels(blob, LEARNING_MAX_SIDE);
+	return imageToBase64(await encodePixels(pixels, 'jpeg', 0.85));
+}
+
+// Every learned photo keeps some say, even one scored 0
+const MIN_SCORE_WEIGHT = 0.1;
+
+// Vote weights from the photos' analysis scores (0-1). Unscored photos take the mean of the
+// known scores so they neither outvote nor get outvoted; with no scores at all every photo
+// counts the same (undefined means equal weights to aggregateStyleProfiles).
+export function scoreWeights(scores: Array<number | undefined>): number[] | undefined {
+	const known = scores.filter((score): score is number => score !== undefined);
+	if (known.length === 0) return undefined;
+	const mean = known.reduce((sum, score) => sum + score, 0) / known.length;
+	return scores.map(score => Math.max(MIN_SCORE_WEIGHT, score ?? mean));
+}
+
+export class StyleLearningError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'StyleLearningError';
+	}
+}
+
+// Learn one profile per photo and save the merged result as a custom style.
+// Photos vote with their analysis score (see scoreWeights).
+export async function learnStyleFromPhotos(
+	photos: Array<Pick<Photo, 'blob' | 'analysis'>>,
+	provider: VisionProvider,
+	name: string,
+	onProgress?: (done: number, total: number) => void
+): Promise<CustomStyle> {
+	if (photos.length < STYLE_LEARNING_MIN_PHOTOS || photos.length > STYLE_LEARNING_MAX_PHOTOS) {
+		throw new StyleLearningError(
+			`Style learning needs ${STYLE_LEARNING_MIN_PHOTOS}-${STYLE_LEARNING_MAX_PHOTOS} photos, got ${photos.length}`
+		);
+	}
+
+	const profiles: StyleProfile[] = [];
+	const scores: Array<number | undefined> = [];
+	for (const [index, photo] of photos.entries()) {
+		try {
+			profiles.push(await provider.learnStyle(await photoToBase64(photo.blob)));
+			scores.push(photo.analysis?.score);
+		} catch (error) {
+			console.error('Style learning failed for one photo:', error);
+		}
+		onProgress?.(index + 1, photos.length);
+	}
+	// Too many failures would leave a vote of one or two photos
+	if (profiles.length < Math.ceil(STYLE_LEARNING_MIN_PHOTOS / 2)) {
+		throw new StyleLearningError('No style could be learned from these photos');
+	}
+
+	const id = crypto.randomUUID();
+	await customStyleService.save({
+		id,
+		name: name.trim() || '我的风格',
+		profile: aggregateStyleProfiles(profiles, scoreWeights(scores)),
+		sampleCount: profiles.length
+	});
+	return (await customStyleService.get(id))!;
+}
@@ -0,0 +1,209 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { authStorageService, type SyncTable } from '$lib/services/db';
+import type { SyncRemote, SyncRows } from '$lib/services/sync';
+
+/**
+ * Supabase backend for the sync engine
+ * Rows go through PostgREST and are owned by the signed-in Supabase Auth user (owner_id, enforced
+ * by row-level security and filtered on in every query); a device without a session signs in
+ * anonymously. The session is kept in IndexedDB, so the service worker acts as the same user as
+ * the page instead of signing in anew each time it wakes. Photo blobs use Storage's TUS endpoint, which is what makes uploads resumable
+ * across app restarts.
+ * Schema: supabase/migrations (adds updated_at / deleted_at / synced_at to the synced tables).
+ */
+
+export interface SupabaseSyncConfig {
+	url: string;
+	anonKey: string;
+	bucket?: string;
+}
+
+export const PHOTO_BUCKET = 'photos';
+
+// Supabase Storage only accepts 6 MB TUS chunks (except the last)
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+const PAGE_SIZE = 500;
+// synced_at is stamped when a row is written, not when its transaction commits, so a slow write can
+// become visible with a stamp just below the cursor. Pulls re-read this window; re-applying is a no-op.
+const PULL_OVERLAP_MS = 10_000;
+
+function encodeMetadata(metadata: Record<string, string>): string {
+	return Object.entries(metadata)
+		.map(([key, value]) => `${key} ${btoa(unescape(encodeURIComponent(value)))}`)
+		.join(',');
+}
+
+export class SupabaseSyncRemote implements SyncRemote {
+	readonly chunkSize = TUS_CHUNK_SIZE;
+	private client: SupabaseClient;
+	private config: SupabaseSyncConfig;
+	private bucket: string;
+	private owner: Promise<string> | null = null;
+
+	constructor(config: SupabaseSyncConfig) {
+		this.config = { ...config, url: config.url.trim().replace(/\/+$/, '') };
+		this.bucket = config.bucket ?? PHOTO_BUCKET;
+		this.client = createClient(this.config.url, this.config.anonKey, {
+			auth: { persistSession: true, storage: authStorageService }
+		});
+	}
+
+	// Auth user id that owns this device's rows
+	private ownerId(): Promise<string> {
+		if (!this.owner) {
+			this.owner = this.signIn();
+			this.owner.catch(() => (this.owner = null));
+		}
+		return this.owner;
+	}
+
+	private async signIn(): Promise<string> {
+		const { data } = await this.client.auth.getSession();
+		if (data.session) return data.session.user.id;
+
+		const { data: signedIn, error } = await this.client.auth.signInAnonymously();
+		if (error || !signedIn.user) throw new Error(`Supabase sign-in failed: ${error?.message}`);
+		return signedIn.user.id;
+	}
+
+	async ensureUser(anonymousId: string): Promise<string> {
+		const owner = await this.ownerId();
+		const { data: existing, error } = await this.client
+			.from('users')
+			.select('id')
+			.eq('owner_id', owner)
+			.eq('anonymous_id', anonymousId)
+			.maybeSingle();
+		if (error) throw new Error(`Supabase users lookup failed: ${error.message}`);
+		if (existing) return existing.id;
+
+		const { data: created, error: insertError } = await this.client
+			.from('users')
+			.insert({ anonymous_id: anonymousId, owner_id: owner, api_key_encrypted: null, default_model: 'glm-4.6v-flash' })
+			.select('id')
+			.single();
+		if (insertError || !created) throw new Error(`Supabase user creation failed: ${insertError?.message}`);
+		return created.id;
+	}
+
+	async pull<T extends SyncTable>(table: T, since: string | null): Promise<SyncRows[T][]> {
+		const owner = await this.ownerId();
+		const rows: SyncRows[T][] = [];
+		for (let from = 0; ; from += PAGE_SIZE) {
+			let query = this.client
+				.from(table)
+				.select('*')
+				.eq('owner_id', owner)
+				.order('synced_at', { ascending: true })
+				.order('id');
+			if (since) {
+				query = query.gt('synced_at', new Date(new Date(since).getTime() - PULL_OVERLAP_MS).toISOString());
+			}
+			const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+			if (error) throw new Error(`Supabase pull from ${table} failed: ${error.message}`);
+
+			rows.push(...(data as SyncRows[T][]));
+			if (data.length < PAGE_SIZE) return rows;
+		}
+	}
+
+	async fetch<T extends SyncTable>(table: T, ids: string[]): Promise<SyncRows[T][]> {
+		if (ids.length === 0) return [];
+		const owner = await this.ownerId();
+		const { data, error } = await this.client.from(table).select('*').eq('owner_id', owner).in('id', ids);
+		if (error) throw new Error(`Supabase fetch from ${table} failed: ${error.message}`);
+		return data as SyncRows[T][];
+	}
+
+	async upsert<T extends SyncTable>(table: T, rows: SyncRows[T][]): Promise<void> {
+		const owner = await this.ownerId();
+		const { error } = await this.client.from(table).upsert(rows.map(row => ({ ...row, owner_id: owner })));
+		if (error) throw new Error(`Supabase upsert into ${table} failed: ${error.message}`);
+	}
+
+	async markDeleted(table: SyncTable, id: string, deletedAt: string): Promise<boolean> {
+		const { data, error } = await this.client
+			.from(table)
+			.update({ deleted_at: deletedAt, updated_at: deletedAt })
+			.eq('owner_id', await this.ownerId())
+			.eq('id', id)
+			.lte('updated_at', deletedAt)
+			.select('id');
+		if (error) throw new Error(`Supabase delete in ${table} failed: ${error.message}`);
+		return data.length > 0;
+	}
+
+	// TUS (https://tus.io) against Storage's resumable endpoint
+	private async tusHeaders(): Promise<Record<string, string>> {
+		const { data } = await this.client.auth.getSession();
+		return {
+			apikey: this.config.anonKey,
+			authorization: `Bearer ${data.session?.access_token ?? this.config.anonKey}`,
+			'tus-resumable': '1.0.0'
+		};
+	}
+
+	async createUpload(path: string, size: number, contentType: string): Promise<string> {
+		const endpoint = `${this.config.url}/storage/v1/upload/resumable`;
+		const response = await fetch(endpoint, {
+			method: 'POST',
+			headers: {
+				...(await this.tusHeaders()),
+				'x-upsert': 'true',
+				'upload-length': String(size),
+				'upload-metadata': encodeMetadata({
+					bucketName: this.bucket,
+					objectName: path,
+					contentType,
+					cacheControl: '3600'
+				})
+			}
+		});
+		const location = response.headers.get('location');
+		if (!response.ok || !location) {
+			throw new Error(`Supabase upload creation failed: ${response.status} ${await response.text()}`);
+		}
+		return new URL(location, endpoint).toString();
+	}
+
+	async getUploadOffset(uploadUrl: string): Promise<number | null> {
+		const response = await fetch(uploadUrl, { method: 'HEAD', headers: await this.tusHeaders() });
+		if (response.status === 404 || response.status === 410) return null;
+		if (!response.ok) throw new Error(`Supabase upload status failed: ${response.status}`);
+		const offset = Number(response.headers.get('upload-offset'));
+		return Number.isFinite(offset) ? offset : null;
+	}
+
+	async uploadChunk(uploadUrl: string, offset: number, chunk: Blob): Promise<number> {
+		const response = await fetch(uploadUrl, {
+			method: 'PATCH',
+			headers: {
+				...(await this.tusHeaders()),
+				'upload-offset': String(offset),
+				'content-type': 'application/offset+octet-stream'
+			},
+			body: chunk
+		});
+		if (!response.ok) {
+			throw new Error(`Supabase upload failed at offset ${offset}: ${response.status} ${await response.text()}`);
+		}
+		return Number(response.headers.get('upload-offset') ?? offset + chunk.size);
+	}
+
+	async download(path: string): Promise<Blob> {
+		const { data, error } = await this.client.storage.from(this.bucket).download(path);
+		if (error || !data) throw new Error(`Supabase download of ${path} failed: ${error?.message}`);
+		return data;
+	}
+
+	async removeObject(path: string): Promise<void> {
+		const { error } = await this.client.storage.from(this.bucket).remove([path]);
+		if (error) throw new Error(`Supabase removal of ${path} failed: ${error.message}`);
+	}
+
+	async createSignedUrl(path: string, expiresInSeconds: number): Promise<string> {
+		const { data, error } = await this.client.storage.from(this.bucket).createSignedUrl(path, expiresInSeconds);
+		if (error || !data) throw new Error(`Supabase signed URL for ${path} failed: ${error?.message}`);
+		return data.signedUrl;
+	}
+}
@@ -0,0 +1,143 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BoyfriendCameraDB } from '$lib/services/db';
+import { SyncEngine, photoToRow } from '$lib/services/sync';
+import { MemorySyncRemote } from '$lib/services/syncMemory';
+import type { Photo, Session } from '$lib/types';
+
+// Two devices signed in to one account: separate local databases, one remote
+const deviceA = new BoyfriendCameraDB('sync-test-a');
+const deviceB = new BoyfriendCameraDB('sync-test-b');
+let remote: MemorySyncRemote;
+
+function engine(database: BoyfriendCameraDB): SyncEngine {
+	return new SyncEngine(remote, { anonymousId: 'account', database });
+}
+
+function session(id: string, updatedAt: Date, styleId: string | null = null): Session {
+	return {
+		id,
+		styleId,
+		startedAt: new Date('2026-10-01T10:00:00Z'),
+		completedAt: null,
+		photos: [],
+		aiSelection: null,
+		userFeedback: null,
+		updatedAt,
+		syncedAt: null
+	};
+}
+
+function photo(id: string, sessionId: string): Photo {
+	const createdAt = new Date('2026-10-01T10:05:00Z');
+	return { id, sessionId, blob: new Blob([id], { type: 'image/jpeg' }), createdAt, updatedAt: createdAt };
+}
+
+// Finish an upload on the remote without writing the photo row again
+async function uploadObject(path: string, blob: Blob) {
+	const url = await remote.createUpload(path, blob.size, blob.type);
+	await remote.uploadChunk(url, 0, blob);
+}
+
+describe('SyncEngine', () => {
+	beforeEach(async () => {
+		remote = new MemorySyncRemote();
+		for (const database of [deviceA, deviceB]) {
+			await Promise.all(database.tables.map(table => table.clear()));
+		}
+	});
+
+	it('moves a session and its photo from one device to another', async () => {
+		await deviceA.sessions.put(session('s1', new Date('2026-10-01T10:00:00Z')));
+		await deviceA.photos.put(photo('p1', 's1'));
+
+		const pushed = await engine(deviceA).sync();
+		expect(pushed.pushed).toBe(2);
+		const pulled = await engine(deviceB).sync();
+
+		expect(pulled.pulled).toBe(2);
+		expect((await deviceB.sessions.get('s1'))?.photos.map(p => p.id)).toEqual(['p1']);
+		expect(await (await deviceB.photos.get('p1'))!.blob.text()).toBe('p1');
+		// Nothing new on the next pass
+		expect((await engine(deviceB).sync()).pulled).toBe(0);
+	});
+
+	it('keeps the later edit when both devices changed a record', async () => {
+		await deviceA.sessions.put(session('s1', new Date('2026-10-01T10:00:00Z')));
+		await engine(deviceA).sync();
+		await engine(deviceB).sync();
+
+		await deviceA.sessions.update('s1', { styleId: 'from-a', updatedAt: new Date('2026-10-02T12:00:00Z') });
+		await deviceB.sessions.update('s1', { styleId: 'from-b', updatedAt: new Date('2026-10-02T11:00:00Z') });
+		await engine(deviceA).sync();
+		const result = await engine(deviceB).sync();
+
+		expect(result.conflicts).toBe(1);
+		expect((await deviceB.sessions.get('s1'))?.styleId).toBe('from-a');
+		expect(remote.rows('sessions')[0].style_id).toBe('from-a');
+	});
+
+	it('propagates deletes unless the record was edited after them', async () => {
+		await deviceA.sessions.bulkPut([
+			session('deleted', new Date('2026-10-01T10:00:00Z')),
+			session('edited', new Date('2026-10-01T10:00:00Z'))
+		]);
+		await engine(deviceA).sync();
+		await engine(deviceB).sync();
+
+		await deviceA.sessions.bulkDelete(['deleted', 'edited']);
+		await deviceA.tombstones.bulkPut([
+			{ table: 'sessions', id: 'deleted', deletedAt: new Date('2026-10-02T10:00:00Z') },
+			{ table: 'sessions', id: 'edited', deletedAt: new Date('2026-10-02T10:00:00Z') }
+		]);
+		await deviceB.sessions.update('edited', { styleId: 'kept', updatedAt: new Date('2026-10-02T11:00:00Z') });
+		await engine(deviceB).sync();
+		await engine(deviceA).sync();
+		await engine(deviceB).sync();
+
+		expect(await deviceB.sessions.get('deleted')).toBeUndefined();
+		expect((await deviceB.sessions.get('edited'))?.styleId).toBe('kept');
+		// The later edit brings the record back on the deleting device too
+		expect((await deviceA.sessions.get('edited'))?.styleId).toBe('kept');
+		expect(await deviceA.tombstones.count()).toBe(0);
+	});
+
+	it('pulls an edit pushed late with an edit time older than the cursor', async () => {
+		await deviceA.sessions.put(session('recent', new Date('2026-10-05T10:00:00Z')));
+		await engine(deviceA).sync();
+		await engine(deviceB).sync();
+
+		// An offline device pushes an edit made days before what B has already pulled
+		await deviceA.sessions.put(session('offline', new Date('2026-10-01T10:00:00Z')));
+		await engine(deviceA).sync();
+		await engine(deviceB).sync();
+
+		expect(await deviceB.sessions.get('offline')).toBeDefined();
+		const cursor = await deviceB.syncCursors.get('sessions');
+		expect(cursor?.pulledUntil).toBe(remote.rows('sessions').find(row => row.id === 'offline')!.synced_at);
+	});
+
+	it('pulls a photo row again once its upload has finished', async () => {
+		// The row is visible before its blob: another device is still uploading
+		await remote.upsert('photos', [photoToRow(photo('waiting', 's1'), null)]);
+		await remote.upsert('photos', [photoToRow(photo('ready', 's1'), 'account/s1/ready.jpg')]);
+		await uploadObject('account/s1/ready.jpg', new Blob(['ready'], { type: 'image/jpeg' }));
+
+		await engine(deviceB).sync();
+		expect(await deviceB.photos.get('waiting')).toBeUndefined();
+		// Rows after the deferred one are still applied, but the cursor stays before it
+		expect(await deviceB.photos.get('ready')).toBeDefined();
+		expect((await deviceB.syncCursors.get('photos'))?.pulledUntil ?? '').toBe('');
+
+		// The upload finishes and the path is filled in without moving the row past the cursor
+		const waiting = remote.rows('photos').find(row => row.id === 'waiting')!;
+		waiting.storage_path = 'account/s1/waiting.jpg';
+		await uploadObject(waiting.storage_path, new Blob(['waiting'], { type: 'image/jpeg' }));
+
+		await engine(deviceB).sync();
+		expect(await (await deviceB.photos.get('waiting'))!.blob.text()).toBe('waiting');
+		expect((await deviceB.syncCursors.get('photos'))?.pulledUntil).toBe(
+			remote.rows('photos').find(row => row.id === 'ready')!.synced_at
+		);
+	});
+});
@@ -0,0 +1,526 @@
+import { writable } from 'svelte/store';
+import type { AppSettings, CustomStyle, Database, Photo, Session, ShootScript } from '$lib/types';
+import { db as defaultDb, type BoyfriendCameraDB, type SyncTable } from '$lib/services/db';
+import { SupabaseSyncRemote } from '$lib/services/supabase';
+
+/**
+ * Bidirectional cloud sync between the local Dexie database and the Supabase tables
+ *
+ * - Every syncable record carries updatedAt (bumped by the db services) and syncedAt
+ *   (the updatedAt that was last exchanged with the cloud); updatedAt > syncedAt means dirty.
+ * - Conflicts resolve last-writer-wins on updated_at (the edit time, set by the client). Deletes are tombstones: locally a
+ *   Tombstone row, remotely deleted_at, so a delete on one device is not undone by another.
+ * - Photo blobs upload in fixed-size chunks; progress is persisted, so an interrupted upload
+ *   resumes from the last acknowledged offset on the next sync.
+ * - Each pass pushes first (parents before children), then pulls everything the server wrote
+ *   after the per-table cursor. The cursor is synced_at, stamped by the server on every write,
+ *   so an edit pushed late by a device that was offline is still pulled by the others.
+ */
+
+type Tables = Database['public']['Tables'];
+export type SessionRow = Tables['sessions']['Row'];
+export type PhotoRow = Tables['photos']['Row'];
+export type CustomStyleRow = Tables['custom_styles']['Row'];
+export type ShootScriptRow = Tables['shoot_scripts']['Row'];
+
+export interface SyncRows {
+	sessions: SessionRow;
+	photos: PhotoRow;
+	custom_styles: CustomStyleRow;
+	shoot_scripts: ShootScriptRow;
+}
+
+// Everything the engine needs from the cloud; Supabase in production, an in-memory fake in development
+export interface SyncRemote {
+	// users.id for this device's anonymous id, created on first use
+	ensureUser(anonymousId: string): Promise<string>;
+	// Rows (including soft-deleted ones) with synced_at after `since`, in synced_at order; rows already
+	// pulled may come again
+	pull<T extends SyncTable>(table: T, since: string | null): Promise<SyncRows[T][]>;
+	fetch<T extends SyncTable>(table: T, ids: string[]): Promise<SyncRows[T][]>;
+	// The server assigns synced_at; the value sent is ignored
+	upsert<T extends SyncTable>(table: T, rows: SyncRows[T][]): Promise<void>;
+	// Soft delete, only if the remote row is not newer than the delete; returns whether a row was deleted
+	markDeleted(table: SyncTable, id: string, deletedAt: string): Promise<boolean>;
+
+	// Resumable blob upload
+	readonly chunkSize: number;
+	createUpload(path: string, size: number, contentType: string): Promise<string>; // Returns the upload URL
+	getUploadOffset(uploadUrl: string): Promise<number | null>; // null when the upload expired or is unknown
+	uploadChunk(uploadUrl: string, offset: number, chunk: Blob): Promise<number>; // Returns the new offset
+	download(path: string): Promise<Blob>;
+	removeObject(path: string): Promise<void>;
+	createSignedUrl(path: string, expiresInSeconds: number): Promise<string>;
+}
+
+export interface SyncResult {
+	pushed: number;
+	pulled: number;
+	deleted: number;
+	uploadedBytes: number;
+	conflicts: number; // Local changes discarded because the cloud copy was newer
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'error';
+
+export interface SyncStatus {
+	state: SyncState;
+	lastSyncedAt: Date | null;
+	lastResult: SyncResult | null;
+	error: string | null;
+}
+
+export const syncStatus = writable<SyncStatus>({
+	state: 'disabled',
+	lastSyncedAt: null,
+	lastResult: null,
+	error: null
+});
+
+// Push order: a child row is only pushed after its parent exists remotely
+const PUSH_ORDER: SyncTable[] = ['custom_styles', 'shoot_scripts', 'sessions', 'photos'];
+
+const time = (date: Date | string | null | undefined) => (date ? new Date(date).getTime() : 0);
+
+function isDirty(record: { updatedAt?: Date; syncedAt?: Date | null }): boolean {
+	return time(record.updatedAt) > time(record.syncedAt);
+}
+
+// Local record <-> remote row
+export function sessionToRow(session: Session, userId: string): SessionRow {
+	return {
+		id: session.id,
+		user_id: userId,
+		style_id: session.styleId,
+		started_at: new Date(session.startedAt).toISOString(),
+		completed_at: session.completedAt ? new Date(session.completedAt).toISOString() : null,
+		photo_count: session.photos.length,
+		ai_selection: session.aiSelection,
+		user_feedback: session.userFeedback,
+		shoot_script: session.shootScript ?? null,
+		updated_at: new Date(session.updatedAt ?? session.startedAt).toISOString(),
+		deleted_at: null,
+		synced_at: new Date().toISOString()
+	};
+}
+
+export function photoToRow(photo: Photo, storagePath: string | null): PhotoRow {
+	return {
+		id: photo.id,
+		session_id: photo.sessionId,
+		storage_path: storagePath,
+		analysis: photo.analysis ?? null,
+		is_ai_selected: photo.isAiSelected ?? false,
+		is_user_selected: photo.isUserSelected ?? null,
+		created_at: new Date(photo.createdAt).toISOString(),
+		updated_at: new Date(photo.updatedAt ?? photo.createdAt).toISOString(),
+		deleted_at: null,
+		synced_at: new Date().toISOString()
+	};
+}
+
+export function customStyleToRow(style: CustomStyle, userId: string): CustomStyleRow {
+	return {
+		id: style.id,
+		user_id: userId,
+		name: style.name,
+		profile: style.profile,
+		sample_count: style.sampleCount,
+		description: style.description ?? null,
+		config: style.config ?? {},
+		created_at: new Date(style.createdAt).toISOString(),
+		updated_at: new Date(style.updatedAt).toISOString(),
+		deleted_at: null,
+		synced_at: new Date().toISOString()
+	};
+}
+
+export function shootScriptToRow(script: ShootScript, userId: string): ShootScriptRow {
+	return {
+		id: script.id,
+		user_id: userId,
+		name: script.name,
+		description: script.description ?? null,
+		steps: script.steps,
+		accuracy_threshold: script.accuracyThreshold ?? null,
+		created_at: new Date(script.createdAt).toISOString(),
+		updated_at: new Date(script.updatedAt).toISOString(),
+		deleted_at: null,
+		synced_at: new Date().toISOString()
+	};
+}
+
+export interface SyncEngineOptions {
+	anonymousId: string;
+	database?: BoyfriendCameraDB;
+}
+
+export class SyncEngine {
+	private remote: SyncRemote;
+	private db: BoyfriendCameraDB;
+	private anonymousId: string;
+	private running: Promise<SyncResult> | null = null;
+
+	constructor(remote: SyncRemote, options: SyncEngineOptions) {
+		this.remote = remote;
+		this.db = options.database ?? defaultDb;
+		this.anonymousId = options.anonymousId;
+	}
+
+	// Concurrent callers share the pass that is already running
+	sync(): Promise<SyncResult> {
+		if (!this.running) {
+			this.running = this.runSync().finally(() => {
+				this.running = null;
+			});
+		}
+		return this.running;
+	}
+
+	private async runSync(): Promise<SyncResult> {
+		syncStatus.update(status => ({ ...status, state: 'syncing', error: null }));
+		const result: SyncResult = { pushed: 0, pulled: 0, deleted: 0, uploadedBytes: 0, conflicts: 0 };
+
+		try {
+			const userId = await this.remote.ensureUser(this.anonymousId);
+
+			await this.pushTombstones(result);
+			for (const table of PUSH_ORDER) {
+				await this.push(table, userId, result);
+			}
+			for (const table of PUSH_ORDER) {
+				await this.pull(table, result);
+			}
+
+			syncStatus.set({ state: 'idle', lastSyncedAt: new Date(), lastResult: result, error: null });
+			return result;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			syncStatus.update(status => ({ ...status, state: 'error', error: message }));
+			throw error;
+		}
+	}
+
+	// Local deletes go out first, so a pull cannot bring the deleted rows back
+	private async pushTombstones(result: SyncResult) {
+		const tombstones = await this.db.tombstones.toArray();
+		for (const tombstone of tombstones) {
+			const deleted = await this.remote.markDeleted(tombstone.table, tombstone.id, tombstone.deletedAt.toISOString());
+			// A row edited elsewhere after the delete survives (last writer wins), and so does its blob
+			if (deleted && tombstone.storagePath) {
+				await this.remote.removeObject(tombstone.storagePath);
+			}
+			await this.db.tombstones.delete([tombstone.table, tombstone.id]);
+			result.deleted++;
+		}
+	}
+
+	private async push(table: SyncTable, userId: string, result: SyncResult) {
+		const dirty = await this.dirtyRecords(table);
+		if (dirty.length === 0) return;
+
+		// Last writer wins: skip local changes the cloud has already superseded (the pull applies them)
+		const remoteRows = await this.remote.fetch(table, dirty.map(record => record.id));
+		const remoteUpdated = new Map(remoteRows.map(row => [row.id, time(row.updated_at)]));
+
+		const rows: SyncRows[SyncTable][] = [];
+		const pushed: Array<{ id: string; updatedAt: Date }> = [];
+		for (const record of dirty) {
+			const updatedAt = record.updatedAt ?? new Date(0);
+			if ((remoteUpdated.get(record.id) ?? 0) > updatedAt.getTime()) {
+				result.conflicts++;
+				continue;
+			}
+
+			if (table === 'sessions') {
+				rows.push(sessionToRow(record as Session, userId));
+			} else if (table === 'photos') {
+				const photo = record as Photo;
+				const storagePath = photo.storagePath ?? await this.uploadPhoto(photo, userId, result);
+				rows.push(photoToRow(photo, storagePath));
+			} else if (table === 'shoot_scripts') {
+				rows.push(shootScriptToRow(record as ShootScript, userId));
+			} else {
+				rows.push(customStyleToRow(record as CustomStyle, userId));
+			}
+			pushed.push({ id: record.id, updatedAt });
+		}
+
+		if (rows.length > 0) {
+			await this.remote.upsert(table, rows);
+		}
+		// Record what was sent; an edit made meanwhile keeps the record dirty
+		for (const { id, updatedAt } of pushed) {
+			await this.localTable(table).update(id, { syncedAt: updatedAt });
+		}
+		result.pushed += pushed.length;
+	}
+
+	// Upload one photo's blob ahead of the next pass (the row itself goes out with that pass)
+	async uploadPhotoBlob(photoId: string, onProgress?: (fraction: number) => void): Promise<string> {
+		const photo = await this.db.photos.get(photoId);
+		if (!photo) throw new Error(`Photo ${photoId} not found`);
+		if (photo.storagePath) return photo.storagePath;
+
+		const userId = await this.remote.ensureUser(this.anonymousId);
+		const result: SyncResult = { pushed: 0, pulled: 0, deleted: 0, uploadedBytes: 0, conflicts: 0 };
+		return this.uploadPhoto(photo, userId, result, onProgress);
+	}
+
+	// Time-limited link to an uploaded photo, for sharing outside the app
+	async createSignedUrl(storagePath: string, expiresInSeconds: number): Promise<string> {
+		return this.remote.createSignedUrl(storagePath, expiresInSeconds);
+	}
+
+	private async dirtyRecords(table: SyncTable): Promise<Array<Session | Photo | CustomStyle | ShootScript>> {
+		const records: Array<Session | Photo | CustomStyle | ShootScript> = await this.localTable(table).toArray();
+		return records.filter(isDirty);
+	}
+
+	private localTable(table: SyncTable) {
+		switch (table) {
+			case 'sessions':
+				return this.db.sessions;
+			case 'photos':
+				return this.db.photos;
+			case 'custom_styles':
+				return this.db.customStyles;
+			case 'shoot_scripts':
+				return this.db.shootScripts;
+		}
+	}
+
+	// Upload a photo blob in chunks, resuming a previous attempt when the server still has it
+	private async uploadPhoto(
+		photo: Photo,
+		userId: string,
+		result: SyncResult,
+		onProgress?: (fraction: number) => void
+	): Promise<string> {
+		const storagePath = `${userId}/${photo.sessionId}/${photo.id}.jpg`;
+		const size = photo.blob.size;
+
+		let pending = await this.db.uploads.get(photo.id);
+		if (pending && (pending.size !== size || pending.storagePath !== storagePath)) {
+			pending = undefined;
+		}
+		if (pending) {
+			const offset = await this.remote.getUploadOffset(pending.uploadUrl);
+			pending = offset === null ? undefined : { ...pending, offset };
+		}
+		if (!pending) {
+			pending = {
+				photoId: photo.id,
+				storagePath,
+				uploadUrl: await this.remote.createUpload(storagePath, size, photo.blob.type || 'image/jpeg'),
+				offset: 0,
+				size,
+				startedAt: new Date()
+			};
+		}
+		await this.db.uploads.put(pending);
+
+		while (pending.offset < size) {
+			const chunk = photo.blob.slice(pending.offset, pending.offset + this.remote.chunkSize);
+			const offset = await this.remote.uploadChunk(pending.uploadUrl, pending.offset, chunk);
+			result.uploadedBytes += offset - pending.offset;
+			pending = { ...pending, offset };
+			await this.db.uploads.update(photo.id, { offset });
+			onProgress?.(size > 0 ? offset / size : 1);
+		}
+
+		// storagePath is bookkeeping, not a user edit, so updatedAt stays as it is
+		await this.db.transaction('rw', this.db.photos, this.db.uploads, async () => {
+			await this.db.photos.update(photo.id, { storagePath });
+			await this.db.uploads.delete(photo.id);
+		});
+		return storagePath;
+	}
+
+	private async pull(table: SyncTable, result: SyncResult) {
+		const cursor = await this.db.syncCursors.get(table);
+		const rows = await this.remote.pull(table, cursor?.pulledUntil ?? null);
+		if (rows.length === 0) return;
+
+		// The cursor stops before the first deferred row, so the next pass pulls it again;
+		// rows after it are still applied now (re-applying them later is a no-op)
+		let pulledUntil = cursor?.pulledUntil ?? '';
+		let deferred = false;
+		for (const row of rows) {
+			const outcome = await this.applyRemoteRow(table, row);
+			if (outcome === 'applied') {
+				result.pulled++;
+			}
+			if (outcome === 'deferred') {
+				deferred = true;
+			} else if (!deferred && time(row.synced_at) > time(pulledUntil)) {
+				pulledUntil = row.synced_at;
+			}
+		}
+		await this.db.syncCursors.put({ table, pulledUntil });
+	}
+
+	// Apply one remote row if it is newer than the local copy. 'skipped' when the local state
+	// already wins; 'deferred' when it cannot be applied yet and has to be pulled again.
+	private async applyRemoteRow(table: SyncTable, row: SyncRows[SyncTable]): Promise<'applied' | 'skipped' | 'deferred'> {
+		const remoteTime = time(row.updated_at);
+		const local: Session | Photo | CustomStyle | ShootScript | undefined = await this.localTable(table).get(row.id);
+		if (local && time(local.updatedAt) >= remoteTime) return 'skipped';
+
+		const tombstone = await this.db.tombstones.get([table, row.id]);
+		if (tombstone && tombstone.deletedAt.getTime() >= remoteTime) return 'skipped';
+
+		if (row.deleted_at) {
+			if (!local) return 'skipped';
+			await this.deleteLocal(table, row.id);
+			return 'applied';
+		}
+
+		const updatedAt = new Date(row.updated_at);
+		if (table === 'sessions') {
+			const sessionRow = row as SessionRow;
+			await this.db.sessions.put({
+				id: sessionRow.id,
+				styleId: sessionRow.style_id,
+				startedAt: new Date(sessionRow.started_at),
+				completedAt: sessionRow.completed_at ? new Date(sessionRow.completed_at) : null,
+				photos: (local as Session | undefined)?.photos ?? [],
+				aiSelection: sessionRow.ai_selection,
+				userFeedback: sessionRow.user_feedback,
+				shootScript: sessionRow.shoot_script ?? null,
+				updatedAt,
+				syncedAt: updatedAt
+			});
+		} else if (table === 'photos') {
+			const photoRow = row as PhotoRow;
+			const localPhoto = local as Photo | undefined;
+			const blob = localPhoto?.blob ?? (photoRow.storage_path ? await this.remote.download(photoRow.storage_path) : null);
+			if (!blob) return 'deferred'; // Row arrived before its upload finished; a later pass picks it up
+
+			const photo: Photo = {
+				...localPhoto,
+				id: photoRow.id,
+				sessionId: photoRow.session_id,
+				blob,
+				analysis: photoRow.analysis ?? undefined,
+				isAiSelected: photoRow.is_ai_selected,
+				isUserSelected: photoRow.is_user_selected ?? undefined,
+				storagePath: photoRow.storage_path ?? undefined,
+				createdAt: new Date(photoRow.created_at),
+				updatedAt,
+				syncedAt: updatedAt
+			};
+			await this.db.photos.put(photo);
+			await this.attachToSession(photo);
+		} else if (table === 'shoot_scripts') {
+			const scriptRow = row as ShootScriptRow;
+			await this.db.shootScripts.put({
+				id: scriptRow.id,
+				name: scriptRow.name,
+				description: scriptRow.description,
+				steps: scriptRow.steps ?? [],
+				accuracyThreshold: scriptRow.accuracy_threshold,
+				createdAt: new Date(scriptRow.created_at),
+				updatedAt,
+				syncedAt: updatedAt
+			});
+		} else {
+			const styleRow = row as CustomStyleRow;
+			await this.db.customStyles.put({
+				id: styleRow.id,
+				name: styleRow.name,
+				profile: styleRow.profile,
+				sampleCount: styleRow.sample_count,
+				description: styleRow.description,
+				config: styleRow.config ?? {},
+				createdAt: new Date(styleRow.created_at),
+				updatedAt,
+				syncedAt: updatedAt
+			});
+		}
+
+		if (tombstone) {
+			await this.db.tombstones.delete([table, row.id]);
+		}
+		return 'applied';
+	}
+
+	// Sessions keep a copy of their photo list; keep it in step without marking the session dirty
+	private async attachToSession(photo: Photo) {
+		const session = await this.db.sessions.get(photo.sessionId);
+		if (!session) return;
+		const photos = session.photos.filter(p => p.id !== photo.id);
+		await this.db.sessions.update(session.id, { photos: [...photos, photo] });
+	}
+
+	// Remote delete: remove locally without writing a tombstone of our own
+	private async deleteLocal(table: SyncTable, id: string) {
+		if (table === 'photos') {
+			const photo = await this.db.photos.get(id);
+			await this.db.transaction('rw', [this.db.photos, this.db.photoEdits, this.db.uploads], async () => {
+				await this.db.photos.delete(id);
+				await this.db.photoEdits.delete(id);
+				await this.db.uploads.delete(id);
+			});
+			const session = photo ? await this.db.sessions.get(photo.sessionId) : undefined;
+			if (session) {
+				await this.db.sessions.update(session.id, { photos: session.photos.filter(p => p.id !== id) });
+			}
+		} else {
+			await this.localTable(table).delete(id);
+		}
+	}
+}
+
+// Singleton instance, rebuilt when the configuration changes
+let syncEngine: SyncEngine | null = null;
+let syncEngineKey = '';
+
+export function setSyncEngine(engine: SyncEngine | null) {
+	syncEngine = engine;
+	syncEngineKey = '';
+	syncStatus.update(status => ({ ...status, state: engine ? 'idle' : 'disabled', error: null }));
+}
+
+export function getSyncEngine(): SyncEngine | null {
+	return syncEngine;
+}
+
+type SyncSettings = Pick<AppSettings, 'enableCloudSync' | 'supabaseUrl' | 'supabaseAnonKey' | 'syncDeviceId'>;
+
+export function isSyncConfigured(settings: SyncSettings): boolean {
+	return !!(settings.enableCloudSync && settings.supabaseUrl && settings.supabaseAnonKey && settings.syncDeviceId);
+}
+
+// Build (or drop) the Supabase-backed engine from settings
+export function configureSync(settings: SyncSettings): SyncEngine | null {
+	if (!isSyncConfigured(settings)) {
+		if (syncEngine) setSyncEngine(null);
+		return null;
+	}
+
+	const key = JSON.stringify([settings.supabaseUrl, settings.supabaseAnonKey, settings.syncDeviceId]);
+	if (!syncEngine || syncEngineKey !== key) {
+		const remote = new SupabaseSyncRemote({ url: settings.supabaseUrl!, anonKey: settings.supabaseAnonKey! });
+		setSyncEngine(new SyncEngine(remote, { anonymousId: settings.syncDeviceId! }));
+		syncEngineKey = key;
+	}
+	return syncEngine;
+}
+
+// Sync now, when the connection comes back, and periodically; returns a stop function
+export function startAutoSync(intervalMs: number = 5 * 60 * 1000): () => void {
+	const run = () => {
+		if (!navigator.onLine || !syncEngine) return;
+		syncEngine.sync().catch(error => console.error('Cloud sync failed:', error));
+	};
+
+	window.addEventListener('online', run);
+	const timer = setInterval(run, intervalMs);
+	run();
+
+	return () => {
+		window.removeEventListener('online', run);
+		clearInterval(timer);
+	};
+}
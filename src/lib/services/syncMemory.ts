@@ -0,0 +1,139 @@
+import type { SyncTable } from '$lib/services/db';
+import type { SyncRemote, SyncRows } from '$lib/services/sync';
+
+/**
+ * In-memory stand-in for the Supabase backend
+ * Same semantics as SupabaseSyncRemote (soft deletes, conditional delete, chunked uploads),
+ * so the sync engine can be exercised offline, between two engines sharing one instance
+ * (two "devices"), or with injected upload failures. One instance stands for one account, so
+ * owner scoping is not modelled.
+ */
+
+interface MemoryUpload {
+	path: string;
+	size: number;
+	contentType: string;
+	chunks: Blob[];
+	offset: number;
+}
+
+export interface MemorySyncOptions {
+	chunkSize?: number;
+	// Throw on the n-th chunk upload (1-based), to simulate a dropped connection mid-upload
+	failChunk?: number;
+}
+
+export class MemorySyncRemote implements SyncRemote {
+	readonly chunkSize: number;
+	private tables: { [T in SyncTable]: Map<string, SyncRows[T]> } = {
+		sessions: new Map(),
+		photos: new Map(),
+		custom_styles: new Map(),
+		shoot_scripts: new Map()
+	};
+	private users = new Map<string, string>(); // anonymous_id -> id
+	private uploads = new Map<string, MemoryUpload>();
+	private objects = new Map<string, Blob>();
+	private chunkCount = 0;
+	private failChunk: number | undefined;
+	private lastWriteAt = 0;
+
+	constructor(options: MemorySyncOptions = {}) {
+		this.chunkSize = options.chunkSize ?? 256 * 1024;
+		this.failChunk = options.failChunk;
+	}
+
+	async ensureUser(anonymousId: string): Promise<string> {
+		if (!this.users.has(anonymousId)) {
+			this.users.set(anonymousId, crypto.randomUUID());
+		}
+		return this.users.get(anonymousId)!;
+	}
+
+	async pull<T extends SyncTable>(table: T, since: string | null): Promise<SyncRows[T][]> {
+		const after = since ? new Date(since).getTime() : -Infinity;
+		return this.rows(table)
+			.filter(row => new Date(row.synced_at).getTime() > after)
+			.sort((a, b) => new Date(a.synced_at).getTime() - new Date(b.synced_at).getTime())
+			.map(row => structuredClone(row));
+	}
+
+	async fetch<T extends SyncTable>(table: T, ids: string[]): Promise<SyncRows[T][]> {
+		return ids
+			.map(id => (this.tables[table] as Map<string, SyncRows[T]>).get(id))
+			.filter((row): row is SyncRows[T] => !!row)
+			.map(row => structuredClone(row));
+	}
+
+	async upsert<T extends SyncTable>(table: T, rows: SyncRows[T][]): Promise<void> {
+		for (const row of rows) {
+			(this.tables[table] as Map<string, SyncRows[T]>).set(row.id, { ...structuredClone(row), synced_at: this.writeTime() });
+		}
+	}
+
+	async markDeleted(table: SyncTable, id: string, deletedAt: string): Promise<boolean> {
+		const row = this.tables[table].get(id);
+		if (!row || new Date(row.updated_at).getTime() > new Date(deletedAt).getTime()) return false;
+		this.tables[table].set(id, { ...row, deleted_at: deletedAt, updated_at: deletedAt, synced_at: this.writeTime() } as never);
+		return true;
+	}
+
+	// Stands in for the server's synced_at trigger: strictly increasing write times
+	private writeTime(): string {
+		this.lastWriteAt = Math.max(Date.now(), this.lastWriteAt + 1);
+		return new Date(this.lastWriteAt).toISOString();
+	}
+
+	async createUpload(path: string, size: number, contentType: string): Promise<string> {
+		const url = `memory://upload/${crypto.randomUUID()}`;
+		this.uploads.set(url, { path, size, contentType, chunks: [], offset: 0 });
+		return url;
+	}
+
+	async getUploadOffset(uploadUrl: string): Promise<number | null> {
+		return this.uploads.get(uploadUrl)?.offset ?? null;
+	}
+
+	async uploadChunk(uploadUrl: string, offset: number, chunk: Blob): Promise<number> {
+		const upload = this.uploads.get(uploadUrl);
+		if (!upload) throw new Error(`Unknown upload ${uploadUrl}`);
+		if (offset !== upload.offset) throw new Error(`Offset mismatch: expected ${upload.offset}, got ${offset}`);
+
+		this.chunkCount++;
+		if (this.chunkCount === this.failChunk) {
+			throw new TypeError('Simulated network failure');
+		}
+
+		upload.chunks.push(chunk);
+		upload.offset += chunk.size;
+		if (upload.offset >= upload.size) {
+			this.objects.set(upload.path, new Blob(upload.chunks, { type: upload.contentType }));
+			this.uploads.delete(uploadUrl);
+		}
+		return upload.offset;
+	}
+
+	async download(path: string): Promise<Blob> {
+		const object = this.objects.get(path);
+		if (!object) throw new Error(`Object not found: ${path}`);
+		return object;
+	}
+
+	async removeObject(path: string): Promise<void> {
+		this.objects.delete(path);
+	}
+
+	async createSignedUrl(path: string, expiresInSeconds: number): Promise<string> {
+		if (!this.objects.has(path)) throw new Error(`Object not found: ${path}`);
+		return `memory://object/${path}?expires=${Date.now() + expiresInSeconds * 1000}`;
+	}
+
+	// Inspection helpers for development tooling
+	rows<T extends SyncTable>(table: T): SyncRows[T][] {
+		return Array.from((this.tables[table] as Map<string, SyncRows[T]>).values());
+	}
+
+	hasObject(path: string): boolean {
+		return this.objects.has(path);
+	}
+}
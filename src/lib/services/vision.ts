@@ -0,0 +1,114 @@
+import type { AISuggestion, AppSettings, ModelType, PhotoAnalysis, Pose, StyleProfile, VisionProviderId } from '$lib/types';
+import { GLMService } from '$lib/services/glm';
+import { OpenAICompatibleService, OPENAI_DEFAULT_BASE_URL } from '$lib/services/openai';
+import { MockVisionProvider } from '$lib/services/mock';
+
+export interface PhotoSelectionResult {
+	selected: Array<{ photo_id: string; score: number; reasons: string[] }>;
+	summary: string;
+	analyses?: Array<PhotoAnalysis & { photo_id: string }>; // Per-photo scores for every image in the batch
+}
+
+// Per-request options for real-time analysis
+export interface VisionRequestOptions {
+	signal?: AbortSignal; // Abort when a newer frame supersedes this request
+	onPartial?: (partial: AISuggestion) => void; // When set, the response is streamed and reported as it arrives
+	currentPose?: Pose; // Keypoints from the on-device detector; the model then only proposes the target pose and advice
+	frameHash?: string; // Perceptual hash of the frame (utils/sceneChange), used as the cache key
+	bypassCache?: boolean; // Ask the model again even for a cached frame (its last result went stale)
+}
+
+// Everything the app asks of a vision model
+export interface VisionProvider {
+	readonly id: VisionProviderId;
+	setModel(model: ModelType): void;
+	setApiKey(apiKey: string): void;
+	analyzeFrame(imageBase64: string, style?: string, options?: VisionRequestOptions): Promise<AISuggestion>;
+	analyzePose(imageBase64: string, style?: string, options?: VisionRequestOptions): Promise<AISuggestion>;
+	selectPhotos(photoData: Array<{ id: string; base64: string }>): Promise<PhotoSelectionResult>;
+	learnStyle(imageBase64: string): Promise<StyleProfile>;
+	analyzePhoto(imageBase64: string): Promise<PhotoAnalysis>;
+}
+
+export interface VisionProviderConfig {
+	provider: VisionProviderId;
+	apiKey: string;
+	model: ModelType;
+	baseUrl?: string;
+}
+
+// Default model per provider
+export const DEFAULT_MODELS: { [P in VisionProviderId]: ModelType<P> } = {
+	glm: 'glm-4.6v-flash',
+	openai: 'llava',
+	mock: 'fixtures'
+};
+
+export const VISION_PROVIDERS: Array<{ id: VisionProviderId; name: string; description: string }> = [
+	{ id: 'glm', name: '智谱 GLM', description: '云端 GLM-4.6V 系列模型' },
+	{ id: 'openai', name: 'OpenAI 兼容', description: 'OpenAI / Ollama / llama.cpp 等 chat-completions 接口' }
+];
+
+export function createVisionProvider(config: VisionProviderConfig): VisionProvider {
+	switch (config.provider) {
+		case 'mock':
+			return new MockVisionProvider();
+		case 'openai':
+			return new OpenAICompatibleService(config.apiKey, config.model || DEFAULT_MODELS.openai, config.baseUrl || OPENAI_DEFAULT_BASE_URL);
+		case 'glm':
+		default:
+			return new GLMService(config.apiKey, config.model || DEFAULT_MODELS.glm);
+	}
+}
+
+// Map persisted settings to a provider config
+export function getProviderConfig(settings: Pick<AppSettings, 'apiKey' | 'defaultModel' | 'visionProvider' | 'providerBaseUrl'>): VisionProviderConfig {
+	const provider = settings.visionProvider ?? 'glm';
+	return {
+		provider,
+		apiKey: settings.apiKey,
+		model: settings.defaultModel || DEFAULT_MODELS[provider],
+		baseUrl: settings.providerBaseUrl
+	};
+}
+
+// GLM needs an API key; OpenAI-compatible servers need at least a base URL
+export function isVisionProviderConfigured(settings: Pick<AppSettings, 'apiKey' | 'visionProvider' | 'providerBaseUrl'>): boolean {
+	if (providerOverride || settings.visionProvider === 'mock') {
+		return true;
+	}
+	if (settings.visionProvider === 'openai') {
+		return !!settings.providerBaseUrl;
+	}
+	return !!settings.apiKey;
+}
+
+// Singleton instance, rebuilt when the config changes
+let visionProvider: VisionProvider | null = null;
+let visionProviderKey = '';
+
+// Takes precedence over settings (camera test mode, unit tests)
+let providerOverride: VisionProvider | null = null;
+
+export function setVisionProviderOverride(provider: VisionProvider | null) {
+	providerOverride = provider;
+}
+
+export function getVisionProviderOverride(): VisionProvider | null {
+	return providerOverride;
+}
+
+// Provider built from settings alone, ignoring any override
+export function getConfiguredVisionProvider(settings: Pick<AppSettings, 'apiKey' | 'defaultModel' | 'visionProvider' | 'providerBaseUrl'>): VisionProvider {
+	const config = getProviderConfig(settings);
+	const key = JSON.stringify(config);
+	if (!visionProvider || visionProviderKey !== key) {
+		visionProvider = createVisionProvider(config);
+		visionProviderKey = key;
+	}
+	return visionProvider;
+}
+
+export function getVisionProvider(settings: Pick<AppSettings, 'apiKey' | 'defaultModel' | 'visionProvider' | 'providerBaseUrl'>): VisionProvider {
+	return providerOverride ?? getConfiguredVisionProvider(settings);
+}
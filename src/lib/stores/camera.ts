@@ -1,6 +1,10 @@
 import { writable, derived } from 'svelte/store';
 import { sessionService, photoService } from '$lib/services/db';
-import type { Session, Photo, AISuggestion } from '$lib/types';
+import type { Session, Photo, AISuggestion, Pose, ShootScript, ShootScriptShot } from '$lib/types';
+import type { PhotoMetadata } from '$lib/utils/cameraControls';
+import type { VisionProvider } from '$lib/services/vision';
+import { selectPhotos, applyPhotoSelection } from '$lib/services/photoSelection';
+import { generatePhotoThumbnails } from '$lib/services/photoThumbnails';
 
 // Camera state
 export const isCameraActive = writable(false);
@@ -10,6 +14,39 @@ export const cameraError = writable<string | null>(null);
 export const aiSuggestion = writable<AISuggestion | null>(null);
 export const isAnalyzing = writable(false);
 
+// Latest smoothed keypoints from the on-device pose detector (null when nobody is in frame)
+export const detectedPose = writable<Pose | null>(null);
+
+// In-flight analysis; starting a new one aborts (supersedes) the previous request
+let analysisController: AbortController | null = null;
+
+export function beginAnalysis(): AbortSignal {
+	analysisController?.abort();
+	analysisController = new AbortController();
+	isAnalyzing.set(true);
+	return analysisController.signal;
+}
+
+// Progressive update from a streaming response; ignored once superseded
+export function updateAISuggestion(suggestion: AISuggestion, signal: AbortSignal) {
+	if (!signal.aborted) {
+		aiSuggestion.set(suggestion);
+	}
+}
+
+export function endAnalysis(signal: AbortSignal) {
+	if (analysisController?.signal === signal) {
+		analysisController = null;
+		isAnalyzing.set(false);
+	}
+}
+
+export function cancelAnalysis() {
+	analysisController?.abort();
+	analysisController = null;
+	isAnalyzing.set(false);
+}
+
 // Current session state
 export const currentSession = writable<Session | null>(null);
 export const currentPhotoCount = derived(currentSession, ($session) => $session?.photos.length || 0);
@@ -34,14 +71,52 @@ export async function createSession(styleId: string | null = null) {
 	}
 }
 
-// Add photo to current session
-export async function addPhotoToSession(blob: Blob) {
+// Script picked on the scripts page, started by the camera page with its next session
+export const pendingShootScript = writable<ShootScript | null>(null);
+
+// Attach a shoot script to the current session; pass the runner's script so poseIds match its step indexes
+export async function startSessionShootScript(script: ShootScript) {
+	const session = get(currentSession);
+	if (!session) return;
+
+	const updatedSession: Session = {
+		...session,
+		shootScript: {
+			scriptId: script.id,
+			name: script.name,
+			poseIds: script.steps.map(step => step.poseId),
+			shots: []
+		}
+	};
+
+	await sessionService.update(session.id, { shootScript: updatedSession.shootScript });
+	currentSession.set(updatedSession);
+}
+
+// Record which script pose a photo was taken for
+export async function recordShootScriptShot(shot: ShootScriptShot) {
+	const session = get(currentSession);
+	if (!session?.shootScript) return;
+
+	const shootScript = { ...session.shootScript, shots: [...session.shootScript.shots, shot] };
+	await sessionService.update(session.id, { shootScript });
+	currentSession.set({ ...session, shootScript });
+}
+
+// Add photo to current session; resolves to the new photo's id
+export async function addPhotoToSession(blob: Blob, metadata?: PhotoMetadata): Promise<string | undefined> {
 	const session = get(currentSession);
 	if (!session) return;
 
 	const photoId = await photoService.add({
 		sessionId: session.id,
-		blob
+		blob,
+		metadata
+	});
+
+	// Off the capture path; the backfill job retries photos this misses
+	generatePhotoThumbnails({ id: photoId, blob }).catch(error => {
+		console.error('Failed to generate thumbnails:', error);
 	});
 
 	// Update session
@@ -51,21 +126,42 @@ export async function addPhotoToSession(blob: Blob) {
 			id: photoId,
 			sessionId: session.id,
 			blob,
+			metadata,
 			createdAt: new Date()
 		}]
 	};
 
 	await sessionService.update(session.id, updatedSession);
 	currentSession.set(updatedSession);
+	return photoId;
 }
 
-// Complete current session
-export async function completeSession() {
+// Complete current session; with a provider, the AI picks the best photos first
+export async function completeSession(provider?: VisionProvider) {
 	const session = get(currentSession);
 	if (!session) return;
 
+	// Leaving the camera completes the session every time; only photos taken since the last
+	// completion are worth another (paid) selection request
+	const completedAt = session.completedAt;
+	const newPhotos = completedAt ? session.photos.filter(photo => photo.createdAt > completedAt) : session.photos;
+	if (completedAt && newPhotos.length === 0) return session;
+
+	let aiSelection = session.aiSelection;
+	if (provider && newPhotos.length > 0) {
+		try {
+			const photos = await photoService.getBySession(session.id);
+			const selection = await selectPhotos(photos, provider);
+			await applyPhotoSelection(photos, selection);
+			aiSelection = selection.selectedIds;
+		} catch (err) {
+			console.error('Photo selection failed:', err);
+		}
+	}
+
 	const updatedSession = {
 		...session,
+		aiSelection,
 		completedAt: new Date()
 	};
 
@@ -0,0 +1,16 @@
+import { writable } from 'svelte/store';
+import type { UserPoseTemplate } from '$lib/types';
+import { poseTemplateService } from '$lib/services/db';
+import { setUserPoseTemplates } from '$lib/data/poseTemplates';
+
+// User-authored pose templates, newest first
+export const userPoseTemplates = writable<UserPoseTemplate[]>([]);
+
+// Load from Dexie and register them with the template library, so lookups, category and
+// difficulty filters, shoot scripts and the recommendation engine see them like built-ins
+export async function loadUserPoseTemplates(): Promise<UserPoseTemplate[]> {
+	const templates = await poseTemplateService.getAll();
+	setUserPoseTemplates(templates);
+	userPoseTemplates.set(templates);
+	return templates;
+}
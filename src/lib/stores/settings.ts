@@ -1,11 +1,12 @@
 import { writable, derived, get } from 'svelte/store';
-import { settingsService, db } from '$lib/services/db';
-import type { AppSettings, ModelType, PresetStyle } from '$lib/types';
+import { settingsService, customStyleService, db } from '$lib/services/db';
+import type { AppSettings, CustomStyle, ModelType, PresetStyle } from '$lib/types';
 
 // Default settings
 const DEFAULT_SETTINGS: AppSettings = {
 	apiKey: '',
 	defaultModel: 'glm-4.6v-flash',
+	visionProvider: 'glm',
 	defaultStyle: null,
 	enableVibration: true,
 	enableGuideLines: true,
@@ -52,6 +53,7 @@ export const settings = createSettingsStore();
 // Derived stores for convenience
 export const apiKey = derived(settings, ($settings) => $settings.apiKey);
 export const defaultModel = derived(settings, ($settings) => $settings.defaultModel);
+export const visionProvider = derived(settings, ($settings) => $settings.visionProvider ?? 'glm');
 export const enableVibration = derived(settings, ($settings) => $settings.enableVibration);
 export const enableGuideLines = derived(settings, ($settings) => $settings.enableGuideLines);
 
@@ -93,3 +95,39 @@ export const presetStyles = writable(PRESET_STYLES);
 
 // Current selected style
 export const currentStyle = writable<PresetStyle | null>(null);
+
+// Learned styles, in the same shape as the presets so pickers and prompts treat them alike
+export const customStyles = writable<PresetStyle[]>([]);
+
+export function customStyleToPreset(style: CustomStyle): PresetStyle {
+	const { profile } = style;
+	return {
+		id: style.id,
+		name: style.name,
+		description: style.description || [profile.tone, profile.lighting, profile.mood].filter(Boolean).join('、') || null,
+		config: { ...style.config, custom: true, sampleCount: style.sampleCount },
+		profile
+	};
+}
+
+export async function loadCustomStyles(): Promise<PresetStyle[]> {
+	const styles = (await customStyleService.getAll()).map(customStyleToPreset);
+	customStyles.set(styles);
+	return styles;
+}
+
+// Select a preset or learned style (null for none) and remember it as the default
+export async function selectStyle(id: string | null): Promise<void> {
+	const style = id
+		? PRESET_STYLES.find(s => s.id === id) ?? get(customStyles).find(s => s.id === id) ?? null
+		: null;
+	currentStyle.set(style);
+	settings.set({ defaultStyle: style?.id ?? null });
+}
+
+// Restore the saved default style once settings and learned styles are loaded
+export async function restoreCurrentStyle(): Promise<void> {
+	const styles = await loadCustomStyles();
+	const id = get(settings).defaultStyle;
+	currentStyle.set(id ? PRESET_STYLES.find(s => s.id === id) ?? styles.find(s => s.id === id) ?? null : null);
+}
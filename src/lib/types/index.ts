@@ -1,3 +1,6 @@
+import type { AdjustmentSet, CropSettings, EditHistory, RotationSettings } from '$lib/utils/photoEditor';
+import type { PhotoMetadata } from '$lib/utils/cameraControls';
+
 // Supabase table types
 export interface Database {
 	public: {
@@ -33,10 +36,14 @@ export interface Database {
 					name: string;
 					profile: StyleProfile;
 					sample_count: number;
+					description: string | null; // 新增：风格编辑器中填写的说明
+					config: Record<string, unknown>; // 新增：与预设风格相同的配置表
 					created_at: string;
 					updated_at: string;
+					deleted_at: string | null; // 软删除（同步墓碑）
+					synced_at: string; // 新增：服务端写入时间（触发器维护），作为拉取游标
 				};
-				Insert: Omit<Database['public']['Tables']['custom_styles']['Row'], 'id' | 'created_at' | 'updated_at'>;
+				Insert: Omit<Database['public']['Tables']['custom_styles']['Row'], 'id' | 'created_at' | 'updated_at' | 'synced_at'>;
 				Update: Omit<Database['public']['Tables']['custom_styles']['Row'], 'id' | 'created_at' | 'updated_at'>;
 			};
 			sessions: {
@@ -49,9 +56,12 @@ export interface Database {
 					photo_count: number;
 					ai_selection: string[] | null;
 					user_feedback: Record<string, unknown> | null;
-					synced_at: string | null;
+					synced_at: string; // 服务端写入时间（触发器维护），作为拉取游标
+					updated_at: string; // 最后修改时间（同步时按此字段后写者胜）
+					deleted_at: string | null; // 软删除（同步墓碑）
+					shoot_script: SessionShootScript | null; // 新增：拍摄脚本进度
 				};
-				Insert: Omit<Database['public']['Tables']['sessions']['Row'], 'id' | 'started_at'>;
+				Insert: Omit<Database['public']['Tables']['sessions']['Row'], 'id' | 'started_at' | 'synced_at'>;
 				Update: Database['public']['Tables']['sessions']['Row'];
 			};
 			photos: {
@@ -63,10 +73,29 @@ export interface Database {
 					is_ai_selected: boolean;
 					is_user_selected: boolean | null;
 					created_at: string;
+					updated_at: string;
+					deleted_at: string | null;
+					synced_at: string; // 新增：服务端写入时间（触发器维护），作为拉取游标
 				};
-				Insert: Omit<Database['public']['Tables']['photos']['Row'], 'id' | 'created_at'>;
+				Insert: Omit<Database['public']['Tables']['photos']['Row'], 'id' | 'created_at' | 'synced_at'>;
 				Update: Database['public']['Tables']['photos']['Row'];
 			};
+			shoot_scripts: {
+				Row: {
+					id: string;
+					user_id: string;
+					name: string;
+					description: string | null;
+					steps: ShootScriptStep[];
+					accuracy_threshold: number | null;
+					created_at: string;
+					updated_at: string;
+					deleted_at: string | null; // 软删除（同步墓碑）
+					synced_at: string; // 新增：服务端写入时间（触发器维护），作为拉取游标
+				};
+				Insert: Omit<Database['public']['Tables']['shoot_scripts']['Row'], 'id' | 'created_at' | 'updated_at' | 'synced_at'>;
+				Update: Omit<Database['public']['Tables']['shoot_scripts']['Row'], 'id' | 'created_at' | 'updated_at'>;
+			};
 		};
 	};
 }
@@ -95,11 +124,31 @@ export interface Photo {
 	id: string;
 	sessionId: string;
 	blob: Blob;
-	thumbnail?: string;
+	thumbnail?: string; // 缩略图 data URL（长边 256），历史记录网格使用
+	preview?: Blob; // 新增：中等尺寸预览图（长边 1280），仅本机生成
 	analysis?: PhotoAnalysis;
 	isAiSelected?: boolean;
 	isUserSelected?: boolean;
+	metadata?: PhotoMetadata; // 拍摄参数（连拍评分及被淘汰帧的评分、HDR 曝光等）
+	storagePath?: string; // 云端存储路径（已上传时）
+	exportedAt?: Date | null; // 新增：最后一次导出（保存到相册或备份）的时间，仅本机
+	downscaledAt?: Date | null; // 新增：原图按保留策略缩小的时间
 	createdAt: Date;
+	updatedAt?: Date; // 最后修改时间（云同步用）
+	syncedAt?: Date | null; // 最后一次同步时的 updatedAt，二者不同说明有未同步的修改
+}
+
+// 照片的非破坏性编辑记录（原图 blob 保持不变）
+export interface PhotoEdit {
+	photoId: string; // 对应 Photo.id，每张照片一条记录
+	adjustments: AdjustmentSet;
+	filterId?: string;
+	crop?: CropSettings;
+	rotation?: RotationSettings;
+	history: EditHistory[]; // 编辑历史栈（撤销/重做）
+	historyIndex: number;
+	rendition?: Blob; // 渲染结果缓存，配方变化时清空，查看时按需重新渲染
+	updatedAt: Date;
 }
 
 export interface Session {
@@ -110,6 +159,54 @@ export interface Session {
 	photos: Photo[];
 	aiSelection: string[] | null;
 	userFeedback: Record<string, unknown> | null;
+	shootScript?: SessionShootScript | null; // 新增：按拍摄脚本拍摄时的进度，记录每张照片对应的姿势
+	updatedAt?: Date;
+	syncedAt?: Date | null;
+}
+
+// 拍摄脚本：按顺序引导完成的一组姿势（如"公园约会"六连拍）
+export interface ShootScript {
+	id: string;
+	name: string;
+	description?: string | null;
+	steps: ShootScriptStep[];
+	accuracyThreshold?: number | null; // 进入下一镜所需的姿势准确度（0-100），为空时使用默认值
+	createdAt: Date;
+	updatedAt: Date; // 最后修改时间（云同步用）
+	syncedAt?: Date | null;
+}
+
+export interface ShootScriptStep {
+	poseId: string; // 姿势模板 id（内置模板的 key 或用户模板的 id）
+	note?: string; // 这一镜的补充说明，如"坐在长椅上"
+}
+
+// 会话中的脚本进度
+export interface SessionShootScript {
+	scriptId: string;
+	name: string;
+	poseIds: string[]; // 开始拍摄时脚本的姿势顺序
+	shots: ShootScriptShot[];
+}
+
+export interface ShootScriptShot {
+	photoId: string;
+	stepIndex: number;
+	poseId: string;
+	accuracy: number | null; // 拍摄时的姿势准确度（0-100），未检测到人时为空
+}
+
+// 用户自定义风格（从照片学习得到的风格画像）
+export interface CustomStyle {
+	id: string;
+	name: string;
+	profile: StyleProfile;
+	sampleCount: number;
+	description?: string | null; // 新增：用户编辑的风格说明
+	config?: Record<string, unknown>; // 新增：与 PresetStyle.config 相同的配置表
+	createdAt: Date;
+	updatedAt: Date;
+	syncedAt?: Date | null;
 }
 
 export interface AISuggestion {
@@ -136,19 +233,70 @@ export interface PresetStyle {
 	name: string;
 	description: string | null;
 	config: Record<string, unknown>;
+	profile?: StyleProfile; // 新增：学习得到的自定义风格附带完整风格画像
+}
+
+// 视觉模型服务商（mock 为离线开发用的录制数据回放）
+export type VisionProviderId = 'glm' | 'openai' | 'mock';
+
+// 每个服务商可用的模型（OpenAI 兼容服务的模型名由用户自定义，如 Ollama 的 llava）
+export interface ProviderModels {
+	glm: 'glm-4v' | 'glm-4.5v' | 'glm-4.6v' | 'glm-4.6v-flash' | 'glm-4.6v-flashx';
+	openai: string;
+	mock: 'fixtures';
 }
 
-export type ModelType = 'glm-4.6v' | 'glm-4.6v-flash' | 'glm-4.6v-flashx';
+export type ModelType<P extends VisionProviderId = VisionProviderId> = ProviderModels[P];
 
 export interface AppSettings {
 	apiKey: string;
 	defaultModel: ModelType;
+	visionProvider?: VisionProviderId; // 新增：视觉模型服务商，默认 glm
+	providerBaseUrl?: string; // 新增：OpenAI 兼容服务的地址（如 http://localhost:11434/v1）
 	defaultStyle: string | null;
 	enableVibration: boolean;
 	enableGuideLines: boolean;
 	hasSeenOnboarding: boolean;
 	enablePoseGuide?: boolean; // 新增：是否启用AI姿态指导
 	enableVoiceCoach?: boolean; // 新增：是否启用语音教练
+	enableStreaming?: boolean; // 新增：流式接收AI响应（默认开启）
+	enableLocalPoseDetection?: boolean; // 新增：设备端实时姿态检测（默认开启）
+	enableCloudSync?: boolean; // 新增：云同步（Supabase）
+	supabaseUrl?: string; // 新增：Supabase 项目地址
+	supabaseAnonKey?: string; // 新增：Supabase anon key
+	syncDeviceId?: string; // 新增：本机匿名 ID（对应 users.anonymous_id）
+	retentionPolicy?: RetentionPolicy; // 新增：存储保留策略
+	autoShutter?: AutoShutterSettings; // 新增：姿态自动快门
+	gestureCommands?: GestureCommandSettings; // 新增：手势遥控
+}
+
+// 手势遥控：剪刀手开始 3 秒倒计时，张开手掌取消，竖大拇指确认目标姿势
+export interface GestureCommandSettings {
+	enabled: boolean;
+	holdMs: number; // 手势需保持的时长（毫秒）
+	debounceMs: number; // 两次指令之间的最短间隔（毫秒）
+	minConfidence: Record<CommandGesture, number>; // 各手势的最低置信度（0-1）
+}
+
+export type CommandGesture = 'peace_sign' | 'open_palm' | 'thumbs_up';
+
+// 姿态自动快门：姿势对准并保持稳定后自动拍照
+export interface AutoShutterSettings {
+	enabled: boolean;
+	accuracyThreshold: number; // 姿态准确度阈值（0-100）
+	stableMs: number; // 达到阈值后需保持稳定的时长（毫秒）
+	cooldownMs: number; // 两次自动拍摄之间的最短间隔（毫秒）
+	burstCount: number; // 1 为单张，大于 1 时连拍并保留最佳一张
+	countdownSeconds: number; // 拍摄前倒计时秒数，0 为立即拍摄
+	spokenCountdown: boolean; // 语音播报倒计时
+}
+
+// 存储保留策略（null 表示不启用该规则）
+export interface RetentionPolicy {
+	autoEnforce: boolean; // 每天自动执行一次
+	keepSelectedOnlyAfterDays: number | null; // 超过 N 天只保留 AI/用户选中的照片
+	maxTotalBytes: number | null; // 照片总大小上限，超出时从最旧的未选中照片开始删除
+	downscaleExportedMaxSide: number | null; // 已导出的原图缩小到该长边像素
 }
 
 // 骨架关键点定义（基于MediaPipe格式）
@@ -175,6 +323,14 @@ export interface Pose {
 	left_wrist?: PoseKeypoint;
 	right_wrist?: PoseKeypoint;
 
+	// 手部（BlazePose 只提供小指、食指根部和拇指，用于手势识别，姿势模板不使用）
+	left_pinky?: PoseKeypoint;
+	right_pinky?: PoseKeypoint;
+	left_index?: PoseKeypoint;
+	right_index?: PoseKeypoint;
+	left_thumb?: PoseKeypoint;
+	right_thumb?: PoseKeypoint;
+
 	// 下半身
 	left_hip?: PoseKeypoint;
 	right_hip?: PoseKeypoint;
@@ -184,6 +340,27 @@ export interface Pose {
 	right_ankle?: PoseKeypoint;
 }
 
+// 姿势模板：内置模板与用户自定义模板共用同一结构
+export type PoseCategory = 'portrait' | 'casual' | 'artistic' | 'couple';
+
+export interface PoseTemplate {
+	id: string;
+	name: string;
+	description: string;
+	difficulty: number; // 难度 1-5
+	category: PoseCategory;
+	pose: Pose; // 目标骨架（0-1 归一化坐标）
+	tips: string[];
+	steps: string[]; // 分步指导
+	commonMistakes: Array<{ mistake: string; correction: string }>;
+}
+
+// 新增：用户自定义姿势模板（存在本地数据库）
+export interface UserPoseTemplate extends PoseTemplate {
+	createdAt: Date;
+	updatedAt: Date;
+}
+
 // AI姿态指导（增强版）
 export interface PoseGuide {
 	target_pose: Pose; // 目标骨架（建议的姿势）
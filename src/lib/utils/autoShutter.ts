@@ -0,0 +1,158 @@
+import type { AutoShutterSettings, Pose } from '$lib/types';
+import { calculatePoseAccuracy } from '$lib/data/poseTemplates';
+import { calculatePoseStability } from '$lib/utils/poseSmoothing';
+
+/**
+ * Pose-triggered auto-shutter
+ * Fed every smoothed on-device pose. The pose is scored against the target pose on screen (AI
+ * guide, script step or reference photo); without one it stays idle, since there is nothing to
+ * match. Once the score stays above the threshold and the subject holds still for stableMs, a
+ * countdown runs and a capture is requested.
+ * A cooldown follows every capture so one pose does not fire the shutter repeatedly.
+ */
+
+export const DEFAULT_AUTO_SHUTTER_SETTINGS: AutoShutterSettings = {
+	enabled: false,
+	accuracyThreshold: 80,
+	stableMs: 1000,
+	cooldownMs: 5000,
+	burstCount: 1,
+	countdownSeconds: 3,
+	spokenCountdown: true
+};
+
+// Stability is measured over the poses of this trailing window
+const STABILITY_WINDOW_MS = 500;
+const MIN_STABILITY = 0.9;
+// During the countdown the score may dip this far below the threshold before it is cancelled
+const COUNTDOWN_HYSTERESIS = 10;
+
+export interface AutoShutterTrigger {
+	accuracy: number; // 0-100 when the pose was held long enough
+	stability: number; // 0-1
+	targetPose?: Pose; // Target that was matched
+	triggeredAt: number; // Epoch ms
+}
+
+export type AutoShutterPhase = 'idle' | 'holding' | 'countdown' | 'capturing' | 'cooldown';
+
+export type AutoShutterEvent =
+	| { type: 'countdown'; secondsLeft: number }
+	| { type: 'capture'; trigger: AutoShutterTrigger }
+	| { type: 'cancelled' };
+
+export interface AutoShutterStatus {
+	phase: AutoShutterPhase;
+	accuracy: number | null; // Latest score; null without a pose or a target
+}
+
+export class AutoShutterController {
+	private settings: AutoShutterSettings;
+	private phase: AutoShutterPhase = 'idle';
+	private samples: Array<{ pose: Pose; time: number }> = [];
+	private holdingSince: number | null = null;
+	private countdownEndsAt = 0;
+	private lastAnnounced = 0;
+	private cooldownUntil = 0;
+	private accuracy: number | null = null;
+	private trigger: AutoShutterTrigger | null = null;
+
+	constructor(settings: Partial<AutoShutterSettings> = {}) {
+		this.settings = { ...DEFAULT_AUTO_SHUTTER_SETTINGS, ...settings };
+	}
+
+	updateSettings(settings: Partial<AutoShutterSettings>): void {
+		this.settings = { ...this.settings, ...settings };
+	}
+
+	get status(): AutoShutterStatus {
+		return { phase: this.phase, accuracy: this.accuracy };
+	}
+
+	// Feed one pose sample (null when nobody is detected); `target` is the target pose on screen, if any
+	update(pose: Pose | null, target: Pose | null, now: number): AutoShutterEvent | null {
+		if (this.phase === 'capturing') return null;
+		if (this.phase === 'cooldown') {
+			if (now < this.cooldownUntil) return null;
+			this.phase = 'idle';
+		}
+
+		if (!pose || !target) {
+			this.samples = [];
+			this.accuracy = null;
+			return this.release();
+		}
+
+		this.samples.push({ pose, time: now });
+		this.samples = this.samples.filter(sample => now - sample.time <= STABILITY_WINDOW_MS);
+		const accuracy = calculatePoseAccuracy(target, pose);
+		this.accuracy = accuracy;
+		const { accuracyThreshold, stableMs, countdownSeconds } = this.settings;
+
+		if (this.phase === 'countdown') {
+			if (accuracy < accuracyThreshold - COUNTDOWN_HYSTERESIS) return this.release();
+			if (now >= this.countdownEndsAt) return this.capture(now);
+			const secondsLeft = Math.ceil((this.countdownEndsAt - now) / 1000);
+			if (secondsLeft === this.lastAnnounced) return null;
+			this.lastAnnounced = secondsLeft;
+			return { type: 'countdown', secondsLeft };
+		}
+
+		const stability = calculatePoseStability(this.samples.map(sample => sample.pose)).overall;
+		if (accuracy < accuracyThreshold || this.samples.length < 2 || stability < MIN_STABILITY) {
+			return this.release();
+		}
+
+		this.holdingSince ??= now;
+		this.phase = 'holding';
+		if (now - this.holdingSince < stableMs) return null;
+
+		this.trigger = { accuracy, stability, targetPose: target, triggeredAt: Date.now() };
+		if (countdownSeconds <= 0) return this.capture(now);
+
+		this.phase = 'countdown';
+		this.countdownEndsAt = now + countdownSeconds * 1000;
+		this.lastAnnounced = countdownSeconds;
+		return { type: 'countdown', secondsLeft: countdownSeconds };
+	}
+
+	// Call when the requested capture finished (or failed) to start the cooldown
+	captureDone(now: number): void {
+		this.phase = 'cooldown';
+		this.cooldownUntil = now + this.settings.cooldownMs;
+		this.holdingSince = null;
+		this.samples = [];
+		this.trigger = null;
+	}
+
+	// Abort a running countdown; the cooldown keeps the same pose from re-arming straight away
+	cancel(now: number): void {
+		this.captureDone(now);
+	}
+
+	reset(): void {
+		this.phase = 'idle';
+		this.samples = [];
+		this.holdingSince = null;
+		this.accuracy = null;
+		this.trigger = null;
+		this.cooldownUntil = 0;
+	}
+
+	private capture(now: number): AutoShutterEvent {
+		this.phase = 'capturing';
+		const trigger = this.trigger ?? { accuracy: this.accuracy ?? 0, stability: 1, triggeredAt: Date.now() };
+		this.trigger = null;
+		this.holdingSince = now;
+		return { type: 'capture', trigger };
+	}
+
+	// Back to idle; reports a cancellation when a countdown was running
+	private release(): AutoShutterEvent | null {
+		const wasCountingDown = this.phase === 'countdown';
+		this.phase = 'idle';
+		this.holdingSince = null;
+		this.trigger = null;
+		return wasCountingDown ? { type: 'cancelled' } : null;
+	}
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createPixelBuffer, type PixelBuffer } from '$lib/utils/imagePipeline';
+import type { CapturedPhoto } from '$lib/utils/cameraControls';
+
+// Decoding needs a canvas; the tests hand the ranker the frames behind each blob directly
+const decoded = new Map<Blob, PixelBuffer>();
+vi.mock('$lib/utils/imagePipeline', async importOriginal => ({
+	...(await importOriginal<typeof import('$lib/utils/imagePipeline')>()),
+	decodePixels: async (blob: Blob) => decoded.get(blob)!
+}));
+
+const { measureFrameQuality, rankBurst, scoreBurstFrames } = await import('$lib/utils/burstRanker');
+
+const SIZE = 32;
+
+// Deterministic fine texture in the mid-tones
+function sharpFrame(): PixelBuffer {
+	const pixels = createPixelBuffer(SIZE, SIZE);
+	let seed = 7;
+	for (let p = 0; p < SIZE * SIZE; p++) {
+		seed = (seed * 1103515245 + 12345) >>> 0;
+		const value = 60 + (seed >>> 24) / 2;
+		pixels.data.set([value, value, value, 255], p * 4);
+	}
+	return pixels;
+}
+
+// Box blur over `radius` pixels along x, and along y too unless `horizontalOnly`
+function blurred(source: PixelBuffer, radius: number, horizontalOnly = false): PixelBuffer {
+	const out = createPixelBuffer(SIZE, SIZE);
+	const ry = horizontalOnly ? 0 : radius;
+	for (let y = 0; y < SIZE; y++) {
+		for (let x = 0; x < SIZE; x++) {
+			let sum = 0;
+			let count = 0;
+			for (let dy = -ry; dy <= ry; dy++) {
+				for (let dx = -radius; dx <= radius; dx++) {
+					const sx = Math.min(SIZE - 1, Math.max(0, x + dx));
+					const sy = Math.min(SIZE - 1, Math.max(0, y + dy));
+					sum += source.data[(sy * SIZE + sx) * 4];
+					count++;
+				}
+			}
+			const value = sum / count;
+			out.data.set([value, value, value, 255], (y * SIZE + x) * 4);
+		}
+	}
+	return out;
+}
+
+// The top `share` of the frame blown out to white
+function clipped(source: PixelBuffer, share: number): PixelBuffer {
+	const out = { ...source, data: new Uint8ClampedArray(source.data) };
+	out.data.fill(255, 0, Math.round(SIZE * share) * SIZE * 4);
+	return out;
+}
+
+function capture(id: string, pixels: PixelBuffer): CapturedPhoto {
+	const blob = new Blob([id], { type: 'image/jpeg' });
+	decoded.set(blob, pixels);
+	return { id, blob, url: '', timestamp: 0, metadata: { width: SIZE, height: SIZE } };
+}
+
+describe('measureFrameQuality', () => {
+	it('measures less detail in a blurred frame', () => {
+		const sharp = measureFrameQuality(sharpFrame());
+		const soft = measureFrameQuality(blurred(sharpFrame(), 1));
+		expect(soft.laplacianVariance).toBeLessThan(sharp.laplacianVariance / 4);
+	});
+
+	it('reads one-directional blur as motion blur', () => {
+		const sharp = measureFrameQuality(sharpFrame());
+		const streaked = measureFrameQuality(blurred(sharpFrame(), 3, true));
+		expect(streaked.motionBlur).toBeGreaterThan(0.5);
+		expect(streaked.motionBlur).toBeGreaterThan(sharp.motionBlur);
+	});
+
+	it('counts blown-out pixels as clipping', () => {
+		expect(measureFrameQuality(sharpFrame()).clipping).toBe(0);
+		expect(measureFrameQuality(clipped(sharpFrame(), 0.5)).clipping).toBeCloseTo(0.5);
+	});
+});
+
+describe('scoreBurstFrames', () => {
+	it('ranks a blurred frame below a sharp one', () => {
+		const qualities = [measureFrameQuality(blurred(sharpFrame(), 1)), measureFrameQuality(sharpFrame())];
+		const [soft, sharp] = scoreBurstFrames(['soft', 'sharp'], qualities, [undefined, undefined]);
+		expect(sharp.sharpness).toBe(1);
+		expect(soft.total).toBeLessThan(sharp.total);
+	});
+
+	it('penalizes clipping', () => {
+		const quality = measureFrameQuality(sharpFrame());
+		const [clean, blown] = scoreBurstFrames(['clean', 'blown'], [quality, { ...quality, clipping: 0.2 }], [undefined, undefined]);
+		expect(blown.total).toBeLessThan(clean.total);
+		expect(blown.total).toBeCloseTo(clean.total - 0.15 / 0.75);
+	});
+
+	it('leaves pose stability out without poses', () => {
+		const [score] = scoreBurstFrames(['only'], [measureFrameQuality(sharpFrame())], [undefined]);
+		expect(score.poseStability).toBeNull();
+	});
+});
+
+describe('rankBurst', () => {
+	it('keeps the best frame and records the rejected ones on it', async () => {
+		const photos = [
+			capture('soft', blurred(sharpFrame(), 1)),
+			capture('sharp', sharpFrame()),
+			capture('blown', clipped(sharpFrame(), 0.5))
+		];
+		const ranking = await rankBurst(photos, { keep: 1 });
+
+		expect(ranking.kept.map(photo => photo.id)).toEqual(['sharp']);
+		expect(ranking.rejected.map(photo => photo.id).sort()).toEqual(['blown', 'soft']);
+		expect(ranking.scores.map(score => score.burstIndex)).toEqual([0, 1, 2]);
+
+		const { burstScore, burstRejected } = ranking.kept[0].metadata;
+		expect(burstScore?.photoId).toBe('sharp');
+		expect(burstRejected?.map(score => score.photoId).sort()).toEqual(['blown', 'soft']);
+	});
+
+	it('returns nothing for an empty burst', async () => {
+		expect(await rankBurst([])).toEqual({ kept: [], rejected: [], scores: [] });
+	});
+});
@@ -0,0 +1,195 @@
+import type { Pose } from '$lib/types';
+import type { CapturedPhoto } from '$lib/utils/cameraControls';
+import { decodePixels, type PixelBuffer } from '$lib/utils/imagePipeline';
+import { calculatePoseStability } from '$lib/utils/poseSmoothing';
+
+/**
+ * Local burst ranking
+ * Scores every frame of a burst on-device (no network, no AI call) and keeps the best ones
+ * before anything is written to the database, so a burst of 10 leaves one or two good photos.
+ */
+
+// Raw per-frame measurements, independent of the rest of the burst
+export interface FrameQuality {
+	laplacianVariance: number; // Focus / fine detail; higher is sharper
+	motionBlur: number; // Gradient anisotropy (0-1); streaks along one direction read close to 1
+	clipping: number; // Share of pixels crushed to black or blown to white (0-1)
+}
+
+export interface BurstFrameScore {
+	photoId: string;
+	burstIndex: number;
+	sharpness: number; // Laplacian variance relative to the sharpest frame of the burst (0-1)
+	motionBlur: number;
+	clipping: number;
+	poseStability: number | null; // calculatePoseStability around this frame, null without poses
+	total: number; // Weighted score (0-1)
+}
+
+export interface BurstRankerConfig {
+	keep: number; // Top-k frames to keep
+	analysisSize: number; // Frames are scored at this long side
+	weights: {
+		sharpness: number;
+		motionBlur: number;
+		clipping: number;
+		poseStability: number;
+	};
+	poseWindow: number; // Frames on each side used for pose stability
+}
+
+export const DEFAULT_BURST_RANKER: BurstRankerConfig = {
+	keep: 1,
+	analysisSize: 256,
+	weights: {
+		sharpness: 0.4,
+		motionBlur: 0.2,
+		clipping: 0.15,
+		poseStability: 0.25
+	},
+	poseWindow: 1
+};
+
+export interface BurstRanking {
+	kept: CapturedPhoto[]; // Best first
+	rejected: CapturedPhoto[];
+	scores: BurstFrameScore[]; // In burst order
+}
+
+function toGray(pixels: PixelBuffer): Float32Array {
+	const { data, width, height } = pixels;
+	const gray = new Float32Array(width * height);
+	for (let p = 0; p < gray.length; p++) {
+		gray[p] = 0.2126 * data[p * 4] + 0.7152 * data[p * 4 + 1] + 0.0722 * data[p * 4 + 2];
+	}
+	return gray;
+}
+
+export function measureFrameQuality(pixels: PixelBuffer): FrameQuality {
+	const { data, width, height } = pixels;
+	const gray = toGray(pixels);
+
+	// Variance of the 4-neighbour Laplacian over the interior
+	let lapSum = 0;
+	let lapSqSum = 0;
+	// Structure tensor sums for blur direction
+	let jxx = 0;
+	let jyy = 0;
+	let jxy = 0;
+	let interior = 0;
+
+	for (let y = 1; y < height - 1; y++) {
+		for (let x = 1; x < width - 1; x++) {
+			const p = y * width + x;
+			const lap = gray[p - width] + gray[p + width] + gray[p - 1] + gray[p + 1] - 4 * gray[p];
+			lapSum += lap;
+			lapSqSum += lap * lap;
+
+			const gx = (gray[p + 1] - gray[p - 1]) / 2;
+			const gy = (gray[p + width] - gray[p - width]) / 2;
+			jxx += gx * gx;
+			jyy += gy * gy;
+			jxy += gx * gy;
+			interior++;
+		}
+	}
+
+	const lapMean = interior > 0 ? lapSum / interior : 0;
+	const laplacianVariance = interior > 0 ? lapSqSum / interior - lapMean * lapMean : 0;
+
+	// Motion blur smears gradients along the motion, leaving one dominant gradient direction
+	const trace = jxx + jyy;
+	const delta = Math.sqrt((jxx - jyy) * (jxx - jyy) + 4 * jxy * jxy);
+	const motionBlur = trace > 0 ? delta / trace : 0;
+
+	let clipped = 0;
+	for (let p = 0; p < gray.length; p++) {
+		const r = data[p * 4];
+		const g = data[p * 4 + 1];
+		const b = data[p * 4 + 2];
+		if ((r >= 254 && g >= 254 && b >= 254) || (r <= 1 && g <= 1 && b <= 1)) {
+			clipped++;
+		}
+	}
+
+	return {
+		laplacianVariance,
+		motionBlur,
+		clipping: gray.length > 0 ? clipped / gray.length : 0
+	};
+}
+
+// Score a burst from its measurements; poses[i] is the pose detected at frame i (if any)
+export function scoreBurstFrames(
+	photoIds: string[],
+	qualities: FrameQuality[],
+	poses: Array<Pose | undefined>,
+	config: BurstRankerConfig = DEFAULT_BURST_RANKER
+): BurstFrameScore[] {
+	const maxVariance = Math.max(...qualities.map(q => q.laplacianVariance), 1e-6);
+	const { weights } = config;
+
+	return qualities.map((quality, i) => {
+		// Stability of the subject across this frame and its neighbours
+		const window = poses
+			.slice(Math.max(0, i - config.poseWindow), i + config.poseWindow + 1)
+			.filter((pose): pose is Pose => !!pose && Object.keys(pose).length > 0);
+		const poseStability = poses[i] && window.length >= 2 ? calculatePoseStability(window).overall : null;
+
+		const sharpness = quality.laplacianVariance / maxVariance;
+		// Losing a tenth of the frame to clipping already counts as fully clipped
+		const clippingScore = 1 - Math.min(1, quality.clipping * 10);
+
+		let total = weights.sharpness * sharpness + weights.motionBlur * (1 - quality.motionBlur) + weights.clipping * clippingScore;
+		let weightSum = weights.sharpness + weights.motionBlur + weights.clipping;
+		if (poseStability !== null) {
+			total += weights.poseStability * poseStability;
+			weightSum += weights.poseStability;
+		}
+
+		return {
+			photoId: photoIds[i],
+			burstIndex: i,
+			sharpness,
+			motionBlur: quality.motionBlur,
+			clipping: quality.clipping,
+			poseStability,
+			total: weightSum > 0 ? total / weightSum : 0
+		};
+	});
+}
+
+// Rank a captured burst; kept photos carry their own score and the scores of the rejected frames
+export async function rankBurst(photos: CapturedPhoto[], config: Partial<BurstRankerConfig> = {}): Promise<BurstRanking> {
+	const rankerConfig = { ...DEFAULT_BURST_RANKER, ...config };
+	if (photos.length === 0) {
+		return { kept: [], rejected: [], scores: [] };
+	}
+
+	const qualities: FrameQuality[] = [];
+	for (const photo of photos) {
+		qualities.push(measureFrameQuality(await decodePixels(photo.blob, rankerConfig.analysisSize)));
+	}
+
+	const scores = scoreBurstFrames(
+		photos.map(photo => photo.id),
+		qualities,
+		photos.map(photo => photo.metadata.pose),
+		rankerConfig
+	);
+
+	const order = scores.map((_, i) => i).sort((a, b) => scores[b].total - scores[a].total);
+	const keep = Math.max(1, Math.min(rankerConfig.keep, photos.length));
+	const keptIndices = order.slice(0, keep);
+	const rejectedScores = order.slice(keep).map(i => scores[i]);
+
+	const kept = keptIndices.map(i => {
+		const photo = photos[i];
+		photo.metadata.burstScore = scores[i];
+		photo.metadata.burstRejected = rejectedScores;
+		return photo;
+	});
+	const rejected = order.slice(keep).map(i => photos[i]);
+
+	return { kept, rejected, scores };
+}
@@ -1,3 +1,10 @@
+import type { Pose } from '$lib/types';
+import { decodePixels, encodePixels } from '$lib/utils/imagePipeline';
+import { fuseExposures, simulateExposure } from '$lib/utils/exposureFusion';
+import { rankBurst, type BurstFrameScore } from '$lib/utils/burstRanker';
+import type { AutoShutterTrigger } from '$lib/utils/autoShutter';
+import type { ReferenceMatchScore } from '$lib/utils/referencePose';
+
 /**
  * Advanced camera controls
  * Timer, burst mode, HDR, and other advanced camera features
@@ -14,14 +21,41 @@ export interface BurstConfig {
 	enabled: boolean;
 	count: number; // number of photos
 	interval: number; // milliseconds between shots
+	keepBest?: number; // Rank the frames locally and return only the best k (rest are discarded)
 	onProgress?: (taken: number, total: number) => void;
-	onComplete?: (photos: string[]) => void;
+	onComplete?: (photos: CapturedPhoto[]) => void;
 }
 
 export interface HDRConfig {
 	enabled: boolean;
 	exposures: number[]; // exposure compensation values
+	// 'average' blends per pixel; 'auto' and 'smart' blend in a Laplacian pyramid (no seams)
 	mergeStrategy: 'auto' | 'average' | 'smart';
+	settleMs?: number; // Wait after changing exposure so the sensor catches up
+}
+
+// How the bracketed frames were produced
+// compensation: exposureCompensation constraint; exposureTime: manual shutter scaled by 2^EV;
+// simulated: one frame re-exposed in software (camera offers no exposure control)
+export type ExposureControl = 'compensation' | 'exposureTime' | 'simulated';
+
+export interface HDRMetadata {
+	exposures: number[]; // EV of each source frame, as actually applied
+	exposureControl: ExposureControl;
+	mergeStrategy: HDRConfig['mergeStrategy'];
+}
+
+// Exposure-related capabilities; not yet in the DOM typings
+interface ExposureCapabilities {
+	exposureCompensation?: { min: number; max: number; step: number };
+	exposureTime?: { min: number; max: number; step: number };
+	exposureMode?: string[];
+}
+
+interface ExposureSettings {
+	exposureCompensation?: number;
+	exposureTime?: number;
+	exposureMode?: string;
 }
 
 export interface PhotoCaptureOptions {
@@ -47,9 +81,15 @@ export interface PhotoMetadata {
 	exposure?: number;
 	iso?: number;
 	flash?: string;
-	hdr?: boolean;
+	hdr?: HDRMetadata; // Set on merged HDR photos
+	hdrSource?: boolean; // Bracketed frame that went into an HDR merge
 	burstIndex?: number;
+	burstScore?: BurstFrameScore; // Ranking score of this frame within its burst
+	burstRejected?: BurstFrameScore[]; // Scores of the burst frames that were discarded
+	pose?: Pose; // Pose detected when the frame was taken (burst pose stability)
 	timerDelay?: number;
+	autoShutter?: AutoShutterTrigger; // Set when the pose-triggered auto-shutter took the photo
+	referenceMatch?: Omit<ReferenceMatchScore, 'hints'>; // Match against the reference photo being recreated
 }
 
 // Camera controls manager
@@ -58,6 +98,12 @@ export class CameraControlsManager {
 	private currentBurstPhotos: CapturedPhoto[] = [];
 	private timerInterval: ReturnType<typeof setInterval> | null = null;
 	private burstTimeout: ReturnType<typeof setTimeout> | null = null;
+	private videoTrack: MediaStreamTrack | null = null;
+
+	// Camera track whose exposure is driven during HDR bracketing
+	setVideoTrack(track: MediaStreamTrack | null): void {
+		this.videoTrack = track;
+	}
 
 	// Timer countdown
 	async startTimer(config: TimerConfig, captureFn: () => Promise<CapturedPhoto>): Promise<CapturedPhoto> {
@@ -147,6 +193,16 @@ export class CameraControlsManager {
 		}
 
 		this.isCapturing = false;
+
+		// Pick the keepers before the caller persists anything
+		if (config.keepBest && photos.length > config.keepBest) {
+			const ranking = await rankBurst(photos, { keep: config.keepBest });
+			ranking.rejected.forEach(photo => URL.revokeObjectURL(photo.url));
+			this.currentBurstPhotos = ranking.kept;
+			config.onComplete?.(ranking.kept);
+			return ranking.kept;
+		}
+
 		config.onComplete?.(photos);
 
 		return photos;
@@ -163,62 +219,177 @@ export class CameraControlsManager {
 		}
 	}
 
-	// HDR capture
+	// HDR capture: bracket the exposures, then fuse them into one photo
 	async captureHDR(
 		config: HDRConfig,
 		captureFn: (exposure?: number) => Promise<CapturedPhoto>
-	): Promise<CapturedPhoto[]> {
+	): Promise<CapturedPhoto> {
 		if (!config.enabled || config.exposures.length === 0) {
-			const photo = await captureFn();
-			return [photo];
+			return captureFn();
 		}
 
 		this.isCapturing = true;
+		try {
+			const control = this.getExposureControl();
+			const frames = control === 'simulated'
+				? await this.simulateBracket(config, captureFn)
+				: await this.captureBracket(config, control, captureFn);
+
+			if (frames.length === 0) {
+				throw new Error('HDR capture failed: no frames captured');
+			}
+			if (frames.length === 1) {
+				return frames[0];
+			}
+			return await this.mergeHDRPhotos(frames, config.mergeStrategy, control);
+		} finally {
+			this.isCapturing = false;
+		}
+	}
+
+	// Which exposure control the current track supports
+	private getExposureControl(): ExposureControl {
+		const track = this.videoTrack;
+		if (!track || track.readyState !== 'live' || typeof track.getCapabilities !== 'function') {
+			return 'simulated';
+		}
+
+		const capabilities = track.getCapabilities() as ExposureCapabilities;
+		const settings = track.getSettings() as ExposureSettings;
+		if (capabilities.exposureCompensation && capabilities.exposureCompensation.max > capabilities.exposureCompensation.min) {
+			return 'compensation';
+		}
+		if (capabilities.exposureTime && capabilities.exposureMode?.includes('manual') && settings.exposureTime) {
+			return 'exposureTime';
+		}
+		return 'simulated';
+	}
+
+	// Drive the track to each exposure and capture; the original exposure is restored afterwards
+	private async captureBracket(
+		config: HDRConfig,
+		control: ExposureControl,
+		captureFn: (exposure?: number) => Promise<CapturedPhoto>
+	): Promise<CapturedPhoto[]> {
+		const track = this.videoTrack!;
+		const capabilities = track.getCapabilities() as ExposureCapabilities;
+		const original = track.getSettings() as ExposureSettings;
 		const photos: CapturedPhoto[] = [];
 
-		// Capture at different exposure levels
-		for (const exposure of config.exposures) {
-			try {
-				const photo = await captureFn(exposure);
-				photo.metadata.hdr = true;
-				photos.push(photo);
-			} catch (error) {
-				console.error(`HDR capture at ${exposure}EV failed:`, error);
+		try {
+			for (const exposure of config.exposures) {
+				try {
+					let applied = exposure;
+					if (control === 'compensation') {
+						const range = capabilities.exposureCompensation!;
+						applied = this.clampToRange(exposure, range);
+						await track.applyConstraints({ advanced: [{ exposureCompensation: applied } as MediaTrackConstraintSet] });
+					} else {
+						// Shutter time scales linearly with exposure, so report the EV it really reached
+						const range = capabilities.exposureTime!;
+						const base = original.exposureTime!;
+						const time = this.clampToRange(base * Math.pow(2, exposure), range);
+						applied = Math.log2(time / base);
+						await track.applyConstraints({ advanced: [{ exposureMode: 'manual', exposureTime: time } as MediaTrackConstraintSet] });
+					}
+
+					await this.delay(config.settleMs ?? 300);
+					const photo = await captureFn(applied);
+					photo.metadata.exposure = applied;
+					photo.metadata.hdrSource = true;
+					photos.push(photo);
+				} catch (error) {
+					console.error(`HDR capture at ${exposure}EV failed:`, error);
+				}
 			}
+		} finally {
+			await this.restoreExposure(track, original);
 		}
 
-		this.isCapturing = false;
+		return photos;
+	}
 
-		// Merge HDR photos if needed
-		if (photos.length > 1 && config.mergeStrategy !== 'auto') {
-			return this.mergeHDRPhotos(photos, config.mergeStrategy);
+	private async restoreExposure(track: MediaStreamTrack, original: ExposureSettings): Promise<void> {
+		const restore: ExposureSettings = {};
+		if (original.exposureCompensation !== undefined) restore.exposureCompensation = original.exposureCompensation;
+		if (original.exposureMode !== undefined) restore.exposureMode = original.exposureMode;
+		if (original.exposureMode === 'manual' && original.exposureTime !== undefined) restore.exposureTime = original.exposureTime;
+
+		try {
+			await track.applyConstraints({ advanced: [restore as MediaTrackConstraintSet] });
+		} catch (error) {
+			console.error('Failed to restore camera exposure:', error);
 		}
+	}
+
+	// No exposure control: take one frame and re-expose it in software for each EV
+	private async simulateBracket(
+		config: HDRConfig,
+		captureFn: (exposure?: number) => Promise<CapturedPhoto>
+	): Promise<CapturedPhoto[]> {
+		const base = await captureFn(0);
+		const pixels = await decodePixels(base.blob);
 
+		const photos: CapturedPhoto[] = [];
+		for (const exposure of config.exposures) {
+			const blob = exposure === 0 ? base.blob : await encodePixels(simulateExposure(pixels, exposure), 'jpeg', 0.95);
+			photos.push({
+				id: `${base.id}-ev${exposure}`,
+				blob,
+				url: exposure === 0 ? base.url : URL.createObjectURL(blob),
+				timestamp: base.timestamp,
+				metadata: { ...base.metadata, exposure, hdrSource: true }
+			});
+		}
+
+		if (!config.exposures.includes(0)) {
+			URL.revokeObjectURL(base.url);
+		}
 		return photos;
 	}
 
-	// Merge HDR photos
+	// Merge the bracket with exposure fusion (Mertens); source frames are released
 	private async mergeHDRPhotos(
 		photos: CapturedPhoto[],
-		strategy: 'average' | 'smart'
-	): Promise<CapturedPhoto[]> {
-		// This is a simplified implementation
-		// Real HDR merging would require image processing libraries
+		strategy: HDRConfig['mergeStrategy'],
+		control: ExposureControl
+	): Promise<CapturedPhoto> {
+		const frames = await Promise.all(photos.map(photo => decodePixels(photo.blob)));
+		const fused = fuseExposures(frames, strategy === 'average' ? { levels: 1 } : {});
+		const blob = await encodePixels(fused, 'jpeg', 0.92);
 
-		if (strategy === 'average') {
-			// Return middle exposure as representative
-			const middleIndex = Math.floor(photos.length / 2);
-			return [photos[middleIndex]];
-		}
+		const reference = photos.find(photo => photo.metadata.exposure === 0) ?? photos[Math.floor(photos.length / 2)];
+		photos.forEach(photo => URL.revokeObjectURL(photo.url));
 
-		// Smart strategy would analyze and merge
-		// For now, return all photos for manual selection
-		return photos;
+		const { hdrSource: _, exposure: __, ...metadata } = reference.metadata;
+		return {
+			id: crypto.randomUUID(),
+			blob,
+			url: URL.createObjectURL(blob),
+			timestamp: reference.timestamp,
+			metadata: {
+				...metadata,
+				width: fused.width,
+				height: fused.height,
+				hdr: {
+					exposures: photos.map(photo => photo.metadata.exposure ?? 0),
+					exposureControl: control,
+					mergeStrategy: strategy
+				}
+			}
+		};
+	}
+
+	// Clamp into a capability range, snapped to its step
+	private clampToRange(value: number, range: { min: number; max: number; step: number }): number {
+		const clamped = Math.max(range.min, Math.min(range.max, value));
+		if (!range.step) return clamped;
+		return Math.max(range.min, Math.min(range.max, range.min + Math.round((clamped - range.min) / range.step) * range.step));
 	}
 
 	// Full photo capture with all options
 	async capturePhoto(
-		captureFn: () => Promise<CapturedPhoto>,
+		captureFn: (exposure?: number) => Promise<CapturedPhoto>,
 		options?: PhotoCaptureOptions
 	): Promise<CapturedPhoto | CapturedPhoto[]> {
 		// Apply timer if specified
@@ -238,7 +409,7 @@ export class CameraControlsManager {
 			// Apply HDR if specified
 			if (options?.hdr?.enabled) {
 				return await this.captureHDR(options.hdr, async (exposure) => {
-					const photo = await captureFn();
+					const photo = await captureFn(exposure);
 					photo.metadata.timerDelay = options.timer?.delay;
 					return photo;
 				});
@@ -29,6 +29,35 @@ export interface AppError {
 	timestamp: number;
 	retryable: boolean;
 	fallbackAvailable: boolean;
+	details?: Record<string, unknown>; // Structured context (e.g. schema validation issues)
+}
+
+// A single problem found while validating model output
+export interface ParseIssue {
+	path: string;
+	problem: string;
+	fatal: boolean;
+}
+
+// Model output that could not be turned into the declared schema
+export class ResponseParseError extends SyntaxError {
+	schema: string;
+	issues: ParseIssue[];
+	rawText: string;
+
+	constructor(schema: string, issues: ParseIssue[], rawText: string) {
+		const fatal = issues.filter(issue => issue.fatal).map(issue => `${issue.path}: ${issue.problem}`);
+		super(`Invalid ${schema} response: ${fatal.join('; ') || 'unknown error'}`);
+		this.name = 'ResponseParseError';
+		this.schema = schema;
+		this.issues = issues;
+		this.rawText = rawText;
+	}
+}
+
+// Aborted requests are superseded, not failed - callers should drop them silently
+export function isAbortError(error: unknown): boolean {
+	return (error as { name?: string } | null)?.name === 'AbortError';
 }
 
 // Error classifier
@@ -85,6 +114,24 @@ export function classifyError(error: any): AppError {
 		};
 	}
 
+	// Schema validation errors from the response parser
+	if (error instanceof ResponseParseError) {
+		return {
+			type: ErrorType.PARSING_ERROR,
+			severity: ErrorSeverity.LOW,
+			message: error.message,
+			userMessage: 'AI响应格式错误',
+			timestamp,
+			retryable: true,
+			fallbackAvailable: true,
+			details: {
+				schema: error.schema,
+				issues: error.issues,
+				rawText: error.rawText.slice(0, 500)
+			}
+		};
+	}
+
 	// Parsing errors
 	if (error instanceof SyntaxError) {
 		return {
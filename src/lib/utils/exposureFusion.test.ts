@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer, type PixelBuffer } from '$lib/utils/imagePipeline';
+import { fuseExposures, normalizedFusionWeights, simulateExposure } from '$lib/utils/exposureFusion';
+
+const SIZE = 16;
+
+function frame(pixel: (x: number, y: number) => [number, number, number]): PixelBuffer {
+	const pixels = createPixelBuffer(SIZE, SIZE);
+	for (let y = 0; y < SIZE; y++) {
+		for (let x = 0; x < SIZE; x++) {
+			const i = (y * SIZE + x) * 4;
+			pixels.data.set([...pixel(x, y), 255], i);
+		}
+	}
+	return pixels;
+}
+
+const flat = (r: number, g: number, b: number) => frame(() => [r, g, b]);
+
+function maxDifference(a: PixelBuffer, b: PixelBuffer): number {
+	let max = 0;
+	for (let i = 0; i < a.data.length; i++) max = Math.max(max, Math.abs(a.data[i] - b.data[i]));
+	return max;
+}
+
+describe('exposure fusion', () => {
+	it('fuses identical flat frames back to themselves', () => {
+		const source = flat(90, 140, 200);
+		expect(maxDifference(fuseExposures([source, source, source]), source)).toBeLessThanOrEqual(1);
+	});
+
+	it('normalizes the weights to sum to one at every pixel', () => {
+		const gradient = frame(x => [x * 16, 128, 255 - x * 16]);
+		const frames = [simulateExposure(gradient, -2), gradient, simulateExposure(gradient, 2)];
+		const weights = normalizedFusionWeights(frames);
+
+		expect(weights).toHaveLength(3);
+		for (let p = 0; p < SIZE * SIZE; p++) {
+			expect(weights[0][p] + weights[1][p] + weights[2][p]).toBeCloseTo(1, 5);
+		}
+	});
+
+	it('favours the well-exposed frame', () => {
+		const fused = fuseExposures([flat(20, 20, 20), flat(128, 128, 128), flat(245, 245, 245)], {
+			contrastWeight: 0,
+			saturationWeight: 0
+		});
+		expect(maxDifference(fused, flat(128, 128, 128))).toBeLessThanOrEqual(2);
+	});
+
+	it('rejects frames of different sizes', () => {
+		expect(() => fuseExposures([flat(0, 0, 0), createPixelBuffer(SIZE, SIZE / 2)])).toThrow();
+	});
+});
+
+describe('simulateExposure', () => {
+	it('leaves the frame unchanged at 0 EV', () => {
+		const source = frame(x => [x * 16, 100, 200]);
+		expect(maxDifference(simulateExposure(source, 0), source)).toBeLessThanOrEqual(1);
+	});
+
+	it('brightens mid-tones by a stop and keeps black, white and alpha', () => {
+		const source = frame(x => [x === 0 ? 0 : 100, x === 0 ? 255 : 100, 100]);
+		source.data[3] = 128;
+		const brighter = simulateExposure(source, 1);
+
+		// 2x linear light at gamma 2.2
+		expect(brighter.data[4]).toBeCloseTo(255 * Math.pow(2 * Math.pow(100 / 255, 2.2), 1 / 2.2), -1);
+		expect(brighter.data[0]).toBe(0);
+		expect(brighter.data[1]).toBe(255);
+		expect(brighter.data[3]).toBe(128);
+	});
+});
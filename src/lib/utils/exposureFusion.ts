@@ -0,0 +1,279 @@
+import { createPixelBuffer, type PixelBuffer } from '$lib/utils/imagePipeline';
+
+/**
+ * Exposure fusion (Mertens, Kautz & Van Reeth)
+ * Blends a bracketed set of LDR frames directly into one LDR image: every pixel of every
+ * frame is weighted by local contrast, saturation and well-exposedness, and the frames are
+ * blended in a Laplacian pyramid so the weight maps do not show up as seams or halos.
+ * No radiance map or tone mapping step, so no camera response curve is needed.
+ */
+
+export interface FusionOptions {
+	contrastWeight: number; // Exponent on the contrast measure (0 disables it)
+	saturationWeight: number;
+	exposednessWeight: number;
+	exposednessSigma: number; // Width of the Gaussian around mid-grey
+	levels?: number; // Pyramid depth; 1 is a plain per-pixel weighted average, default fits the image
+}
+
+export const DEFAULT_FUSION_OPTIONS: FusionOptions = {
+	contrastWeight: 1,
+	saturationWeight: 1,
+	exposednessWeight: 1,
+	exposednessSigma: 0.2
+};
+
+// Channels as separate float planes in 0-1
+interface FloatImage {
+	channels: [Float32Array, Float32Array, Float32Array];
+	width: number;
+	height: number;
+}
+
+function toFloatImage(pixels: PixelBuffer): FloatImage {
+	const size = pixels.width * pixels.height;
+	const channels: FloatImage['channels'] = [new Float32Array(size), new Float32Array(size), new Float32Array(size)];
+	for (let p = 0; p < size; p++) {
+		channels[0][p] = pixels.data[p * 4] / 255;
+		channels[1][p] = pixels.data[p * 4 + 1] / 255;
+		channels[2][p] = pixels.data[p * 4 + 2] / 255;
+	}
+	return { channels, width: pixels.width, height: pixels.height };
+}
+
+// Per-pixel quality weight of one frame (not yet normalized across frames)
+export function fusionWeights(pixels: PixelBuffer, options: FusionOptions = DEFAULT_FUSION_OPTIONS): Float32Array {
+	const { data, width, height } = pixels;
+	const size = width * height;
+
+	const gray = new Float32Array(size);
+	for (let p = 0; p < size; p++) {
+		gray[p] = (0.2126 * data[p * 4] + 0.7152 * data[p * 4 + 1] + 0.0722 * data[p * 4 + 2]) / 255;
+	}
+
+	const twoSigmaSq = 2 * options.exposednessSigma * options.exposednessSigma;
+	const weights = new Float32Array(size);
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const p = y * width + x;
+
+			// Contrast: absolute response of a 4-neighbour Laplacian (edges replicated)
+			const up = gray[Math.max(0, y - 1) * width + x];
+			const down = gray[Math.min(height - 1, y + 1) * width + x];
+			const left = gray[y * width + Math.max(0, x - 1)];
+			const right = gray[y * width + Math.min(width - 1, x + 1)];
+			const contrast = Math.abs(up + down + left + right - 4 * gray[p]);
+
+			// Saturation: standard deviation across R, G, B
+			const r = data[p * 4] / 255;
+			const g = data[p * 4 + 1] / 255;
+			const b = data[p * 4 + 2] / 255;
+			const mean = (r + g + b) / 3;
+			const saturation = Math.sqrt(((r - mean) ** 2 + (g - mean) ** 2 + (b - mean) ** 2) / 3);
+
+			// Well-exposedness: each channel close to 0.5
+			const exposedness = Math.exp(-((r - 0.5) ** 2 + (g - 0.5) ** 2 + (b - 0.5) ** 2) / twoSigmaSq);
+
+			weights[p] =
+				Math.pow(contrast, options.contrastWeight) *
+				Math.pow(saturation, options.saturationWeight) *
+				Math.pow(exposedness, options.exposednessWeight) +
+				1e-12; // Keeps flat, fully clipped areas from dividing by zero
+		}
+	}
+
+	return weights;
+}
+
+// Weight maps of a set of frames, normalized so they sum to one at every pixel
+export function normalizedFusionWeights(frames: PixelBuffer[], options: FusionOptions = DEFAULT_FUSION_OPTIONS): Float32Array[] {
+	const weights = frames.map(frame => fusionWeights(frame, options));
+	const size = weights[0]?.length ?? 0;
+	for (let p = 0; p < size; p++) {
+		let sum = 0;
+		for (const w of weights) sum += w[p];
+		for (const w of weights) w[p] /= sum;
+	}
+	return weights;
+}
+
+// 5-tap binomial blur [1 4 6 4 1] / 16, separable, edges replicated
+function blur5(plane: Float32Array, width: number, height: number): Float32Array {
+	const temp = new Float32Array(plane.length);
+	const out = new Float32Array(plane.length);
+	const k = [1 / 16, 4 / 16, 6 / 16, 4 / 16, 1 / 16];
+
+	for (let y = 0; y < height; y++) {
+		const row = y * width;
+		for (let x = 0; x < width; x++) {
+			let sum = 0;
+			for (let i = -2; i <= 2; i++) {
+				sum += k[i + 2] * plane[row + Math.min(width - 1, Math.max(0, x + i))];
+			}
+			temp[row + x] = sum;
+		}
+	}
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let sum = 0;
+			for (let i = -2; i <= 2; i++) {
+				sum += k[i + 2] * temp[Math.min(height - 1, Math.max(0, y + i)) * width + x];
+			}
+			out[y * width + x] = sum;
+		}
+	}
+
+	return out;
+}
+
+function downsample(plane: Float32Array, width: number, height: number) {
+	const blurred = blur5(plane, width, height);
+	const w = Math.ceil(width / 2);
+	const h = Math.ceil(height / 2);
+	const out = new Float32Array(w * h);
+	for (let y = 0; y < h; y++) {
+		for (let x = 0; x < w; x++) {
+			out[y * w + x] = blurred[y * 2 * width + x * 2];
+		}
+	}
+	return { plane: out, width: w, height: h };
+}
+
+// Nearest-neighbour expand then blur; collapse uses the same operator, so reconstruction is exact
+function upsample(plane: Float32Array, width: number, height: number, targetWidth: number, targetHeight: number): Float32Array {
+	const out = new Float32Array(targetWidth * targetHeight);
+	for (let y = 0; y < targetHeight; y++) {
+		const row = Math.min(height - 1, y >> 1) * width;
+		for (let x = 0; x < targetWidth; x++) {
+			out[y * targetWidth + x] = plane[row + Math.min(width - 1, x >> 1)];
+		}
+	}
+	return blur5(out, targetWidth, targetHeight);
+}
+
+interface PyramidLevel {
+	plane: Float32Array;
+	width: number;
+	height: number;
+}
+
+function gaussianPyramid(plane: Float32Array, width: number, height: number, levels: number): PyramidLevel[] {
+	const pyramid: PyramidLevel[] = [{ plane, width, height }];
+	for (let l = 1; l < levels; l++) {
+		const prev = pyramid[l - 1];
+		pyramid.push(downsample(prev.plane, prev.width, prev.height));
+	}
+	return pyramid;
+}
+
+function laplacianPyramid(plane: Float32Array, width: number, height: number, levels: number): PyramidLevel[] {
+	const gaussian = gaussianPyramid(plane, width, height, levels);
+	return gaussian.map((level, l) => {
+		if (l === levels - 1) return level; // Coarsest level keeps the low-pass residual
+		const next = gaussian[l + 1];
+		const expanded = upsample(next.plane, next.width, next.height, level.width, level.height);
+		const detail = new Float32Array(level.plane.length);
+		for (let p = 0; p < detail.length; p++) {
+			detail[p] = level.plane[p] - expanded[p];
+		}
+		return { plane: detail, width: level.width, height: level.height };
+	});
+}
+
+function collapse(pyramid: PyramidLevel[]): Float32Array {
+	let current = pyramid[pyramid.length - 1];
+	for (let l = pyramid.length - 2; l >= 0; l--) {
+		const level = pyramid[l];
+		const expanded = upsample(current.plane, current.width, current.height, level.width, level.height);
+		for (let p = 0; p < expanded.length; p++) {
+			expanded[p] += level.plane[p];
+		}
+		current = { plane: expanded, width: level.width, height: level.height };
+	}
+	return current.plane;
+}
+
+// Deep enough that the coarsest level is a few pixels across
+export function defaultFusionLevels(width: number, height: number): number {
+	return Math.max(1, Math.floor(Math.log2(Math.min(width, height))) - 2);
+}
+
+// Fuse same-sized frames of one scene into a single image
+export function fuseExposures(frames: PixelBuffer[], options: Partial<FusionOptions> = {}): PixelBuffer {
+	if (frames.length === 0) {
+		throw new Error('Exposure fusion needs at least one frame');
+	}
+
+	const { width, height } = frames[0];
+	if (frames.some(frame => frame.width !== width || frame.height !== height)) {
+		throw new Error('Exposure fusion frames must share one size');
+	}
+
+	const config = { ...DEFAULT_FUSION_OPTIONS, ...options };
+	const levels = Math.max(1, Math.min(config.levels ?? defaultFusionLevels(width, height), defaultFusionLevels(width, height)));
+	const size = width * height;
+
+	const weights = normalizedFusionWeights(frames, config);
+
+	// Accumulate one frame at a time to keep only one set of pyramids alive
+	let blended: PyramidLevel[][] | null = null;
+	for (let i = 0; i < frames.length; i++) {
+		const image = toFloatImage(frames[i]);
+		const weightPyramid = gaussianPyramid(weights[i], width, height, levels);
+
+		const contribution = image.channels.map(channel =>
+			laplacianPyramid(channel, width, height, levels).map((level, l) => {
+				const w = weightPyramid[l].plane;
+				for (let p = 0; p < level.plane.length; p++) {
+					level.plane[p] *= w[p];
+				}
+				return level;
+			})
+		);
+
+		if (!blended) {
+			blended = contribution;
+			continue;
+		}
+		for (let c = 0; c < 3; c++) {
+			for (let l = 0; l < levels; l++) {
+				const acc = blended[c][l].plane;
+				const add = contribution[c][l].plane;
+				for (let p = 0; p < acc.length; p++) {
+					acc[p] += add[p];
+				}
+			}
+		}
+	}
+
+	const output = createPixelBuffer(width, height);
+	const result = (blended ?? []).map(collapse);
+	for (let p = 0; p < size; p++) {
+		output.data[p * 4] = result[0][p] * 255;
+		output.data[p * 4 + 1] = result[1][p] * 255;
+		output.data[p * 4 + 2] = result[2][p] * 255;
+		output.data[p * 4 + 3] = 255;
+	}
+	return output;
+}
+
+// Approximate a different exposure from one frame (gamma-2.2 linearization, scale by 2^ev)
+// Used when the camera cannot bracket, so fusion still recovers some shadow and highlight detail
+export function simulateExposure(pixels: PixelBuffer, ev: number): PixelBuffer {
+	const out = createPixelBuffer(pixels.width, pixels.height);
+	const gain = Math.pow(2, ev);
+	const lut = new Uint8ClampedArray(256);
+	for (let v = 0; v < 256; v++) {
+		lut[v] = Math.pow(Math.min(1, Math.pow(v / 255, 2.2) * gain), 1 / 2.2) * 255;
+	}
+
+	for (let i = 0; i < pixels.data.length; i += 4) {
+		out.data[i] = lut[pixels.data[i]];
+		out.data[i + 1] = lut[pixels.data[i + 1]];
+		out.data[i + 2] = lut[pixels.data[i + 2]];
+		out.data[i + 3] = pixels.data[i + 3];
+	}
+	return out;
+}
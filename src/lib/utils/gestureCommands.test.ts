@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { Pose } from '$lib/types';
+import { GestureCommandRecognizer, type GestureCommandEvent } from '$lib/utils/gestureCommands';
+import { BLAZEPOSE_KEYPOINTS, landmarksToPose } from '$lib/utils/poseLandmarks';
+
+// Standing subject, left arm down; right arm variations are added per test (viewer sides)
+const BODY: Pose = {
+	nose: { x: 0.5, y: 0.2, visibility: 1 },
+	left_shoulder: { x: 0.4, y: 0.35, visibility: 1 },
+	right_shoulder: { x: 0.6, y: 0.35, visibility: 1 },
+	left_elbow: { x: 0.38, y: 0.5, visibility: 1 },
+	left_wrist: { x: 0.37, y: 0.63, visibility: 1 },
+	left_hip: { x: 0.44, y: 0.65, visibility: 1 },
+	right_hip: { x: 0.56, y: 0.65, visibility: 1 }
+};
+
+// Forearm straight up, knuckles above the wrist
+const RAISED_RIGHT_HAND: Pose = {
+	right_elbow: { x: 0.68, y: 0.25, visibility: 1 },
+	right_wrist: { x: 0.68, y: 0.13, visibility: 1 },
+	right_index: { x: 0.67, y: 0.08, visibility: 0.9 },
+	right_pinky: { x: 0.7, y: 0.085, visibility: 0.9 }
+};
+
+const OPEN_PALM: Pose = { ...BODY, ...RAISED_RIGHT_HAND, right_thumb: { x: 0.63, y: 0.11, visibility: 0.9 } };
+const PEACE_SIGN: Pose = { ...BODY, ...RAISED_RIGHT_HAND, right_thumb: { x: 0.675, y: 0.115, visibility: 0.9 } };
+const THUMBS_UP: Pose = {
+	...BODY,
+	right_elbow: { x: 0.6, y: 0.62, visibility: 1 },
+	right_wrist: { x: 0.62, y: 0.5, visibility: 1 },
+	right_index: { x: 0.64, y: 0.46, visibility: 0.9 },
+	right_pinky: { x: 0.64, y: 0.5, visibility: 0.9 },
+	right_thumb: { x: 0.63, y: 0.4, visibility: 0.9 }
+};
+
+// Feed the same pose at 10 fps and return the first command fired
+function hold(recognizer: GestureCommandRecognizer, pose: Pose, durationMs: number): GestureCommandEvent | null {
+	for (let now = 0; now <= durationMs; now += 100) {
+		const event = recognizer.update(pose, now);
+		if (event) return event;
+	}
+	return null;
+}
+
+describe('GestureCommandRecognizer', () => {
+	it('fires cancel for a held open palm', () => {
+		const event = hold(new GestureCommandRecognizer({ enabled: true }), OPEN_PALM, 1500);
+		expect(event).toMatchObject({ command: 'cancel', gesture: 'open_palm', hand: 'right' });
+	});
+
+	it('fires start-timer for a held V sign', () => {
+		const event = hold(new GestureCommandRecognizer({ enabled: true }), PEACE_SIGN, 1500);
+		expect(event).toMatchObject({ command: 'start-timer', gesture: 'peace_sign' });
+	});
+
+	it('fires accept-pose for a held thumbs up', () => {
+		const event = hold(new GestureCommandRecognizer({ enabled: true }), THUMBS_UP, 1500);
+		expect(event).toMatchObject({ command: 'accept-pose', gesture: 'thumbs_up' });
+	});
+
+	it('waits for the hold time before firing', () => {
+		expect(hold(new GestureCommandRecognizer({ enabled: true, holdMs: 800 }), OPEN_PALM, 700)).toBeNull();
+	});
+
+	it('ignores a raised arm without hand points', () => {
+		const { right_index: _index, right_pinky: _pinky, right_thumb: _thumb, ...armOnly } = OPEN_PALM;
+		expect(hold(new GestureCommandRecognizer({ enabled: true }), armOnly, 1500)).toBeNull();
+	});
+
+	it('recognizes the hand landmarks of a BlazePose detection', () => {
+		// BlazePose names sides from the subject's view; the subject's left hand is on the viewer's right
+		const landmarks = Array.from({ length: 33 }, () => ({ x: 0, y: 0, visibility: 0 }));
+		for (const [key, index] of Object.entries(BLAZEPOSE_KEYPOINTS)) {
+			const subjectKey = key.startsWith('left_') ? key.replace('left_', 'right_') : key.replace('right_', 'left_');
+			const keypoint = OPEN_PALM[subjectKey as keyof Pose];
+			if (keypoint && index !== undefined) landmarks[index] = { x: keypoint.x, y: keypoint.y, visibility: 1 };
+		}
+		const pose = landmarksToPose(landmarks, BLAZEPOSE_KEYPOINTS);
+
+		expect(pose.right_thumb).toBeDefined();
+		expect(hold(new GestureCommandRecognizer({ enabled: true }), pose, 1500)).toMatchObject({ command: 'cancel' });
+	});
+});
@@ -0,0 +1,131 @@
+import type { CommandGesture, GestureCommandSettings, Pose } from '$lib/types';
+import { detectHandGesture, type HandGesture } from '$lib/utils/gestureRecognition';
+
+/**
+ * Hand-gesture remote control
+ * Turns gestures held in front of the camera into camera commands, so the subject does not
+ * have to walk back to the phone. A gesture fires once it has been held for holdMs above its
+ * confidence threshold. Commands are debounced: after one fires, nothing fires again for
+ * debounceMs, and the same gesture has to be lowered before it can repeat.
+ */
+
+export type GestureCommand = 'start-timer' | 'cancel' | 'accept-pose';
+
+export const GESTURE_COMMANDS: Record<CommandGesture, GestureCommand> = {
+	peace_sign: 'start-timer',
+	open_palm: 'cancel',
+	thumbs_up: 'accept-pose'
+};
+
+export const GESTURE_TIMER_SECONDS = 3;
+
+export const DEFAULT_GESTURE_COMMAND_SETTINGS: GestureCommandSettings = {
+	enabled: false,
+	holdMs: 800,
+	debounceMs: 2000,
+	minConfidence: {
+		peace_sign: 0.7,
+		open_palm: 0.7,
+		thumbs_up: 0.7
+	}
+};
+
+// Pose frames where the gesture briefly drops out (flicker) do not restart the hold
+const DROPOUT_TOLERANCE_MS = 250;
+
+export interface GestureCommandEvent {
+	command: GestureCommand;
+	gesture: CommandGesture;
+	hand: HandGesture['hand'];
+	confidence: number;
+}
+
+export interface GestureHoldStatus {
+	gesture: CommandGesture;
+	progress: number; // 0-1 towards holdMs
+}
+
+function isCommandGesture(gesture: string): gesture is CommandGesture {
+	return Object.keys(GESTURE_COMMANDS).includes(gesture);
+}
+
+export class GestureCommandRecognizer {
+	private settings: GestureCommandSettings;
+	private candidate: { gesture: CommandGesture; hand: HandGesture['hand']; confidence: number; since: number } | null = null;
+	private lastSeenAt = 0;
+	private lastFiredAt = -Infinity;
+	private firedGesture: CommandGesture | null = null;
+	private holding: GestureHoldStatus | null = null;
+
+	constructor(settings: Partial<GestureCommandSettings> = {}) {
+		this.settings = { ...DEFAULT_GESTURE_COMMAND_SETTINGS, ...settings };
+	}
+
+	updateSettings(settings: Partial<GestureCommandSettings>): void {
+		this.settings = { ...this.settings, ...settings };
+	}
+
+	// Gesture being held and how far along it is; null when none
+	get status(): GestureHoldStatus | null {
+		return this.holding;
+	}
+
+	// Feed one pose sample (null when nobody is detected)
+	update(pose: Pose | null, now: number): GestureCommandEvent | null {
+		const detected = pose ? this.strongestGesture(pose) : null;
+
+		// The fired gesture must be lowered before it can fire again
+		if (this.firedGesture && detected?.gesture !== this.firedGesture) {
+			this.firedGesture = null;
+		}
+
+		if (!detected || detected.gesture === this.firedGesture) {
+			if (this.candidate && (detected || now - this.lastSeenAt > DROPOUT_TOLERANCE_MS)) {
+				this.candidate = null;
+				this.holding = null;
+			}
+			return null;
+		}
+
+		this.lastSeenAt = now;
+		if (this.candidate?.gesture !== detected.gesture) {
+			this.candidate = { ...detected, since: now };
+		}
+
+		const { holdMs, debounceMs } = this.settings;
+		const heldMs = now - this.candidate.since;
+		this.holding = { gesture: detected.gesture, progress: holdMs > 0 ? Math.min(1, heldMs / holdMs) : 1 };
+		if (heldMs < holdMs || now - this.lastFiredAt < debounceMs) return null;
+
+		this.lastFiredAt = now;
+		this.firedGesture = detected.gesture;
+		this.candidate = null;
+		this.holding = null;
+		return {
+			command: GESTURE_COMMANDS[detected.gesture],
+			gesture: detected.gesture,
+			hand: detected.hand,
+			confidence: detected.confidence
+		};
+	}
+
+	reset(): void {
+		this.candidate = null;
+		this.holding = null;
+		this.firedGesture = null;
+	}
+
+	// Both hands are checked; the most confident command gesture above its threshold wins
+	private strongestGesture(pose: Pose): { gesture: CommandGesture; hand: HandGesture['hand']; confidence: number } | null {
+		let best: { gesture: CommandGesture; hand: HandGesture['hand']; confidence: number } | null = null;
+		for (const hand of ['left', 'right'] as const) {
+			const detected = detectHandGesture(pose, hand);
+			if (!detected || !isCommandGesture(detected.gesture)) continue;
+			if (detected.confidence < this.settings.minConfidence[detected.gesture]) continue;
+			if (!best || detected.confidence > best.confidence) {
+				best = { gesture: detected.gesture, hand, confidence: detected.confidence };
+			}
+		}
+		return best;
+	}
+}
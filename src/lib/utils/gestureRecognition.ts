@@ -56,7 +56,7 @@ export function detectHandGesture(pose: Pose, hand: 'left' | 'right'): HandGestu
 	const armLowered = wristY > elbowY + 0.2;
 	const armOutward = Math.abs(wristX - shoulderX) > 0.25;
 
-	// Count extended fingers (simplified - would need more detailed keypoints for accuracy)
+	// Count extended fingers (coarse: BlazePose only tracks knuckles and the thumb)
 	const fingersExtended = estimateFingersExtended(pose, hand);
 
 	// Detect specific gestures
@@ -90,8 +90,14 @@ export function detectHandGesture(pose: Pose, hand: 'left' | 'right'): HandGestu
 		confidence = 0.85;
 	}
 
-	// Thumbs up detection (simplified)
-	if (fingersExtended === 1 && wristY > shoulderY) {
+	// Open palm: hand raised with the fingers reaching up and the thumb spread
+	if (fingersExtended === 3 && armRaised) {
+		gesture = 'open_palm';
+		confidence = 0.8;
+	}
+
+	// Thumbs up: hand below the shoulder with the thumb clearly above the knuckles
+	if (isThumbUp(pose, hand) && wristY > shoulderY) {
 		gesture = 'thumbs_up';
 		confidence = 0.7;
 	}
@@ -112,29 +118,53 @@ export function detectHandGesture(pose: Pose, hand: 'left' | 'right'): HandGestu
 	};
 }
 
-// Estimate number of extended fingers (simplified)
+// Fraction of the forearm length a hand point has to reach before it counts
+const FINGER_REACH = 0.3;
+const THUMB_SPREAD = 0.35;
+
+function isVisible(kp: PoseKeypoint | undefined): kp is PoseKeypoint {
+	return !!kp && (kp.visibility ?? 1) > 0.5;
+}
+
+// Estimate number of extended fingers (0-3)
+// BlazePose tracks the index and pinky knuckles and the thumb, not fingertips: index and pinky count
+// when they reach past the wrist along the forearm, the thumb when it sticks out sideways from the
+// forearm line (tucked in for a V sign, spread for an open palm)
 function estimateFingersExtended(pose: Pose, hand: 'left' | 'right'): number {
-	// This is a simplified version - would need more detailed keypoints for accuracy
-	const wrist = pose[`${hand}_wrist` as keyof Pose];
-	if (!wrist) return 0;
+	const wrist = pose[`${hand}_wrist`];
+	const elbow = pose[`${hand}_elbow`];
+	if (!wrist || !elbow) return 0;
 
-	// Count visible keypoints above wrist as proxy for extended fingers
-	const fingerKeypoints = [
-		pose[`${hand === 'left' ? 'right' : 'left'}_index` as keyof Pose],
-		pose[`${hand === 'left' ? 'right' : 'left'}_pinky` as keyof Pose],
-		pose[`${hand}_thumb` as keyof Pose]
-	];
+	const forearm = Math.hypot(wrist.x - elbow.x, wrist.y - elbow.y);
+	if (forearm < 0.01) return 0;
+	const ux = (wrist.x - elbow.x) / forearm;
+	const uy = (wrist.y - elbow.y) / forearm;
+	const along = (kp: PoseKeypoint) => ((kp.x - wrist.x) * ux + (kp.y - wrist.y) * uy) / forearm;
+	const across = (kp: PoseKeypoint) => Math.abs((kp.x - wrist.x) * uy - (kp.y - wrist.y) * ux) / forearm;
 
 	let extended = 0;
-	for (const kp of fingerKeypoints) {
-		if (kp && (kp.visibility ?? 0) > 0.5) {
-			extended++;
-		}
+	for (const kp of [pose[`${hand}_index`], pose[`${hand}_pinky`]]) {
+		if (isVisible(kp) && along(kp) > FINGER_REACH) extended++;
 	}
+	const thumb = pose[`${hand}_thumb`];
+	if (isVisible(thumb) && across(thumb) > THUMB_SPREAD) extended++;
 
 	return extended;
 }
 
+// Thumb pointing up out of a fist: above both knuckles by a clear margin
+function isThumbUp(pose: Pose, hand: 'left' | 'right'): boolean {
+	const wrist = pose[`${hand}_wrist`];
+	const elbow = pose[`${hand}_elbow`];
+	const thumb = pose[`${hand}_thumb`];
+	const index = pose[`${hand}_index`];
+	const pinky = pose[`${hand}_pinky`];
+	if (!wrist || !elbow || !isVisible(thumb) || !isVisible(index) || !isVisible(pinky)) return false;
+
+	const forearm = Math.hypot(wrist.x - elbow.x, wrist.y - elbow.y);
+	return Math.min(index.y, pinky.y) - thumb.y > FINGER_REACH * forearm;
+}
+
 // Detect body language from pose
 export function detectBodyLanguage(pose: Pose): BodyLanguage | null {
 	const shoulders = {
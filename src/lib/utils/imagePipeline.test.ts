@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import {
+	applyColorAdjustments,
+	applyDetailAdjustments,
+	applyGrain,
+	applyVignette,
+	createPixelBuffer,
+	cropPixels,
+	cssFilterString,
+	isIdentityRecipe,
+	renderEdits,
+	rotatePixels,
+	type PixelBuffer
+} from '$lib/utils/imagePipeline';
+
+function buffer(width: number, height: number, pixel: (x: number, y: number) => [number, number, number]): PixelBuffer {
+	const pixels = createPixelBuffer(width, height);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			pixels.data.set([...pixel(x, y), 255], (y * width + x) * 4);
+		}
+	}
+	return pixels;
+}
+
+const flat = (value: number, size = 8) => buffer(size, size, () => [value, value, value]);
+
+function rgbAt(pixels: PixelBuffer, x: number, y: number): number[] {
+	const i = (y * pixels.width + x) * 4;
+	return Array.from(pixels.data.subarray(i, i + 3));
+}
+
+// Each pixel labelled by its position, so geometry can be traced
+const labelled = () => buffer(3, 2, (x, y) => [x * 100, y * 100, 0]);
+
+describe('cssFilterString', () => {
+	it('is empty for an empty adjustment set', () => {
+		expect(cssFilterString({})).toBe('');
+	});
+
+	it('lists the CSS-expressible steps in pipeline order', () => {
+		expect(cssFilterString({ hue: 30, saturation: -50, contrast: 20, brightness: 10, exposure: 50, vignette: 40 })).toBe(
+			'brightness(200%) brightness(110%) contrast(120%) saturate(50%) hue-rotate(30deg)'
+		);
+	});
+});
+
+describe('rotatePixels', () => {
+	it('rotates 90° clockwise losslessly and swaps the size', () => {
+		const rotated = rotatePixels(labelled(), { enabled: true, angle: 90, flipHorizontal: false, flipVertical: false });
+		expect([rotated.width, rotated.height]).toEqual([2, 3]);
+		// The bottom-left source pixel ends up top-left
+		expect(rgbAt(rotated, 0, 0)).toEqual([0, 100, 0]);
+		expect(rgbAt(rotated, 1, 0)).toEqual([0, 0, 0]);
+		expect(rgbAt(rotated, 1, 2)).toEqual([200, 0, 0]);
+	});
+
+	it('flips horizontally', () => {
+		const flipped = rotatePixels(labelled(), { enabled: true, angle: 0, flipHorizontal: true, flipVertical: false });
+		expect(rgbAt(flipped, 0, 0)).toEqual([200, 0, 0]);
+		expect(rgbAt(flipped, 2, 1)).toEqual([0, 100, 0]);
+	});
+
+	it('returns the input when disabled', () => {
+		const source = labelled();
+		expect(rotatePixels(source, { enabled: false, angle: 90, flipHorizontal: false, flipVertical: false })).toBe(source);
+	});
+});
+
+describe('cropPixels', () => {
+	it('cuts the normalized rectangle', () => {
+		const cropped = cropPixels(labelled(), { enabled: true, x: 1 / 3, y: 0.5, width: 2 / 3, height: 0.5 });
+		expect([cropped.width, cropped.height]).toEqual([2, 1]);
+		expect(rgbAt(cropped, 0, 0)).toEqual([100, 100, 0]);
+		expect(rgbAt(cropped, 1, 0)).toEqual([200, 100, 0]);
+	});
+
+	it('returns the input for a full-frame crop', () => {
+		const source = labelled();
+		expect(cropPixels(source, { enabled: true, x: 0, y: 0, width: 1, height: 1 })).toBe(source);
+	});
+});
+
+describe('applyColorAdjustments', () => {
+	it('leaves pixels alone without adjustments', () => {
+		expect(rgbAt(applyColorAdjustments(flat(100), {}), 0, 0)).toEqual([100, 100, 100]);
+	});
+
+	it('doubles light per stop of exposure', () => {
+		expect(rgbAt(applyColorAdjustments(flat(60), { exposure: 50 }), 0, 0)).toEqual([120, 120, 120]);
+	});
+
+	it('warms with positive temperature', () => {
+		const [r, g, b] = rgbAt(applyColorAdjustments(flat(128), { temperature: 100 }), 0, 0);
+		expect(r).toBeGreaterThan(128);
+		expect(g).toBe(128);
+		expect(b).toBeLessThan(128);
+	});
+
+	it('removes colour at -100 saturation', () => {
+		const [r, g, b] = rgbAt(applyColorAdjustments(buffer(1, 1, () => [200, 50, 50]), { saturation: -100 }), 0, 0);
+		expect(Math.abs(r - g)).toBeLessThanOrEqual(1);
+		expect(Math.abs(g - b)).toBeLessThanOrEqual(1);
+	});
+
+	it('lifts blacks with fade', () => {
+		expect(rgbAt(applyColorAdjustments(flat(0), { fade: 100 }), 0, 0)[0]).toBeGreaterThan(0);
+	});
+});
+
+describe('applyDetailAdjustments', () => {
+	it('leaves a flat image flat', () => {
+		expect(rgbAt(applyDetailAdjustments(flat(100), { sharpness: 100, clarity: 100 }), 4, 4)).toEqual([100, 100, 100]);
+	});
+
+	it('sharpening widens an edge', () => {
+		const edge = () => buffer(8, 8, x => (x < 4 ? [80, 80, 80] : [160, 160, 160]));
+		const sharpened = applyDetailAdjustments(edge(), { sharpness: 100 });
+		expect(rgbAt(sharpened, 3, 4)[0]).toBeLessThan(80);
+		expect(rgbAt(sharpened, 4, 4)[0]).toBeGreaterThan(160);
+	});
+});
+
+describe('applyVignette', () => {
+	it('darkens the corners and leaves the centre', () => {
+		const vignetted = applyVignette(flat(200, 16), 100);
+		expect(rgbAt(vignetted, 0, 0)[0]).toBeLessThan(200);
+		expect(rgbAt(vignetted, 8, 8)[0]).toBe(200);
+	});
+
+	it('lightens the corners when negative', () => {
+		expect(rgbAt(applyVignette(flat(100, 16), -100), 0, 0)[0]).toBeGreaterThan(100);
+	});
+});
+
+describe('applyGrain', () => {
+	it('adds the same noise for the same input', () => {
+		const a = applyGrain(flat(128), 50);
+		const b = applyGrain(flat(128), 50);
+		expect(a.data).toEqual(b.data);
+		expect(a.data).not.toEqual(flat(128).data);
+	});
+
+	it('keeps the noise grey', () => {
+		const [r, g, b] = rgbAt(applyGrain(flat(128), 100), 3, 3);
+		expect(r).toBe(g);
+		expect(g).toBe(b);
+	});
+});
+
+describe('renderEdits', () => {
+	it('never modifies the source buffer', () => {
+		const source = flat(100);
+		const before = new Uint8ClampedArray(source.data);
+		const rendered = renderEdits(source, { adjustments: { exposure: 50, vignette: 50 } });
+		expect(source.data).toEqual(before);
+		expect(rendered).not.toBe(source);
+	});
+
+	it('rotates before cropping', () => {
+		const rendered = renderEdits(labelled(), {
+			adjustments: {},
+			rotation: { enabled: true, angle: 90, flipHorizontal: false, flipVertical: false },
+			crop: { enabled: true, x: 0, y: 0, width: 1, height: 1 / 3 }
+		});
+		expect([rendered.width, rendered.height]).toEqual([2, 1]);
+		expect(rgbAt(rendered, 0, 0)).toEqual([0, 100, 0]);
+	});
+
+	it('treats an empty recipe as identity', () => {
+		expect(isIdentityRecipe({ adjustments: { exposure: 0 } })).toBe(true);
+		expect(isIdentityRecipe({ adjustments: { grain: 10 } })).toBe(false);
+	});
+});
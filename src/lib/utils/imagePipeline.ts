@@ -0,0 +1,472 @@
+import type { AdjustmentSet, CropSettings, RotationSettings } from '$lib/utils/photoEditor';
+
+/**
+ * Pixel pipeline behind PhotoEditor export and preview
+ * Pure functions over RGBA buffers (ImageData fits), so they run without a DOM;
+ * only decodePixels/encodePixels touch canvases.
+ *
+ * Order: rotation/flip → crop → color (exposure, brightness, temperature/tint,
+ * highlights/shadows/whites/blacks, contrast, saturation, vibrance, hue, fade)
+ * → clarity/sharpness → vignette → grain.
+ * The CSS-expressible steps use the Filter Effects formulas in the same order as
+ * cssFilterString, so the CSS live preview and the export agree wherever CSS can express the edit.
+ */
+
+export interface PixelBuffer {
+	data: Uint8ClampedArray;
+	width: number;
+	height: number;
+}
+
+// Everything needed to reproduce an edit from the original image
+export interface EditRecipe {
+	adjustments: AdjustmentSet;
+	crop?: CropSettings;
+	rotation?: RotationSettings;
+}
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp';
+
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+	return { data: new Uint8ClampedArray(width * height * 4), width, height };
+}
+
+function clonePixels(pixels: PixelBuffer): PixelBuffer {
+	return { data: new Uint8ClampedArray(pixels.data), width: pixels.width, height: pixels.height };
+}
+
+const clamp01 = (value: number) => (value < 0 ? 0 : value > 1 ? 1 : value);
+
+// ±100 exposure is ±2 stops
+export function exposureFactor(exposure: number = 0): number {
+	return Math.pow(2, exposure / 50);
+}
+
+export interface CSSFilterStep {
+	fn: 'brightness' | 'contrast' | 'saturate' | 'hue-rotate';
+	amount: number; // Multiplier, or degrees for hue-rotate
+}
+
+// The part of an adjustment set that CSS filter functions can express, in pipeline order
+export function cssFilterSteps(adj: AdjustmentSet): CSSFilterStep[] {
+	const steps: CSSFilterStep[] = [];
+	if (adj.exposure) steps.push({ fn: 'brightness', amount: exposureFactor(adj.exposure) });
+	if (adj.brightness) steps.push({ fn: 'brightness', amount: 1 + adj.brightness / 100 });
+	if (adj.contrast) steps.push({ fn: 'contrast', amount: 1 + adj.contrast / 100 });
+	if (adj.saturation) steps.push({ fn: 'saturate', amount: 1 + adj.saturation / 100 });
+	if (adj.hue) steps.push({ fn: 'hue-rotate', amount: adj.hue });
+	return steps;
+}
+
+export function cssFilterString(adj: AdjustmentSet): string {
+	return cssFilterSteps(adj)
+		.map(step => step.fn === 'hue-rotate'
+			? `hue-rotate(${step.amount}deg)`
+			: `${step.fn}(${Number((step.amount * 100).toFixed(2))}%)`)
+		.join(' ');
+}
+
+// 3x3 color matrices from the Filter Effects spec
+function saturateMatrix(s: number): number[] {
+	return [
+		0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+		0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+		0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s
+	];
+}
+
+function hueRotateMatrix(degrees: number): number[] {
+	const rad = (degrees * Math.PI) / 180;
+	const cos = Math.cos(rad);
+	const sin = Math.sin(rad);
+	return [
+		0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+		0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+		0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072
+	];
+}
+
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+type PreparedStep = CSSFilterStep & { matrix?: number[] };
+
+function prepareStep(step: CSSFilterStep): PreparedStep {
+	if (step.fn === 'saturate') return { ...step, matrix: saturateMatrix(step.amount) };
+	if (step.fn === 'hue-rotate') return { ...step, matrix: hueRotateMatrix(step.amount) };
+	return step;
+}
+
+// One CSS filter function on a normalized RGB triple (each function's output is clamped, as in browsers)
+function applyCSSStep(step: PreparedStep, rgb: number[]) {
+	switch (step.fn) {
+		case 'brightness':
+			rgb[0] = clamp01(rgb[0] * step.amount);
+			rgb[1] = clamp01(rgb[1] * step.amount);
+			rgb[2] = clamp01(rgb[2] * step.amount);
+			break;
+		case 'contrast':
+			rgb[0] = clamp01((rgb[0] - 0.5) * step.amount + 0.5);
+			rgb[1] = clamp01((rgb[1] - 0.5) * step.amount + 0.5);
+			rgb[2] = clamp01((rgb[2] - 0.5) * step.amount + 0.5);
+			break;
+		case 'saturate':
+		case 'hue-rotate': {
+			const m = step.matrix!;
+			const [r, g, b] = rgb;
+			rgb[0] = clamp01(m[0] * r + m[1] * g + m[2] * b);
+			rgb[1] = clamp01(m[3] * r + m[4] * g + m[5] * b);
+			rgb[2] = clamp01(m[6] * r + m[7] * g + m[8] * b);
+			break;
+		}
+	}
+}
+
+// Per-pixel color and tone, in place
+export function applyColorAdjustments(pixels: PixelBuffer, adj: AdjustmentSet): PixelBuffer {
+	const steps = cssFilterSteps(adj).map(prepareStep);
+	// The non-CSS stages slot in between, so the CSS steps keep their relative order
+	const lightSteps = steps.filter(s => s.fn === 'brightness');
+	const contrastSteps = steps.filter(s => s.fn === 'contrast' || s.fn === 'saturate');
+	const hueSteps = steps.filter(s => s.fn === 'hue-rotate');
+
+	const temperature = (adj.temperature ?? 0) / 100;
+	const tint = (adj.tint ?? 0) / 100;
+	const highlights = (adj.highlights ?? 0) / 100;
+	const shadows = (adj.shadows ?? 0) / 100;
+	const whites = (adj.whites ?? 0) / 100;
+	const blacks = (adj.blacks ?? 0) / 100;
+	const vibrance = (adj.vibrance ?? 0) / 100;
+	const fade = (adj.fade ?? 0) / 100;
+
+	const hasWhiteBalance = temperature !== 0 || tint !== 0;
+	const hasTone = highlights !== 0 || shadows !== 0 || whites !== 0 || blacks !== 0;
+	if (steps.length === 0 && !hasWhiteBalance && !hasTone && vibrance === 0 && fade === 0) {
+		return pixels;
+	}
+
+	// White balance gains: warm pushes red up and blue down, positive tint leans magenta
+	const rGain = 1 + 0.15 * temperature + 0.05 * tint;
+	const gGain = 1 - 0.1 * tint;
+	const bGain = 1 - 0.15 * temperature + 0.05 * tint;
+
+	const { data } = pixels;
+	const rgb = [0, 0, 0];
+
+	for (let i = 0; i < data.length; i += 4) {
+		rgb[0] = data[i] / 255;
+		rgb[1] = data[i + 1] / 255;
+		rgb[2] = data[i + 2] / 255;
+
+		for (const step of lightSteps) applyCSSStep(step, rgb);
+
+		if (hasWhiteBalance) {
+			rgb[0] = clamp01(rgb[0] * rGain);
+			rgb[1] = clamp01(rgb[1] * gGain);
+			rgb[2] = clamp01(rgb[2] * bGain);
+		}
+
+		if (hasTone) {
+			const l = luma(rgb[0], rgb[1], rgb[2]);
+			// Shadows act on dark tones, highlights on bright ones; the shift is shared by all channels to keep hue
+			const shift = 0.25 * (shadows * (1 - l) * (1 - l) + highlights * l * l);
+			for (let c = 0; c < 3; c++) {
+				let v = rgb[c] + shift;
+				// Blacks/whites move the end points of the tone range
+				v = blacks >= 0 ? blacks * 0.15 + v * (1 - blacks * 0.15) : (v + blacks * 0.15) / (1 + blacks * 0.15);
+				v = whites >= 0 ? v / (1 - whites * 0.15) : v * (1 + whites * 0.15);
+				rgb[c] = clamp01(v);
+			}
+		}
+
+		for (const step of contrastSteps) applyCSSStep(step, rgb);
+		if (vibrance !== 0) applyVibrance(rgb, vibrance);
+		for (const step of hueSteps) applyCSSStep(step, rgb);
+
+		if (fade !== 0) {
+			// Lifted blacks and dimmed whites of washed-out film
+			for (let c = 0; c < 3; c++) {
+				rgb[c] = clamp01(fade * 0.12 + rgb[c] * (1 - fade * 0.2));
+			}
+		}
+
+		data[i] = Math.round(rgb[0] * 255);
+		data[i + 1] = Math.round(rgb[1] * 255);
+		data[i + 2] = Math.round(rgb[2] * 255);
+	}
+
+	return pixels;
+}
+
+// Saturation boost weighted toward muted colors
+function applyVibrance(rgb: number[], vibrance: number) {
+	const max = Math.max(rgb[0], rgb[1], rgb[2]);
+	const min = Math.min(rgb[0], rgb[1], rgb[2]);
+	const amount = 1 + vibrance * (1 - (max - min));
+	const l = luma(rgb[0], rgb[1], rgb[2]);
+	for (let c = 0; c < 3; c++) {
+		rgb[c] = clamp01(l + (rgb[c] - l) * amount);
+	}
+}
+
+// Separable box blur of a single channel
+function boxBlur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+	const temp = new Float32Array(values.length);
+	const out = new Float32Array(values.length);
+	const size = radius * 2 + 1;
+
+	for (let y = 0; y < height; y++) {
+		let sum = 0;
+		for (let x = -radius; x <= radius; x++) {
+			sum += values[y * width + Math.min(width - 1, Math.max(0, x))];
+		}
+		for (let x = 0; x < width; x++) {
+			temp[y * width + x] = sum / size;
+			const add = Math.min(width - 1, x + radius + 1);
+			const remove = Math.max(0, x - radius);
+			sum += values[y * width + add] - values[y * width + remove];
+		}
+	}
+
+	for (let x = 0; x < width; x++) {
+		let sum = 0;
+		for (let y = -radius; y <= radius; y++) {
+			sum += temp[Math.min(height - 1, Math.max(0, y)) * width + x];
+		}
+		for (let y = 0; y < height; y++) {
+			out[y * width + x] = sum / size;
+			const add = Math.min(height - 1, y + radius + 1);
+			const remove = Math.max(0, y - radius);
+			sum += temp[add * width + x] - temp[remove * width + x];
+		}
+	}
+
+	return out;
+}
+
+// Unsharp mask on luminance: sharpness uses fine detail, clarity midtone local contrast
+export function applyDetailAdjustments(pixels: PixelBuffer, adj: AdjustmentSet): PixelBuffer {
+	const sharpness = (adj.sharpness ?? 0) / 100;
+	const clarity = (adj.clarity ?? 0) / 100;
+	if (sharpness === 0 && clarity === 0) return pixels;
+
+	const { data, width, height } = pixels;
+	const lum = new Float32Array(width * height);
+	for (let p = 0; p < lum.length; p++) {
+		lum[p] = luma(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+	}
+
+	const fine = sharpness !== 0 ? boxBlur(lum, width, height, 1) : null;
+	const coarse = clarity !== 0 ? boxBlur(lum, width, height, Math.max(2, Math.round(Math.min(width, height) / 100))) : null;
+
+	for (let p = 0; p < lum.length; p++) {
+		const l = lum[p];
+		let delta = 0;
+		if (fine) delta += sharpness * (l - fine[p]);
+		if (coarse) {
+			const midtone = 1 - Math.abs(2 * (l / 255) - 1);
+			delta += clarity * 0.6 * midtone * (l - coarse[p]);
+		}
+		data[p * 4] += delta;
+		data[p * 4 + 1] += delta;
+		data[p * 4 + 2] += delta;
+	}
+
+	return pixels;
+}
+
+// Radial darkening (positive) or lightening (negative) toward the corners
+export function applyVignette(pixels: PixelBuffer, vignette: number = 0): PixelBuffer {
+	const v = vignette / 100;
+	if (v === 0) return pixels;
+
+	const { data, width, height } = pixels;
+	const cx = width / 2;
+	const cy = height / 2;
+	const maxDist = Math.sqrt(cx * cx + cy * cy) || 1;
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const dx = x + 0.5 - cx;
+			const dy = y + 0.5 - cy;
+			const d = Math.sqrt(dx * dx + dy * dy) / maxDist;
+			// Smoothstep from 40% of the radius out to the corners
+			const t = clamp01((d - 0.4) / 0.6);
+			const falloff = t * t * (3 - 2 * t) * 0.6 * Math.abs(v);
+			if (falloff === 0) continue;
+
+			const i = (y * width + x) * 4;
+			for (let c = 0; c < 3; c++) {
+				data[i + c] = v > 0 ? data[i + c] * (1 - falloff) : data[i + c] + (255 - data[i + c]) * falloff;
+			}
+		}
+	}
+
+	return pixels;
+}
+
+// Deterministic film grain (same recipe, same output)
+export function applyGrain(pixels: PixelBuffer, grain: number = 0): PixelBuffer {
+	const amount = (grain / 100) * 40;
+	if (amount === 0) return pixels;
+
+	const { data } = pixels;
+	for (let p = 0; p < data.length / 4; p++) {
+		let h = Math.imul(p ^ 0x9e3779b9, 0x85ebca6b);
+		h ^= h >>> 13;
+		h = Math.imul(h, 0xc2b2ae35);
+		h ^= h >>> 16;
+		const noise = ((h >>> 0) / 0xffffffff - 0.5) * amount;
+		data[p * 4] += noise;
+		data[p * 4 + 1] += noise;
+		data[p * 4 + 2] += noise;
+	}
+
+	return pixels;
+}
+
+// Bilinear sample into out[o..o+3]; outside the source is transparent
+function sampleBilinear(src: PixelBuffer, x: number, y: number, out: Uint8ClampedArray, o: number) {
+	const { data, width, height } = src;
+	if (x < -0.5 || y < -0.5 || x > width - 0.5 || y > height - 0.5) {
+		out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 0;
+		return;
+	}
+
+	const x0 = Math.max(0, Math.min(width - 1, Math.floor(x)));
+	const y0 = Math.max(0, Math.min(height - 1, Math.floor(y)));
+	const x1 = Math.min(width - 1, x0 + 1);
+	const y1 = Math.min(height - 1, y0 + 1);
+	const fx = clamp01(x - x0);
+	const fy = clamp01(y - y0);
+
+	for (let c = 0; c < 4; c++) {
+		const top = data[(y0 * width + x0) * 4 + c] * (1 - fx) + data[(y0 * width + x1) * 4 + c] * fx;
+		const bottom = data[(y1 * width + x0) * 4 + c] * (1 - fx) + data[(y1 * width + x1) * 4 + c] * fx;
+		out[o + c] = top * (1 - fy) + bottom * fy;
+	}
+}
+
+// Flip, then rotate clockwise by angle degrees; the canvas grows to fit the rotated image
+export function rotatePixels(pixels: PixelBuffer, rotation?: RotationSettings): PixelBuffer {
+	if (!rotation?.enabled) return pixels;
+
+	const angle = ((rotation.angle % 360) + 360) % 360;
+	if (angle === 0 && !rotation.flipHorizontal && !rotation.flipVertical) return pixels;
+
+	const rad = (angle * Math.PI) / 180;
+	// Exact trig for right angles keeps 90° rotations lossless
+	const rightAngle = angle % 90 === 0;
+	const cos = rightAngle ? Math.round(Math.cos(rad)) : Math.cos(rad);
+	const sin = rightAngle ? Math.round(Math.sin(rad)) : Math.sin(rad);
+
+	const { width, height } = pixels;
+	const outWidth = Math.max(1, Math.ceil(Math.abs(width * cos) + Math.abs(height * sin) - 1e-6));
+	const outHeight = Math.max(1, Math.ceil(Math.abs(width * sin) + Math.abs(height * cos) - 1e-6));
+	const out = createPixelBuffer(outWidth, outHeight);
+
+	for (let y = 0; y < outHeight; y++) {
+		for (let x = 0; x < outWidth; x++) {
+			// Inverse-rotate the output pixel center into the (flipped) source
+			const dx = x + 0.5 - outWidth / 2;
+			const dy = y + 0.5 - outHeight / 2;
+			let sx = dx * cos + dy * sin;
+			let sy = -dx * sin + dy * cos;
+			if (rotation.flipHorizontal) sx = -sx;
+			if (rotation.flipVertical) sy = -sy;
+			sampleBilinear(pixels, sx + width / 2 - 0.5, sy + height / 2 - 0.5, out.data, (y * outWidth + x) * 4);
+		}
+	}
+
+	return out;
+}
+
+// Crop rectangle is normalized (0-1) to the image after rotation
+export function cropPixels(pixels: PixelBuffer, crop?: CropSettings): PixelBuffer {
+	if (!crop?.enabled) return pixels;
+
+	const { width, height } = pixels;
+	const x0 = Math.round(clamp01(crop.x) * width);
+	const y0 = Math.round(clamp01(crop.y) * height);
+	const x1 = Math.round(clamp01(crop.x + crop.width) * width);
+	const y1 = Math.round(clamp01(crop.y + crop.height) * height);
+	const outWidth = Math.max(1, x1 - x0);
+	const outHeight = Math.max(1, y1 - y0);
+	if (x0 === 0 && y0 === 0 && outWidth === width && outHeight === height) return pixels;
+
+	const out = createPixelBuffer(outWidth, outHeight);
+	for (let y = 0; y < outHeight; y++) {
+		const start = ((y0 + y) * width + x0) * 4;
+		out.data.set(pixels.data.subarray(start, start + outWidth * 4), y * outWidth * 4);
+	}
+	return out;
+}
+
+export function isIdentityRecipe(recipe: EditRecipe): boolean {
+	return !recipe.crop?.enabled
+		&& !recipe.rotation?.enabled
+		&& Object.values(recipe.adjustments).every(value => !value);
+}
+
+// Full pipeline; the source buffer is never modified
+export function renderEdits(source: PixelBuffer, recipe: EditRecipe): PixelBuffer {
+	let pixels = rotatePixels(source, recipe.rotation);
+	pixels = cropPixels(pixels, recipe.crop);
+	if (pixels === source) {
+		pixels = clonePixels(source);
+	}
+
+	const adj = recipe.adjustments;
+	applyColorAdjustments(pixels, adj);
+	applyDetailAdjustments(pixels, adj);
+	applyVignette(pixels, adj.vignette);
+	applyGrain(pixels, adj.grain);
+	return pixels;
+}
+
+// Canvas helpers (browser only)
+
+function createCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+	if (typeof OffscreenCanvas !== 'undefined') {
+		return new OffscreenCanvas(width, height);
+	}
+	const canvas = document.createElement('canvas');
+	canvas.width = width;
+	canvas.height = height;
+	return canvas;
+}
+
+function get2DContext(canvas: OffscreenCanvas | HTMLCanvasElement) {
+	const ctx = canvas.getContext('2d', { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+	if (!ctx) throw new Error('Failed to get canvas context');
+	return ctx;
+}
+
+// Decode an image (data URL, object URL or Blob), optionally downscaled so the long side fits maxSide
+export async function decodePixels(source: string | Blob, maxSide?: number): Promise<PixelBuffer> {
+	const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+	const bitmap = await createImageBitmap(blob);
+
+	const scale = maxSide ? Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height)) : 1;
+	const width = Math.max(1, Math.round(bitmap.width * scale));
+	const height = Math.max(1, Math.round(bitmap.height * scale));
+
+	const ctx = get2DContext(createCanvas(width, height));
+	ctx.drawImage(bitmap, 0, 0, width, height);
+	bitmap.close();
+
+	return ctx.getImageData(0, 0, width, height);
+}
+
+export async function encodePixels(pixels: PixelBuffer, format: ExportFormat = 'jpeg', quality: number = 0.9): Promise<Blob> {
+	const canvas = createCanvas(pixels.width, pixels.height);
+	const ctx = get2DContext(canvas);
+	ctx.putImageData(new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height), 0, 0);
+
+	const type = `image/${format}`;
+	if ('convertToBlob' in canvas) {
+		return canvas.convertToBlob({ type, quality });
+	}
+	return new Promise((resolve, reject) => {
+		canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Image encoding failed'))), type, quality);
+	});
+}
@@ -1,26 +1,20 @@
+import { get } from 'svelte/store';
 import { getAnalyticsManager } from './analytics';
+import {
+	enqueueJob,
+	getJobQueue,
+	jobQueueStatus,
+	type EnqueueOptions,
+	type Job,
+	type JobPayloads,
+	type JobType
+} from '$lib/services/jobQueue';
 
 /**
  * Offline mode and data persistence system
  * Enables app functionality without network connection
  */
 
-export interface OfflineData {
-	timestamp: number;
-	type: string;
-	data: any;
-}
-
-export interface SyncOperation {
-	id: string;
-	type: 'upload' | 'download' | 'delete';
-	data: any;
-	status: 'pending' | 'syncing' | 'completed' | 'failed';
-	attempts: number;
-	lastAttempt?: number;
-	error?: string;
-}
-
 export interface CacheEntry {
 	key: string;
 	value: any;
@@ -40,25 +34,21 @@ export interface StorageUsage {
 interface OfflineConfig {
 	maxCacheSize: number; // bytes
 	maxOfflineData: number; // bytes
-	syncRetryInterval: number; // ms
-	syncRetryAttempts: number
 }
 
 const DEFAULT_CONFIG: OfflineConfig = {
 	maxCacheSize: 50 * 1024 * 1024, // 50MB
-	maxOfflineData: 100 * 1024 * 1024, // 100MB
-	syncRetryInterval: 30000, // 30 seconds
-	syncRetryAttempts: 3
+	maxOfflineData: 100 * 1024 * 1024 // 100MB
 };
 
+// localStorage keys of the queue that the jobs table replaced
+const LEGACY_QUEUE_KEYS = ['offline_queue', 'sync_operations'];
+
 // Offline manager
 export class OfflineManager {
 	private isOnline = $state(true);
 	private config: OfflineConfig;
 	private cache: Map<string, CacheEntry> = new Map();
-	private offlineQueue: OfflineData[] = [];
-	private syncOperations: Map<string, SyncOperation> = new Map();
-	private syncInterval: ReturnType<typeof setInterval> | null = null;
 
 	constructor(config: Partial<OfflineConfig> = {}) {
 		this.config = { ...DEFAULT_CONFIG, ...config };
@@ -73,11 +63,8 @@ export class OfflineManager {
 		// Load cached data
 		this.loadCache();
 
-		// Load offline queue
-		this.loadOfflineQueue();
-
-		// Load sync operations
-		this.loadSyncOperations();
+		// Queued work lives in IndexedDB now
+		LEGACY_QUEUE_KEYS.forEach(key => localStorage.removeItem(key));
 
 		// Setup network listeners
 		window.addEventListener('online', this.handleOnline);
@@ -92,13 +79,10 @@ export class OfflineManager {
 		this.isOnline = true;
 		console.log('App is online');
 
-		// Start syncing
-		this.startSync();
-
-		// Track event
+		// The job queue runner drains on its own when the connection returns
 		const analytics = getAnalyticsManager();
 		analytics.trackEvent('connection_restored', {
-			pendingOperations: this.offlineQueue.length
+			pendingOperations: get(jobQueueStatus).pending
 		});
 	};
 
@@ -107,9 +91,6 @@ export class OfflineManager {
 		this.isOnline = false;
 		console.log('App is offline');
 
-		// Stop syncing
-		this.stopSync();
-
 		// Track event
 		const analytics = getAnalyticsManager();
 		analytics.trackEvent('connection_lost', {});
@@ -210,173 +191,31 @@ export class OfflineManager {
 		this.saveCache();
 	}
 
-	// Add data to offline queue
-	addToOfflineQueue(type: string, data: any): void {
-		const offlineData: OfflineData = {
-			timestamp: Date.now(),
-			type,
-			data
-		};
-
-		this.offlineQueue.push(offlineData);
-		this.saveOfflineQueue();
-	}
-
-	// Process offline queue
-	async processOfflineQueue(): Promise<void> {
-		if (!this.isOnline || this.offlineQueue.length === 0) {
-			return;
-		}
-
-		const analytics = getAnalyticsManager();
-
-		for (const item of this.offlineQueue) {
-			try {
-				await this.syncOfflineItem(item);
-
-				// Remove from queue on success
-				this.offlineQueue = this.offlineQueue.filter(i => i !== item);
-
-				analytics.trackEvent('offline_item_synced', {
-					type: item.type
-				});
-			} catch (error) {
-				console.error('Failed to sync offline item:', error);
-
-				analytics.trackEvent('offline_item_failed', {
-					type: item.type,
-					error: String(error)
-				});
-			}
-		}
-
-		this.saveOfflineQueue();
-	}
-
-	// Sync individual offline item
-	private async syncOfflineItem(item: OfflineData): Promise<void> {
-		// This would integrate with your actual sync logic
-		console.log('Syncing offline item:', item.type, item.data);
-
-		// Simulate sync operation
-		return new Promise((resolve) => {
-			setTimeout(resolve, 100);
-		});
-	}
-
-	// Create sync operation
-	createSyncOperation(type: SyncOperation['type'], data: any): string {
-		const id = `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-		const operation: SyncOperation = {
-			id,
-			type,
-			data,
-			status: 'pending',
-			attempts: 0
-		};
-
-		this.syncOperations.set(id, operation);
-		this.saveSyncOperations();
-
-		return id;
+	// Queue an operation to run once it can (network-bound jobs wait until online)
+	addToOfflineQueue<T extends JobType>(type: T, payload: JobPayloads[T], options?: EnqueueOptions): Promise<Job<T>> {
+		return enqueueJob(type, payload, options);
 	}
 
-	// Execute sync operation
-	async executeSyncOperation(id: string): Promise<boolean> {
-		const operation = this.syncOperations.get(id);
-		if (!operation) {
-			return false;
+	// Run whatever is due now; returns how many jobs ran
+	async processOfflineQueue(): Promise<number> {
+		if (!this.isOnline) {
+			return 0;
 		}
 
-		operation.status = 'syncing';
-		operation.attempts++;
-		operation.lastAttempt = Date.now();
-		this.saveSyncOperations();
-
-		try {
-			// Perform the actual sync
-			await this.performSync(operation);
-
-			operation.status = 'completed';
-			this.saveSyncOperations();
-
+		const ran = await getJobQueue().drain();
+		if (ran > 0) {
 			const analytics = getAnalyticsManager();
-			analytics.trackEvent('sync_operation_completed', {
-				type: operation.type,
-				attempts: operation.attempts
+			analytics.trackEvent('offline_queue_processed', {
+				jobs: ran,
+				deadLettered: get(jobQueueStatus).dead
 			});
-
-			return true;
-		} catch (error) {
-			operation.status = 'failed';
-			operation.error = String(error);
-			this.saveSyncOperations();
-
-			// Retry if under limit
-			if (operation.attempts < this.config.syncRetryAttempts) {
-				setTimeout(() => {
-					this.executeSyncOperation(id);
-				}, this.config.syncRetryInterval);
-			}
-
-			return false;
 		}
+		return ran;
 	}
 
-	// Perform actual sync operation
-	private async performSync(operation: SyncOperation): Promise<void> {
-		// This would integrate with your actual sync logic
-		console.log('Performing sync:', operation.type, operation.data);
-
-		// Simulate sync operation
-		return new Promise((resolve, reject) => {
-			setTimeout(() => {
-				// Simulate 90% success rate
-				if (Math.random() < 0.9) {
-					resolve();
-				} else {
-					reject(new Error('Sync failed'));
-				}
-			}, 500);
-		});
-	}
-
-	// Get pending sync operations
-	getPendingSyncOperations(): SyncOperation[] {
-		return Array.from(this.syncOperations.values()).filter(
-			op => op.status === 'pending' || op.status === 'syncing'
-		);
-	}
-
-	// Start automatic sync
-	startSync(): void {
-		if (this.syncInterval) {
-			return;
-		}
-
-		this.syncInterval = setInterval(async () => {
-			if (!this.isOnline) return;
-
-			// Process offline queue
-			await this.processOfflineQueue();
-
-			// Execute pending sync operations
-			const pendingOps = this.getPendingSyncOperations();
-			for (const op of pendingOps) {
-				if (op.status === 'pending') {
-					await this.executeSyncOperation(op.id);
-				}
-			}
-		}, this.config.syncRetryInterval);
-	}
-
-	// Stop automatic sync
-	stopSync(): void {
-		if (this.syncInterval) {
-			clearInterval(this.syncInterval);
-			this.syncInterval = null;
-		}
+	// Jobs waiting to run, running, or dead-lettered
+	getPendingJobs(): Job[] {
+		return get(jobQueueStatus).jobs;
 	}
 
 	// Get storage usage
@@ -389,15 +228,10 @@ export class OfflineManager {
 		used += cacheSize;
 		breakdown.cache = cacheSize;
 
-		// Offline queue size
-		const queueSize = new Blob([JSON.stringify(this.offlineQueue)]).size;
+		// Queued jobs (payloads are small; photos stay in their own table)
+		const queueSize = new Blob([JSON.stringify(get(jobQueueStatus).jobs)]).size;
 		used += queueSize;
-		breakdown.offlineQueue = queueSize;
-
-		// Sync operations size
-		const syncSize = new Blob([JSON.stringify(Array.from(this.syncOperations.values()))]).size;
-		used += syncSize;
-		breakdown.syncOperations = syncSize;
+		breakdown.jobQueue = queueSize;
 
 		return {
 			used,
@@ -442,75 +276,18 @@ export class OfflineManager {
 		}
 	}
 
-	// Save offline queue to localStorage
-	private saveOfflineQueue(): void {
-		if (typeof window === 'undefined') return;
-
-		try {
-			localStorage.setItem('offline_queue', JSON.stringify(this.offlineQueue));
-		} catch (e) {
-			console.error('Failed to save offline queue:', e);
-		}
-	}
-
-	// Load offline queue from localStorage
-	private loadOfflineQueue(): void {
-		if (typeof window === 'undefined') return;
-
-		try {
-			const stored = localStorage.getItem('offline_queue');
-			if (stored) {
-				this.offlineQueue = JSON.parse(stored);
-			}
-		} catch (e) {
-			console.error('Failed to load offline queue:', e);
-		}
-	}
-
-	// Save sync operations to localStorage
-	private saveSyncOperations(): void {
-		if (typeof window === 'undefined') return;
-
-		try {
-			const data = Array.from(this.syncOperations.entries());
-			localStorage.setItem('sync_operations', JSON.stringify(data));
-		} catch (e) {
-			console.error('Failed to save sync operations:', e);
-		}
-	}
-
-	// Load sync operations from localStorage
-	private loadSyncOperations(): void {
-		if (typeof window === 'undefined') return;
-
-		try {
-			const stored = localStorage.getItem('sync_operations');
-			if (stored) {
-				const data = JSON.parse(stored);
-				this.syncOperations = new Map(data);
-			}
-		} catch (e) {
-			console.error('Failed to load sync operations:', e);
-		}
-	}
-
 	// Clear all offline data
 	clearAllOfflineData(): void {
 		this.cache.clear();
-		this.offlineQueue = [];
-		this.syncOperations.clear();
+		getJobQueue().clear().catch(error => console.error('Failed to clear job queue:', error));
 
 		if (typeof window !== 'undefined') {
 			localStorage.removeItem('offline_cache');
-			localStorage.removeItem('offline_queue');
-			localStorage.removeItem('sync_operations');
 		}
 	}
 
 	// Destroy
 	destroy(): void {
-		this.stopSync();
-
 		if (typeof window !== 'undefined') {
 			window.removeEventListener('online', this.handleOnline);
 			window.removeEventListener('offline', this.handleOffline);
@@ -10,13 +10,16 @@ export const PERF_CONFIG = {
 
 	// Caching
 	cacheEnabled: true,
-	cacheMaxAge: 1000, // Max age of cached results in ms
+	cacheMaxAge: 8000, // Max age of cached results in ms (stale-scene refreshes bypass the cache instead)
 	cacheMaxSize: 10, // Maximum number of cached results
 
 	// Frame processing
 	frameSkipRate: 2, // Process every Nth frame for performance
 	maxConcurrentRequests: 1, // Maximum simultaneous AI requests
 
+	// Scene-change gating
+	sceneStaleAfter: 8000, // Re-analyze an unchanged scene after this many ms
+
 	// Quality settings
 	lowQualityThreshold: 30, // FPS below this triggers quality reduction
 	analysisResolution: 0.5, // Scale factor for analysis (0.5 = half resolution)
@@ -283,6 +286,11 @@ export function generatePoseCacheKey(pose: any, style?: string): string {
 	return `${poseString}-${styleString}`;
 }
 
+// Cache key for a frame analysis, keyed by the frame's perceptual hash
+export function generateFrameCacheKey(request: string, frameHash: string, style?: string): string {
+	return `${request}-${frameHash}-${style || ''}`;
+}
+
 // Create singleton instances
 export const analysisCache = new AnalysisCache();
 export const requestQueue = new RequestQueue();
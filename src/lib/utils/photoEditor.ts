@@ -1,3 +1,6 @@
+import type { PhotoEdit } from '$lib/types';
+import { cssFilterString, decodePixels, encodePixels, isIdentityRecipe, renderEdits, type EditRecipe, type ExportFormat } from '$lib/utils/imagePipeline';
+
 /**
  * Photo editing and filter system
  * Real-time photo adjustments and filters
@@ -33,6 +36,7 @@ export interface AdjustmentSet {
 
 export interface CropSettings {
 	enabled: boolean;
+	// Normalized (0-1) to the image after rotation
 	x: number;
 	y: number;
 	width: number;
@@ -185,15 +189,41 @@ export const FILTER_PRESETS: FilterPreset[] = [
 export class PhotoEditor {
 	private state: PhotoEditState | null = null;
 	private maxHistory = 50;
+	private previewMaxSide = 1024;
+	private previewVersion = 0;
+	private renderPreview: boolean;
+
+	// renderPreview: false skips the background currentImage render (callers that render renditions themselves)
+	constructor(options: { renderPreview?: boolean } = {}) {
+		this.renderPreview = options.renderPreview ?? true;
+	}
 
-	// Initialize with image
-	initialize(imageData: string): void {
+	// Initialize with image, optionally resuming a saved edit
+	initialize(imageData: string, saved?: PhotoEdit): void {
 		this.state = {
 			originalImage: imageData,
 			currentImage: imageData,
-			adjustments: {},
-			history: [],
-			historyIndex: -1
+			adjustments: { ...(saved?.adjustments || {}) },
+			filter: saved?.filterId ? PhotoEditor.getFilterById(saved.filterId) : undefined,
+			crop: saved?.crop,
+			rotation: saved?.rotation,
+			history: saved ? [...saved.history] : [],
+			historyIndex: saved ? saved.historyIndex : -1
+		};
+
+		if (saved) {
+			this.updateCurrentImage();
+		}
+	}
+
+	// Snapshot for photoEditService.save
+	toPhotoEdit(photoId: string): Omit<PhotoEdit, 'rendition' | 'updatedAt'> {
+		return {
+			photoId,
+			...this.getRecipe(),
+			filterId: this.state?.filter?.id,
+			history: [...(this.state?.history || [])],
+			historyIndex: this.state?.historyIndex ?? -1
 		};
 	}
 
@@ -364,14 +394,21 @@ export class PhotoEditor {
 		return this.state?.originalImage || null;
 	}
 
-	// Export edited image
-	async exportImage(format: 'jpeg' | 'png' | 'webp' = 'jpeg', quality: number = 0.9): Promise<Blob> {
+	// Current edits as a replayable recipe
+	getRecipe(): EditRecipe {
+		return {
+			adjustments: { ...(this.state?.adjustments || {}) },
+			crop: this.state?.crop,
+			rotation: this.state?.rotation
+		};
+	}
+
+	// Export edited image at full resolution
+	async exportImage(format: ExportFormat = 'jpeg', quality: number = 0.9): Promise<Blob> {
 		if (!this.state) throw new Error('No image loaded');
 
-		// This would use Canvas API to apply adjustments and export
-		// For now, return original as placeholder
-		const response = await fetch(this.state.currentImage);
-		return response.blob();
+		const pixels = await decodePixels(this.state.originalImage);
+		return encodePixels(renderEdits(pixels, this.getRecipe()), format, quality);
 	}
 
 	// Add to history
@@ -445,34 +482,36 @@ export class PhotoEditor {
 		this.updateCurrentImage();
 	}
 
-	// Update current image (placeholder)
+	// Re-render the downscaled preview through the export pipeline; stale renders are dropped
 	private updateCurrentImage(): void {
-		// This would apply CSS filters or Canvas transformations
-		// For now, keep original image
-		if (this.state) {
-			this.state.currentImage = this.state.originalImage;
+		if (!this.state) return;
+
+		const state = this.state;
+		const recipe = this.getRecipe();
+		const version = ++this.previewVersion;
+
+		if (!this.renderPreview || isIdentityRecipe(recipe)) {
+			state.currentImage = state.originalImage;
+			return;
 		}
+
+		decodePixels(state.originalImage, this.previewMaxSide)
+			.then((pixels) => encodePixels(renderEdits(pixels, recipe), 'jpeg', 0.85))
+			.then((blob) => blobToDataURL(blob))
+			.then((url) => {
+				if (version === this.previewVersion && this.state === state) {
+					state.currentImage = url;
+				}
+			})
+			.catch((error) => console.error('Preview render failed:', error));
 	}
 
-	// Generate CSS filter string for preview
+	// Generate CSS filter string for live preview
+	// Covers exposure, brightness, contrast, saturation and hue with the same math as export;
+	// the remaining adjustments only show up in the rendered currentImage
 	generateCSSFilter(): string {
 		if (!this.state) return '';
-
-		const adj = this.state.adjustments;
-		const filters: string[] = [];
-
-		if (adj.brightness) filters.push(`brightness(${100 + adj.brightness}%)`);
-		if (adj.contrast) filters.push(`contrast(${100 + adj.contrast}%)`);
-		if (adj.exposure) filters.push(`brightness(${100 + adj.exposure}%)`);
-		if (adj.saturation) filters.push(`saturate(${100 + adj.saturation}%)`);
-		if (adj.hue) filters.push(`hue-rotate(${adj.hue}deg)`);
-		if (adj.grain) filters.push(`url(#noise)`); // SVG noise filter
-		if (adj.sepia) filters.push(`sepia(${adj.sepia}%)`);
-		if (adj.grayscale) filters.push(`grayscale(${adj.grayscale}%)`);
-		if (adj.invert) filters.push(`invert(${adj.invert}%)`);
-		if (adj.blur) filters.push(`blur(${adj.blur}px)`);
-
-		return filters.join(' ');
+		return cssFilterString(this.state.adjustments);
 	}
 
 	// Get filter by ID
@@ -486,6 +525,15 @@ export class PhotoEditor {
 	}
 }
 
+function blobToDataURL(blob: Blob): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(blob);
+	});
+}
+
 // Global photo editor instance
 let globalPhotoEditor: PhotoEditor | null = null;
 
@@ -1,4 +1,5 @@
-import { getGLMService } from '../services/glm';
+import { getVisionProvider } from '../services/vision';
+import { settings } from '../stores/settings';
 
 /**
  * AI-powered photo enhancement suggestions
@@ -209,7 +210,6 @@ export const ENHANCEMENT_PROFILES: EnhancementProfile[] = [
 
 // Photo enhancement analyzer
 export class PhotoEnhancementAnalyzer {
-	private glmService = getGLMService();
 
 	// Analyze photo and generate enhancement suggestions
 	async analyzePhoto(imageBase64: string, context?: {
@@ -260,7 +260,7 @@ export class PhotoEnhancementAnalyzer {
   "suggested_type": "portrait"
 }`;
 
-			const response = await this.glmService.analyzePose(imageBase64, context?.pose);
+			const response = await getVisionProvider(settings.get()).analyzePose(imageBase64, context?.pose);
 			const cleanText = response.composition_suggestion || '';
 
 			// Try to parse structured response
@@ -0,0 +1,242 @@
+import type { Pose } from '$lib/types';
+import type { KeypointSides } from '$lib/utils/poseLandmarks';
+import { calculatePoseAccuracy } from '$lib/data/poseTemplates';
+
+/**
+ * On-device pose estimation
+ * Detectors run off the main thread and return the app's Pose type directly,
+ * so smoothing, accuracy, gestures and overlays work on real per-frame keypoints.
+ */
+
+export type PoseFrame = ImageBitmap | ImageData;
+
+export interface PoseDetectionResult {
+	pose: Pose;
+	score: number; // Mean visibility of the mapped keypoints (0-1)
+	timestamp: number;
+	inferenceMs: number;
+}
+
+// Any local backend (MediaPipe, MoveNet, ...) plugs in behind this interface
+export interface PoseDetector {
+	readonly id: string;
+	init(): Promise<void>;
+	// ImageBitmap frames are transferred to the detector and closed after use
+	detect(frame: PoseFrame, timestamp?: number): Promise<PoseDetectionResult | null>;
+	dispose(): void;
+}
+
+export interface PoseDetectorConfig {
+	wasmBaseUrl: string; // Directory holding the MediaPipe vision WASM files
+	modelAssetUrl: string; // .task model file
+	runningMode: 'VIDEO' | 'IMAGE'; // VIDEO tracks across frames, IMAGE treats every frame independently
+	minPoseConfidence: number;
+	minKeypointVisibility: number;
+	sides: KeypointSides;
+}
+
+export const DEFAULT_POSE_DETECTOR_CONFIG: PoseDetectorConfig = {
+	wasmBaseUrl: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@1.0.1/wasm',
+	modelAssetUrl: 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/latest/pose_landmarker_lite.task',
+	runningMode: 'VIDEO',
+	minPoseConfidence: 0.5,
+	minKeypointVisibility: 0.3,
+	sides: 'viewer'
+};
+
+// Downscaled snapshot of a video/image for detection (keypoints are normalized, so size only affects speed)
+export async function grabPoseFrame(
+	source: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement,
+	maxSide: number = 320
+): Promise<ImageBitmap> {
+	const width = source instanceof HTMLVideoElement ? source.videoWidth
+		: source instanceof HTMLImageElement ? source.naturalWidth
+		: source.width;
+	const height = source instanceof HTMLVideoElement ? source.videoHeight
+		: source instanceof HTMLImageElement ? source.naturalHeight
+		: source.height;
+
+	const scale = Math.min(1, maxSide / Math.max(width, height, 1));
+	return createImageBitmap(source, {
+		resizeWidth: Math.max(1, Math.round(width * scale)),
+		resizeHeight: Math.max(1, Math.round(height * scale)),
+		resizeQuality: 'low'
+	});
+}
+
+// Messages exchanged with poseDetector.worker.ts
+export type PoseWorkerRequest =
+	| { type: 'init'; config: PoseDetectorConfig }
+	| { type: 'detect'; id: number; frame: PoseFrame; timestamp: number };
+
+export type PoseWorkerResponse =
+	| { type: 'ready' }
+	| { type: 'result'; id: number; result: PoseDetectionResult | null }
+	| { type: 'error'; id?: number; message: string };
+
+// MediaPipe PoseLandmarker on the CPU/WASM delegate, running in a Web Worker
+export class WorkerPoseDetector implements PoseDetector {
+	readonly id = 'mediapipe-blazepose';
+	private config: PoseDetectorConfig;
+	private worker: Worker | null = null;
+	private ready: Promise<void> | null = null;
+	private nextRequestId = 1;
+	private pending = new Map<number, { resolve: (result: PoseDetectionResult | null) => void; reject: (error: Error) => void }>();
+
+	constructor(config: Partial<PoseDetectorConfig> = {}) {
+		this.config = { ...DEFAULT_POSE_DETECTOR_CONFIG, ...config };
+	}
+
+	// True while a frame is being processed; callers drop frames instead of queueing them
+	get busy(): boolean {
+		return this.pending.size > 0;
+	}
+
+	init(): Promise<void> {
+		if (this.ready) return this.ready;
+
+		this.ready = new Promise<void>((resolve, reject) => {
+			const worker = new Worker(new URL('./poseDetector.worker.ts', import.meta.url), { type: 'module' });
+			this.worker = worker;
+
+			worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+				const message = event.data;
+				if (message.type === 'ready') {
+					resolve();
+				} else if (message.type === 'result') {
+					this.pending.get(message.id)?.resolve(message.result);
+					this.pending.delete(message.id);
+				} else if (message.id !== undefined) {
+					this.pending.get(message.id)?.reject(new Error(message.message));
+					this.pending.delete(message.id);
+				} else {
+					reject(new Error(message.message));
+				}
+			};
+
+			worker.onerror = (event) => {
+				const error = new Error(event.message || 'Pose detector worker failed');
+				reject(error);
+				this.rejectPending(error);
+			};
+
+			const request: PoseWorkerRequest = { type: 'init', config: this.config };
+			worker.postMessage(request);
+		});
+
+		// Allow a later retry (e.g. model download failed while offline)
+		this.ready.catch(() => this.dispose());
+		return this.ready;
+	}
+
+	async detect(frame: PoseFrame, timestamp: number = performance.now()): Promise<PoseDetectionResult | null> {
+		await this.init();
+		const worker = this.worker;
+		if (!worker) {
+			throw new Error('Pose detector disposed');
+		}
+
+		const id = this.nextRequestId++;
+		return new Promise((resolve, reject) => {
+			this.pending.set(id, { resolve, reject });
+			const request: PoseWorkerRequest = { type: 'detect', id, frame, timestamp };
+			worker.postMessage(request, frame instanceof ImageBitmap ? [frame] : []);
+		});
+	}
+
+	dispose() {
+		// Terminating the worker also frees the WASM heap and model
+		this.worker?.terminate();
+		this.worker = null;
+		this.ready = null;
+		this.rejectPending(new Error('Pose detector disposed'));
+	}
+
+	private rejectPending(error: Error) {
+		for (const { reject } of this.pending.values()) {
+			reject(error);
+		}
+		this.pending.clear();
+	}
+}
+
+export interface PoseDetectorSample {
+	name: string;
+	frame: PoseFrame;
+	expected?: Pose; // Hand-labelled ground truth, same side convention as the detector
+}
+
+export interface PoseDetectorSampleResult {
+	name: string;
+	pose: Pose | null;
+	keypointCount: number;
+	inferenceMs: number;
+	accuracy?: number; // calculatePoseAccuracy against the expected pose (0-100)
+	error?: string;
+}
+
+export interface PoseDetectorReport {
+	detectorId: string;
+	results: PoseDetectorSampleResult[];
+	detectionRate: number; // Share of samples with a detected pose (0-1)
+	meanAccuracy: number | null; // Over samples that have an expected pose
+	meanInferenceMs: number;
+}
+
+// Run a detector over still images, one at a time (used by the /dev/pose harness)
+export async function evaluatePoseDetector(detector: PoseDetector, samples: PoseDetectorSample[]): Promise<PoseDetectorReport> {
+	await detector.init();
+	const results: PoseDetectorSampleResult[] = [];
+
+	for (const sample of samples) {
+		const start = performance.now();
+		try {
+			const detection = await detector.detect(sample.frame);
+			const pose = detection?.pose ?? null;
+			results.push({
+				name: sample.name,
+				pose,
+				keypointCount: pose ? Object.keys(pose).length : 0,
+				inferenceMs: detection?.inferenceMs ?? performance.now() - start,
+				accuracy: sample.expected ? (pose ? calculatePoseAccuracy(sample.expected, pose) : 0) : undefined
+			});
+		} catch (error) {
+			results.push({
+				name: sample.name,
+				pose: null,
+				keypointCount: 0,
+				inferenceMs: performance.now() - start,
+				error: error instanceof Error ? error.message : String(error)
+			});
+		}
+	}
+
+	const detected = results.filter(r => r.pose);
+	const scored = results.filter((r): r is PoseDetectorSampleResult & { accuracy: number } => r.accuracy !== undefined);
+
+	return {
+		detectorId: detector.id,
+		results,
+		detectionRate: results.length > 0 ? detected.length / results.length : 0,
+		meanAccuracy: scored.length > 0 ? scored.reduce((sum, r) => sum + r.accuracy, 0) / scored.length : null,
+		meanInferenceMs: results.length > 0 ? results.reduce((sum, r) => sum + r.inferenceMs, 0) / results.length : 0
+	};
+}
+
+// Singleton instance
+let poseDetector: PoseDetector | null = null;
+
+// Takes precedence over the default detector (alternative backends, harness runs)
+let detectorOverride: PoseDetector | null = null;
+
+export function setPoseDetectorOverride(detector: PoseDetector | null) {
+	detectorOverride = detector;
+}
+
+export function getPoseDetector(): PoseDetector {
+	if (detectorOverride) return detectorOverride;
+	if (!poseDetector) {
+		poseDetector = new WorkerPoseDetector();
+	}
+	return poseDetector;
+}
@@ -0,0 +1,85 @@
+import { FilesetResolver, PoseLandmarker } from '@mediapipe/tasks-vision';
+import type { PoseDetectorConfig, PoseWorkerRequest, PoseWorkerResponse } from '$lib/utils/poseDetection';
+import { BLAZEPOSE_KEYPOINTS, landmarksToPose, poseScore } from '$lib/utils/poseLandmarks';
+
+/**
+ * Pose detection worker
+ * Hosts MediaPipe PoseLandmarker on the CPU delegate so inference never blocks the camera UI
+ */
+
+let landmarker: PoseLandmarker | null = null;
+let config: PoseDetectorConfig | null = null;
+// VIDEO mode rejects timestamps that do not strictly increase
+let lastTimestamp = -1;
+
+function reply(message: PoseWorkerResponse) {
+	self.postMessage(message);
+}
+
+async function init(nextConfig: PoseDetectorConfig) {
+	config = nextConfig;
+	const fileset = await FilesetResolver.forVisionTasks(config.wasmBaseUrl, true);
+	landmarker = await PoseLandmarker.createFromOptions(fileset, {
+		baseOptions: {
+			modelAssetPath: config.modelAssetUrl,
+			delegate: 'CPU'
+		},
+		runningMode: config.runningMode,
+		numPoses: 1,
+		minPoseDetectionConfidence: config.minPoseConfidence,
+		minPosePresenceConfidence: config.minPoseConfidence,
+		minTrackingConfidence: config.minPoseConfidence
+	});
+}
+
+function detect(frame: ImageBitmap | ImageData, timestamp: number) {
+	if (!landmarker || !config) {
+		throw new Error('Pose detector not initialized');
+	}
+
+	const start = performance.now();
+	let result;
+	if (config.runningMode === 'VIDEO') {
+		lastTimestamp = Math.max(timestamp, lastTimestamp + 1);
+		result = landmarker.detectForVideo(frame, lastTimestamp);
+	} else {
+		result = landmarker.detect(frame);
+	}
+	const inferenceMs = performance.now() - start;
+
+	const landmarks = result.landmarks[0];
+	if (!landmarks || landmarks.length === 0) return null;
+
+	const pose = landmarksToPose(landmarks, BLAZEPOSE_KEYPOINTS, config);
+	const score = poseScore(pose);
+	if (Object.keys(pose).length === 0 || score < config.minPoseConfidence) return null;
+
+	return { pose, score, timestamp, inferenceMs };
+}
+
+self.addEventListener('message', async (event: MessageEvent<PoseWorkerRequest>) => {
+	const message = event.data;
+
+	switch (message.type) {
+		case 'init':
+			try {
+				await init(message.config);
+				reply({ type: 'ready' });
+			} catch (error) {
+				reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+			}
+			break;
+
+		case 'detect':
+			try {
+				reply({ type: 'result', id: message.id, result: detect(message.frame, message.timestamp) });
+			} catch (error) {
+				reply({ type: 'error', id: message.id, message: error instanceof Error ? error.message : String(error) });
+			} finally {
+				if (message.frame instanceof ImageBitmap) {
+					message.frame.close();
+				}
+			}
+			break;
+	}
+});
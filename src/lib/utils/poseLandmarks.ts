@@ -0,0 +1,99 @@
+import type { Pose, PoseKeypoint } from '$lib/types';
+
+/**
+ * Keypoint topologies of common pose models and conversion to the app's Pose type
+ * Kept free of DOM and worker APIs so both the detector worker and the main thread can use it
+ */
+
+// Templates and prompts name left/right by the side of the frame ('viewer');
+// detectors name them from the subject's point of view ('subject')
+export type KeypointSides = 'viewer' | 'subject';
+
+export type KeypointIndexMap = Partial<Record<keyof Pose, number>>;
+
+// BlazePose (MediaPipe) 33-landmark topology
+export const BLAZEPOSE_KEYPOINTS: KeypointIndexMap = {
+	nose: 0,
+	left_eye: 2,
+	right_eye: 5,
+	left_ear: 7,
+	right_ear: 8,
+	left_shoulder: 11,
+	right_shoulder: 12,
+	left_elbow: 13,
+	right_elbow: 14,
+	left_wrist: 15,
+	right_wrist: 16,
+	left_pinky: 17,
+	right_pinky: 18,
+	left_index: 19,
+	right_index: 20,
+	left_thumb: 21,
+	right_thumb: 22,
+	left_hip: 23,
+	right_hip: 24,
+	left_knee: 25,
+	right_knee: 26,
+	left_ankle: 27,
+	right_ankle: 28
+};
+
+// COCO 17-keypoint topology (MoveNet, PoseNet, YOLO-pose); no hand points
+export const COCO_KEYPOINTS: KeypointIndexMap = {
+	nose: 0,
+	left_eye: 1,
+	right_eye: 2,
+	left_ear: 3,
+	right_ear: 4,
+	left_shoulder: 5,
+	right_shoulder: 6,
+	left_elbow: 7,
+	right_elbow: 8,
+	left_wrist: 9,
+	right_wrist: 10,
+	left_hip: 11,
+	right_hip: 12,
+	left_knee: 13,
+	right_knee: 14,
+	left_ankle: 15,
+	right_ankle: 16
+};
+
+function mirrorSide(key: keyof Pose): keyof Pose {
+	if (key.startsWith('left_')) return key.replace('left_', 'right_') as keyof Pose;
+	if (key.startsWith('right_')) return key.replace('right_', 'left_') as keyof Pose;
+	return key;
+}
+
+// Convert raw normalized landmarks into a Pose, dropping low-visibility points
+export function landmarksToPose(
+	landmarks: Array<{ x: number; y: number; visibility?: number }>,
+	indexMap: KeypointIndexMap,
+	options: { minKeypointVisibility: number; sides: KeypointSides } = { minKeypointVisibility: 0.3, sides: 'viewer' }
+): Pose {
+	const pose: Pose = {};
+
+	for (const [key, index] of Object.entries(indexMap) as Array<[keyof Pose, number]>) {
+		const landmark = landmarks[index];
+		if (!landmark) continue;
+
+		const visibility = landmark.visibility ?? 1;
+		if (visibility < options.minKeypointVisibility) continue;
+		if (landmark.x < 0 || landmark.x > 1 || landmark.y < 0 || landmark.y > 1) continue;
+
+		const keypoint: PoseKeypoint = {
+			x: Math.round(landmark.x * 1000) / 1000,
+			y: Math.round(landmark.y * 1000) / 1000,
+			visibility: Math.round(visibility * 100) / 100
+		};
+		pose[options.sides === 'viewer' ? mirrorSide(key) : key] = keypoint;
+	}
+
+	return pose;
+}
+
+export function poseScore(pose: Pose): number {
+	const keypoints = Object.values(pose).filter((kp): kp is PoseKeypoint => !!kp);
+	if (keypoints.length === 0) return 0;
+	return keypoints.reduce((sum, kp) => sum + (kp.visibility ?? 1), 0) / keypoints.length;
+}
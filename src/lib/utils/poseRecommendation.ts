@@ -1,7 +1,8 @@
 import type { Pose, PoseKeypoint, StyleProfile } from '$lib/types';
-import { POSE_TEMPLATES } from '$lib/data/poseTemplates';
+import { getAllPoseTemplates, getPoseTemplate } from '$lib/data/poseTemplates';
 import { calculatePoseDifficulty, calculatePoseSymmetry } from './poseMatching';
 import { validatePose } from './poseValidation';
+import { get } from 'svelte/store';
 import { adaptiveLearning } from '$lib/stores/adaptiveLearning';
 
 /**
@@ -79,9 +80,9 @@ function calculateSuitability(
 	let styleScore = 70;
 	if (context.styleId) {
 		// Check if pose matches style
-		const template = POSE_TEMPLATES.find((t) => t.id === poseId);
+		const template = getPoseTemplate(poseId);
 		if (template) {
-			styleScore = template.style === context.styleId ? 90 : Math.random() * 30 + 50;
+			styleScore = template.category === context.styleId ? 90 : Math.random() * 30 + 50;
 		}
 	}
 
@@ -201,12 +202,13 @@ function generatePoseTips(poseId: string, context: RecommendationContext): strin
 	}
 
 	// Pose-specific tips based on template
-	const template = POSE_TEMPLATES.find((t) => t.id === poseId);
+	const template = getPoseTemplate(poseId);
 	if (template) {
+		tips.push(...template.tips.slice(0, 1));
 		if (template.difficulty >= 4) {
 			tips.push('这个姿势较难，建议多练习几次');
 		}
-		if (template.style === 'portrait') {
+		if (template.category === 'portrait') {
 			tips.push('眼神看向镜头，展现自信');
 		}
 	}
@@ -217,20 +219,18 @@ function generatePoseTips(poseId: string, context: RecommendationContext): strin
 // Generate common mistakes
 function generateCommonMistakes(poseId: string): string[] {
 	const mistakes: string[] = [];
+	const template = getPoseTemplate(poseId);
 
-	// Common mistakes for all poses
-	mistakes.push('肩膀紧张耸起 → 深呼吸放松肩膀');
-	mistakes.push('双手僵硬无措 → 自然下垂或轻触身体');
+	// Pose-specific mistakes from the template; common ones for all poses otherwise
+	if (template?.commonMistakes.length) {
+		mistakes.push(...template.commonMistakes.map(({ mistake, correction }) => `${mistake} → ${correction}`));
+	} else {
+		mistakes.push('肩膀紧张耸起 → 深呼吸放松肩膀');
+		mistakes.push('双手僵硬无措 → 自然下垂或轻触身体');
+	}
 
-	// Pose-specific mistakes
-	const template = POSE_TEMPLATES.find((t) => t.id === poseId);
-	if (template) {
-		if (template.difficulty >= 3) {
-			mistakes.push('动作幅度过大 → 适度调整，保持自然');
-		}
-		if (template.style === 'formal') {
-			mistakes.push('姿态过于随意 → 保持挺直，展现优雅');
-		}
+	if (template && template.difficulty >= 3) {
+		mistakes.push('动作幅度过大 → 适度调整，保持自然');
 	}
 
 	return mistakes;
@@ -267,12 +267,12 @@ class IntelligentRecommendationEngine implements RecommendationEngine {
 	recommend(context: RecommendationContext): PoseRecommendation[] {
 		const recommendations: PoseRecommendation[] = [];
 
-		// Get all available poses
-		const poses = POSE_TEMPLATES;
+		// Get all available poses (built-in and user templates)
+		const poses = getAllPoseTemplates();
 
 		// Score and rank poses
 		const scoredPoses = poses
-			.map((template) => {
+			.map((template): PoseRecommendation => {
 				const pose = template.pose;
 				const poseId = template.id;
 
@@ -316,7 +316,7 @@ class IntelligentRecommendationEngine implements RecommendationEngine {
 					confidence,
 					reasons: generateRecommendationReasons(poseId, suitability, context),
 					difficulty: difficulty.difficulty,
-					tags: template.tags || [],
+					tags: [template.category],
 					estimatedTime: calculateEstimatedTime(difficulty.difficulty, context.experience || 'beginner'),
 					tips: generatePoseTips(poseId, context),
 					commonMistakes: generateCommonMistakes(poseId),
@@ -327,7 +327,7 @@ class IntelligentRecommendationEngine implements RecommendationEngine {
 			.sort((a, b) => b.confidence - a.confidence); // Sort by confidence
 
 		// Add adaptive learning recommendations
-		const learningState = adaptiveLearning.get();
+		const learningState = get(adaptiveLearning);
 		if (learningState.learningEnabled && learningState.weights.successfulPoses.length > 0) {
 			// Boost successful poses
 			for (const rec of scoredPoses) {
@@ -348,7 +348,7 @@ class IntelligentRecommendationEngine implements RecommendationEngine {
 
 		return trendingIds
 			.map((id) => {
-				const template = POSE_TEMPLATES.find((t) => t.id === id);
+				const template = getPoseTemplate(id);
 				if (!template) return null;
 
 				const difficulty = calculatePoseDifficulty(template.pose);
@@ -361,7 +361,7 @@ class IntelligentRecommendationEngine implements RecommendationEngine {
 					confidence: 0.8 + Math.random() * 0.2,
 					reasons: ['当前热门姿势', '用户好评如潮'],
 					difficulty: difficulty.difficulty,
-					tags: template.tags || [],
+					tags: [template.category],
 					estimatedTime: calculateEstimatedTime(difficulty.difficulty, 'intermediate'),
 					tips: generatePoseTips(template.id, {}),
 					commonMistakes: generateCommonMistakes(template.id),
@@ -390,7 +390,7 @@ class IntelligentRecommendationEngine implements RecommendationEngine {
 
 		return poses
 			.map((id) => {
-				const template = POSE_TEMPLATES.find((t) => t.id === id);
+				const template = getPoseTemplate(id);
 				if (!template) return null;
 
 				const difficulty = calculatePoseDifficulty(template.pose);
@@ -403,7 +403,7 @@ class IntelligentRecommendationEngine implements RecommendationEngine {
 					confidence: 0.75,
 					reasons: [`适合${season}季节`, '时节氛围感强'],
 					difficulty: difficulty.difficulty,
-					tags: [...(template.tags || []), season],
+					tags: [template.category, season],
 					estimatedTime: calculateEstimatedTime(difficulty.difficulty, 'intermediate'),
 					tips: generatePoseTips(template.id, {}),
 					commonMistakes: generateCommonMistakes(template.id),
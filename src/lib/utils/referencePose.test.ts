@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { Pose } from '$lib/types';
+import { analyzeFraming, fitReferencePose, scoreReferenceMatch } from '$lib/utils/referencePose';
+
+// A standing figure in square pixel units, centred at (cx, cy) of a frame `width` x `height` pixels
+function figure(width: number, height: number, cx: number, cy: number, size: number): Pose {
+	const points: Record<string, [number, number]> = {
+		nose: [0, -0.45],
+		left_shoulder: [-0.12, -0.3],
+		right_shoulder: [0.12, -0.3],
+		left_elbow: [-0.2, -0.1],
+		right_elbow: [0.2, -0.1],
+		left_wrist: [-0.22, 0.05],
+		right_wrist: [0.22, 0.05],
+		left_hip: [-0.08, 0.05],
+		right_hip: [0.08, 0.05],
+		left_knee: [-0.09, 0.3],
+		right_knee: [0.09, 0.3],
+		left_ankle: [-0.1, 0.55],
+		right_ankle: [0.1, 0.55]
+	};
+	const pose: Pose = {};
+	for (const [key, [dx, dy]] of Object.entries(points)) {
+		pose[key as keyof Pose] = { x: (cx + dx * size) / width, y: (cy + dy * size) / height, visibility: 1 };
+	}
+	return pose;
+}
+
+describe('reference matching across aspect ratios', () => {
+	const portrait = { width: 1080, height: 1920 };
+	const landscape = { width: 1920, height: 1080 };
+
+	it('scores the same body shape as a full pose match', () => {
+		const referencePose = figure(portrait.width, portrait.height, 540, 960, 1000);
+		const target = { pose: referencePose, framing: analyzeFraming(referencePose, portrait) };
+		const live = figure(landscape.width, landscape.height, 960, 540, 600);
+
+		expect(scoreReferenceMatch(target, live, landscape).pose).toBeGreaterThanOrEqual(99);
+	});
+
+	it('compares framing where the reference lands when it covers the live frame', () => {
+		const referencePose = figure(portrait.width, portrait.height, 540, 960, 300);
+		const target = { pose: referencePose, framing: analyzeFraming(referencePose, portrait) };
+		// Covering the landscape frame scales the portrait reference by 1920 / 1080 and crops its top and bottom
+		const scale = 1920 / 1080;
+		const fitted = fitReferencePose(referencePose, portrait, landscape);
+		expect(fitted.nose!.x).toBeCloseTo(0.5);
+		expect(fitted.nose!.y).toBeCloseTo(0.5 - (0.45 * 300 * scale) / 1080);
+
+		const live = figure(landscape.width, landscape.height, 960, 540, 300 * scale);
+		const score = scoreReferenceMatch(target, live, landscape);
+		expect(score.framing).toBeGreaterThanOrEqual(99);
+		expect(score.hints).toEqual([]);
+
+		// Filling the same fraction of the frame height as in the reference is too small once the reference is fitted
+		const small = figure(landscape.width, landscape.height, 960, 540, (300 * 1080) / 1920);
+		expect(scoreReferenceMatch(target, small, landscape).hints[0]).toBe('靠近一点，让人物在画面中更大');
+	});
+});
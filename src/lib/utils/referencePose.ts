@@ -0,0 +1,228 @@
+import type { Pose, PoseKeypoint } from '$lib/types';
+import { calculatePoseAccuracy } from '$lib/data/poseTemplates';
+import { calculateBoundingBox } from '$lib/utils/multiPersonPose';
+import { WorkerPoseDetector, grabPoseFrame, type PoseDetector } from '$lib/utils/poseDetection';
+
+/**
+ * "Recreate this photo"
+ * A reference image (a screenshot the subject wants to copy) is run through the on-device pose
+ * detector once. Its pose becomes the target, and its framing (subject box, vertical position and
+ * a camera-angle hint read from body proportions) is matched separately, so the live view is
+ * scored on both what the subject does and where the camera puts them.
+ * Keypoints are fractions of their own frame's width and height, and the reference rarely has the
+ * camera's aspect ratio. Shapes are compared with x rescaled to frame heights, and the reference is
+ * fitted over the live frame the way the onion skin is drawn (cover, centre-cropped) before its
+ * framing is compared.
+ */
+
+// Images are detected at this size; keypoints are normalized, so it only affects accuracy
+const REFERENCE_DETECT_MAX_SIDE = 640;
+const POSE_WEIGHT = 0.6;
+const FRAMING_WEIGHT = 0.4;
+// Offsets (in frame heights) and size ratios beyond which framing counts as fully wrong
+const MAX_CENTER_OFFSET = 0.3;
+const MAX_SCALE_RATIO = 2;
+// Differences below these are not worth a hint
+const CENTER_HINT_OFFSET = 0.08;
+const SCALE_HINT_RATIO = 1.15;
+
+export type VerticalPosition = 'high' | 'middle' | 'low';
+export type CameraAngle = 'low' | 'eye' | 'high';
+
+// Pixel size of the frame a pose was detected in
+export interface FrameSize {
+	width: number;
+	height: number;
+}
+
+export interface ReferenceFraming extends FrameSize {
+	box: { x: number; y: number; width: number; height: number }; // calculateBoundingBox(), normalized
+	centerX: number;
+	centerY: number;
+	verticalPosition: VerticalPosition; // Where the subject sits in the frame
+	cameraAngle: CameraAngle; // Hint only: read from leg/torso/head proportions
+}
+
+export interface ReferenceTarget {
+	pose: Pose;
+	framing: ReferenceFraming;
+	imageUrl: string; // Object URL for the onion-skin overlay; release with releaseReferenceTarget()
+}
+
+export interface ReferenceMatchScore {
+	pose: number; // 0-100, body shape only (position and size factored out)
+	framing: number; // 0-100, subject position and size in the frame
+	overall: number; // 0-100, weighted combination
+	hints: string[]; // Most important first
+}
+
+export class ReferencePoseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ReferencePoseError';
+	}
+}
+
+function midpoint(a?: PoseKeypoint, b?: PoseKeypoint): PoseKeypoint | null {
+	if (a && b) return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+	return a ?? b ?? null;
+}
+
+// Low angles stretch the legs and shrink the head relative to the torso; high angles do the opposite
+export function estimateCameraAngle(pose: Pose): CameraAngle {
+	const shoulders = midpoint(pose.left_shoulder, pose.right_shoulder);
+	const hips = midpoint(pose.left_hip, pose.right_hip);
+	if (!shoulders || !hips) return 'eye';
+	const torso = hips.y - shoulders.y;
+	if (torso <= 0.01) return 'eye';
+
+	const ankles = midpoint(pose.left_ankle, pose.right_ankle);
+	if (ankles) {
+		const legRatio = (ankles.y - hips.y) / torso;
+		if (legRatio > 2.1) return 'low';
+		if (legRatio < 1.3) return 'high';
+		return 'eye';
+	}
+
+	if (pose.nose) {
+		const headRatio = (shoulders.y - pose.nose.y) / torso;
+		if (headRatio > 0.65) return 'high';
+		if (headRatio < 0.3) return 'low';
+	}
+	return 'eye';
+}
+
+export function analyzeFraming(pose: Pose, frame: FrameSize): ReferenceFraming {
+	const box = calculateBoundingBox(pose);
+	const centerX = box.x + box.width / 2;
+	const centerY = box.y + box.height / 2;
+	return {
+		width: frame.width,
+		height: frame.height,
+		box,
+		centerX,
+		centerY,
+		verticalPosition: centerY < 0.4 ? 'high' : centerY > 0.6 ? 'low' : 'middle',
+		cameraAngle: estimateCameraAngle(pose)
+	};
+}
+
+function aspectRatio(frame: FrameSize): number {
+	return frame.height > 0 ? frame.width / frame.height : 1;
+}
+
+function mapKeypoints(pose: Pose, map: (keypoint: PoseKeypoint) => PoseKeypoint): Pose {
+	const mapped: Pose = {};
+	for (const [key, keypoint] of Object.entries(pose)) {
+		if (keypoint) mapped[key as keyof Pose] = { ...keypoint, ...map(keypoint) };
+	}
+	return mapped;
+}
+
+// Centre the pose on its box and scale by box height (x converted to frame heights first),
+// so only the body shape is compared
+function normalizeShape(pose: Pose, framing: ReferenceFraming): Pose {
+	const scale = framing.box.height || 1;
+	const aspect = aspectRatio(framing);
+	return mapKeypoints(pose, keypoint => ({
+		x: 0.5 + ((keypoint.x - framing.centerX) * aspect) / scale,
+		y: 0.5 + (keypoint.y - framing.centerY) / scale
+	}));
+}
+
+// Where the reference pose lands in the live frame when the reference covers it, centre-cropped
+export function fitReferencePose(pose: Pose, reference: FrameSize, live: FrameSize): Pose {
+	const ratio = aspectRatio(reference) / aspectRatio(live);
+	const scaleX = Math.max(ratio, 1);
+	const scaleY = Math.max(1 / ratio, 1);
+	return mapKeypoints(pose, keypoint => ({
+		x: 0.5 + (keypoint.x - 0.5) * scaleX,
+		y: 0.5 + (keypoint.y - 0.5) * scaleY
+	}));
+}
+
+function framingHints(reference: ReferenceFraming, live: ReferenceFraming): string[] {
+	const hints: string[] = [];
+	const scale = live.box.height / (reference.box.height || 1);
+	if (scale < 1 / SCALE_HINT_RATIO) hints.push('靠近一点，让人物在画面中更大');
+	else if (scale > SCALE_HINT_RATIO) hints.push('退后一点，让人物在画面中小一些');
+
+	const dx = reference.centerX - live.centerX;
+	const dy = reference.centerY - live.centerY;
+	if (Math.abs(dx) > CENTER_HINT_OFFSET) hints.push(dx > 0 ? '让人物在画面中再靠右一些' : '让人物在画面中再靠左一些');
+	if (Math.abs(dy) > CENTER_HINT_OFFSET) hints.push(dy > 0 ? '让人物在画面中再靠下一些' : '让人物在画面中再靠上一些');
+
+	if (reference.cameraAngle !== live.cameraAngle) {
+		hints.push(
+			reference.cameraAngle === 'low'
+				? '降低机位，从下往上拍'
+				: reference.cameraAngle === 'high'
+					? '抬高机位，从上往下拍'
+					: '相机与人物视线平齐'
+		);
+	}
+	return hints;
+}
+
+// `frame` is the pixel size of the live frame `livePose` was detected in
+export function scoreReferenceMatch(
+	target: Pick<ReferenceTarget, 'pose' | 'framing'>,
+	livePose: Pose,
+	frame: FrameSize
+): ReferenceMatchScore {
+	const live = analyzeFraming(livePose, frame);
+	if (live.box.height === 0) {
+		return { pose: 0, framing: 0, overall: 0, hints: ['让人物完整进入画面'] };
+	}
+
+	const pose = calculatePoseAccuracy(normalizeShape(target.pose, target.framing), normalizeShape(livePose, live));
+
+	const reference = analyzeFraming(fitReferencePose(target.pose, target.framing, frame), frame);
+	const centerError = Math.min(
+		Math.hypot((reference.centerX - live.centerX) * aspectRatio(frame), reference.centerY - live.centerY) /
+			MAX_CENTER_OFFSET,
+		1
+	);
+	const scaleError = Math.min(
+		Math.abs(Math.log(live.box.height / (reference.box.height || 1))) / Math.log(MAX_SCALE_RATIO),
+		1
+	);
+	const framing = (1 - (centerError + scaleError) / 2) * 100;
+
+	return {
+		pose: Math.round(pose),
+		framing: Math.round(framing),
+		overall: Math.round(pose * POSE_WEIGHT + framing * FRAMING_WEIGHT),
+		hints: framingHints(reference, live)
+	};
+}
+
+// Run the detector on a reference image; throws ReferencePoseError when nobody is found
+export async function extractReferenceTarget(image: Blob, detector?: PoseDetector): Promise<ReferenceTarget> {
+	const imageUrl = URL.createObjectURL(image);
+	// A still image needs IMAGE mode; the live detector tracks across video frames
+	const ownDetector = detector ? null : new WorkerPoseDetector({ runningMode: 'IMAGE' });
+	try {
+		const img = new Image();
+		img.src = imageUrl;
+		await img.decode().catch(() => {
+			throw new ReferencePoseError('Could not decode the reference image');
+		});
+
+		const result = await (detector ?? ownDetector!).detect(await grabPoseFrame(img, REFERENCE_DETECT_MAX_SIDE));
+		if (!result || calculateBoundingBox(result.pose).height === 0) {
+			throw new ReferencePoseError('No person found in the reference image');
+		}
+		const frame = { width: img.naturalWidth, height: img.naturalHeight };
+		return { pose: result.pose, framing: analyzeFraming(result.pose, frame), imageUrl };
+	} catch (err) {
+		URL.revokeObjectURL(imageUrl);
+		throw err;
+	} finally {
+		ownDetector?.dispose();
+	}
+}
+
+export function releaseReferenceTarget(target: ReferenceTarget): void {
+	URL.revokeObjectURL(target.imageUrl);
+}
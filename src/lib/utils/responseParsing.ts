@@ -0,0 +1,379 @@
+import type { Pose, PoseKeypoint } from '$lib/types';
+import { classifyError, errorTracker, ResponseParseError, type ParseIssue } from '$lib/utils/errorHandling';
+import { parsePartialJSON } from '$lib/utils/streaming';
+
+/**
+ * Schema-driven parsing of model JSON output
+ * Tolerates code fences, trailing commas and half-quoted keys, coerces types and clamps ranges
+ */
+
+interface BaseField {
+	required?: boolean;
+	aliases?: string[]; // Alternative key names the model sometimes uses
+	description?: string; // Shown to the model in repair prompts
+}
+
+export type FieldSchema =
+	| (BaseField & { type: 'string'; default?: string; enum?: readonly string[] })
+	| (BaseField & { type: 'number'; default?: number; min?: number; max?: number; scale?: 'unit' | 'percent' })
+	| (BaseField & { type: 'boolean'; default?: boolean })
+	| (BaseField & { type: 'array'; items: FieldSchema; default?: unknown[] })
+	| (BaseField & { type: 'object'; fields: ObjectSchema })
+	| (BaseField & { type: 'pose' });
+
+export type ObjectSchema = Record<string, FieldSchema>;
+
+// T is the shape produced once every field has been coerced
+export interface ResponseSchema<T> {
+	name: string;
+	fields: ObjectSchema;
+	readonly __type?: T;
+}
+
+export type ParseOutcome<T> =
+	| { ok: true; value: T; issues: ParseIssue[] }
+	| { ok: false; issues: ParseIssue[] };
+
+export interface ParseResult<T> {
+	value: T;
+	issues: ParseIssue[];
+	repaired: boolean;
+}
+
+const MISSING = Symbol('missing');
+
+// Strip fences and surrounding prose, returning the outermost JSON object text
+export function extractJSONText(text: string): string | null {
+	const unfenced = text.replace(/```(?:json|JSON)?/g, '').trim();
+	const start = unfenced.indexOf('{');
+	if (start === -1) return null;
+
+	// Find the matching closing brace, ignoring braces inside strings
+	let depth = 0;
+	let inString = false;
+	let escaped = false;
+	let end = -1;
+	for (let i = start; i < unfenced.length; i++) {
+		const ch = unfenced[i];
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (ch === '\\') escaped = true;
+			else if (ch === '"') inString = false;
+			continue;
+		}
+		if (ch === '"') inString = true;
+		else if (ch === '{') depth++;
+		else if (ch === '}') {
+			depth--;
+			if (depth === 0) {
+				end = i;
+				break;
+			}
+		}
+	}
+
+	return end === -1 ? unfenced.slice(start) : unfenced.slice(start, end + 1);
+}
+
+// Fix the syntax mistakes models commonly make (only applied when strict parsing fails)
+export function repairJSONSyntax(json: string): string {
+	return json
+		.replace(/[“”]/g, '"') // Smart quotes used as delimiters
+		.replace(/([{,]\s*)([A-Za-z_]\w*)"(\s*:)/g, '$1"$2"$3') // Half-quoted keys: y": 0.5
+		.replace(/([{,]\s*)([A-Za-z_]\w*)(\s*:)/g, '$1"$2"$3') // Unquoted keys: y: 0.5
+		.replace(/,(\s*[}\]])/g, '$1'); // Trailing commas
+}
+
+function parseLooseJSON(text: string, issues: ParseIssue[]): Record<string, unknown> | null {
+	const json = extractJSONText(text);
+	if (json === null) {
+		issues.push({ path: '$', problem: 'no JSON object found', fatal: true });
+		return null;
+	}
+
+	for (const candidate of [json, repairJSONSyntax(json)]) {
+		try {
+			const parsed = JSON.parse(candidate);
+			if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+				if (candidate !== json) {
+					issues.push({ path: '$', problem: 'repaired JSON syntax', fatal: false });
+				}
+				return parsed;
+			}
+		} catch {
+			// Try the next candidate
+		}
+	}
+
+	// Output cut off (e.g. max_tokens): keep whatever is complete
+	const partial = parsePartialJSON(repairJSONSyntax(json));
+	if (partial) {
+		issues.push({ path: '$', problem: 'truncated JSON, recovered complete fields', fatal: false });
+		return partial;
+	}
+	issues.push({ path: '$', problem: 'malformed JSON', fatal: true });
+	return null;
+}
+
+function toNumber(value: unknown): number | null {
+	if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+	if (typeof value === 'string') {
+		const match = value.match(/-?\d+(\.\d+)?/);
+		return match ? parseFloat(match[0]) : null;
+	}
+	return null;
+}
+
+function coerceNumber(value: unknown, schema: Extract<FieldSchema, { type: 'number' }>, path: string, issues: ParseIssue[]): number | typeof MISSING {
+	let num = toNumber(value);
+	if (num === null) {
+		issues.push({ path, problem: `expected number, got ${JSON.stringify(value)}`, fatal: !!schema.required && schema.default === undefined });
+		return schema.default ?? MISSING;
+	}
+	if (typeof value !== 'number') {
+		issues.push({ path, problem: `coerced ${JSON.stringify(value)} to number`, fatal: false });
+	}
+
+	// Models mix 0-1 and 0-100 scales for the same field
+	if (schema.scale === 'unit' && num > 1 && num <= 100) {
+		issues.push({ path, problem: `rescaled ${num} from 0-100 to 0-1`, fatal: false });
+		num = num / 100;
+	} else if (schema.scale === 'percent' && num > 0 && num <= 1) {
+		issues.push({ path, problem: `rescaled ${num} from 0-1 to 0-100`, fatal: false });
+		num = num * 100;
+	}
+
+	const min = schema.min ?? (schema.scale === 'unit' ? 0 : schema.scale === 'percent' ? 0 : -Infinity);
+	const max = schema.max ?? (schema.scale === 'unit' ? 1 : schema.scale === 'percent' ? 100 : Infinity);
+	if (num < min || num > max) {
+		issues.push({ path, problem: `clamped ${num} to [${min}, ${max}]`, fatal: false });
+		num = Math.min(max, Math.max(min, num));
+	}
+	return num;
+}
+
+function coerceString(value: unknown, schema: Extract<FieldSchema, { type: 'string' }>, path: string, issues: ParseIssue[]): string | typeof MISSING {
+	let str: string | null = null;
+	if (typeof value === 'string') str = value.trim();
+	else if (typeof value === 'number' || typeof value === 'boolean') str = String(value);
+
+	if (str === null) {
+		issues.push({ path, problem: `expected string, got ${JSON.stringify(value)}`, fatal: !!schema.required && schema.default === undefined });
+		return schema.default ?? MISSING;
+	}
+
+	if (schema.enum && !schema.enum.includes(str)) {
+		// left_middle / Left Middle -> left-middle
+		const normalized = str.toLowerCase().replace(/[\s_]+/g, '-');
+		if (schema.enum.includes(normalized)) return normalized;
+		issues.push({ path, problem: `"${str}" is not one of ${schema.enum.join(', ')}`, fatal: !!schema.required && schema.default === undefined });
+		return schema.default ?? MISSING;
+	}
+	return str;
+}
+
+function coerceBoolean(value: unknown, schema: Extract<FieldSchema, { type: 'boolean' }>, path: string, issues: ParseIssue[]): boolean | typeof MISSING {
+	if (typeof value === 'boolean') return value;
+	if (value === 'true' || value === 'yes' || value === 1) return true;
+	if (value === 'false' || value === 'no' || value === 0) return false;
+	issues.push({ path, problem: `expected boolean, got ${JSON.stringify(value)}`, fatal: !!schema.required && schema.default === undefined });
+	return schema.default ?? MISSING;
+}
+
+// Clamp keypoints into normalized [0, 1] coordinates, dropping anything unusable
+export function coercePose(value: unknown, path: string = 'pose', issues: ParseIssue[] = []): Pose {
+	const pose: Record<string, PoseKeypoint> = {};
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		if (value !== undefined) {
+			issues.push({ path, problem: 'expected keypoint object', fatal: false });
+		}
+		return pose;
+	}
+
+	for (const [key, point] of Object.entries(value as Record<string, unknown>)) {
+		if (!point || typeof point !== 'object') continue;
+		const raw = point as Record<string, unknown>;
+		let x = toNumber(raw.x);
+		let y = toNumber(raw.y);
+		if (x === null || y === null) {
+			issues.push({ path: `${path}.${key}`, problem: 'missing coordinates', fatal: false });
+			continue;
+		}
+
+		// Percent coordinates (e.g. 42 instead of 0.42)
+		if (x > 1 && x <= 100) x = x / 100;
+		if (y > 1 && y <= 100) y = y / 100;
+
+		const visibility = toNumber(raw.visibility);
+		pose[key] = {
+			x: Math.max(0, Math.min(1, x)),
+			y: Math.max(0, Math.min(1, y)),
+			visibility: visibility !== null ? Math.max(0, Math.min(1, visibility > 1 ? visibility / 100 : visibility)) : 0.8
+		};
+	}
+
+	return pose as Pose;
+}
+
+function coerceField(value: unknown, schema: FieldSchema, path: string, issues: ParseIssue[]): unknown {
+	if (value === undefined || value === null) {
+		if ('default' in schema && schema.default !== undefined) return schema.default;
+		if (schema.type === 'pose') return {};
+		if (schema.required) {
+			issues.push({ path, problem: 'missing required field', fatal: true });
+		}
+		return MISSING;
+	}
+
+	switch (schema.type) {
+		case 'number':
+			return coerceNumber(value, schema, path, issues);
+		case 'string':
+			return coerceString(value, schema, path, issues);
+		case 'boolean':
+			return coerceBoolean(value, schema, path, issues);
+		case 'pose':
+			return coercePose(value, path, issues);
+		case 'array': {
+			// "a, b、c" -> ["a", "b", "c"]
+			const list = Array.isArray(value)
+				? value
+				: typeof value === 'string' && schema.items.type === 'string'
+					? value.split(/[,，、]/).map(item => item.trim()).filter(Boolean)
+					: null;
+			if (list === null) {
+				issues.push({ path, problem: `expected array, got ${JSON.stringify(value)}`, fatal: !!schema.required && schema.default === undefined });
+				return schema.default ?? MISSING;
+			}
+			// An invalid item is dropped rather than failing the whole response
+			return list
+				.map((item, i) => coerceOptional(item, schema.items, `${path}[${i}]`, issues))
+				.filter(item => item !== MISSING);
+		}
+		case 'object': {
+			if (typeof value !== 'object' || Array.isArray(value)) {
+				issues.push({ path, problem: `expected object, got ${JSON.stringify(value)}`, fatal: !!schema.required });
+				return MISSING;
+			}
+			return coerceObject(value as Record<string, unknown>, schema.fields, path, issues);
+		}
+	}
+}
+
+// Coerce a value whose failure should only drop it, not fail the parent
+function coerceOptional(value: unknown, schema: FieldSchema, path: string, issues: ParseIssue[]): unknown {
+	const local: ParseIssue[] = [];
+	const coerced = coerceField(value, schema, path, local);
+	const failed = local.some(issue => issue.fatal);
+	issues.push(...local.map(issue => ({ ...issue, fatal: false })));
+	if (failed) {
+		issues.push({ path, problem: 'dropped invalid value', fatal: false });
+		return MISSING;
+	}
+	return coerced;
+}
+
+function coerceObject(raw: Record<string, unknown>, fields: ObjectSchema, path: string, issues: ParseIssue[]): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	for (const [key, schema] of Object.entries(fields)) {
+		let value = raw[key];
+		if (value === undefined && schema.aliases) {
+			const alias = schema.aliases.find(name => raw[name] !== undefined);
+			if (alias) value = raw[alias];
+		}
+		const fieldPath = path === '$' ? key : `${path}.${key}`;
+		// Nested objects that are optional are dropped when they fail validation
+		const coerced = schema.type === 'object' && !schema.required
+			? coerceOptional(value, schema, fieldPath, issues)
+			: coerceField(value, schema, fieldPath, issues);
+		if (coerced !== MISSING) {
+			result[key] = coerced;
+		}
+	}
+	return result;
+}
+
+// Validate model output against a schema without side effects
+export function validateModelResponse<T>(text: string, schema: ResponseSchema<T>): ParseOutcome<T> {
+	const issues: ParseIssue[] = [];
+	const raw = parseLooseJSON(text, issues);
+	if (!raw) return { ok: false, issues };
+
+	const value = coerceObject(raw, schema.fields, '$', issues);
+	if (issues.some(issue => issue.fatal)) {
+		return { ok: false, issues };
+	}
+	return { ok: true, value: value as T, issues };
+}
+
+// Describe the expected fields for the repair prompt
+function describeFields(fields: ObjectSchema, indent: string = ''): string {
+	return Object.entries(fields)
+		.map(([key, schema]) => {
+			let type: string = schema.type;
+			if (schema.type === 'number' && schema.scale === 'unit') type = 'number 0-1';
+			if (schema.type === 'number' && schema.scale === 'percent') type = 'number 0-100';
+			if (schema.type === 'string' && schema.enum) type = schema.enum.join(' | ');
+			if (schema.type === 'array') type = `${schema.items.type}[]`;
+			if (schema.type === 'pose') type = '{ keypoint: { x, y, visibility } }';
+			const line = `${indent}- ${key}${schema.required ? '（必填）' : ''}: ${type}${schema.description ? ` - ${schema.description}` : ''}`;
+			return schema.type === 'object' ? `${line}\n${describeFields(schema.fields, indent + '  ')}` : line;
+		})
+		.join('\n');
+}
+
+export function buildRepairPrompt<T>(text: string, schema: ResponseSchema<T>, issues: ParseIssue[]): string {
+	const problems = issues
+		.filter(issue => issue.fatal)
+		.map(issue => `- ${issue.path}: ${issue.problem}`)
+		.join('\n');
+
+	return `你上一次的输出无法解析为要求的 JSON 格式。
+
+问题：
+${problems}
+
+要求的字段：
+${describeFields(schema.fields)}
+
+原始输出：
+${text.slice(0, 2000)}
+
+请只返回修正后的 JSON 对象，不要包含代码块或任何解释。`;
+}
+
+// Report a failed parse as a structured PARSING_ERROR
+export function reportParsingError<T>(schema: ResponseSchema<T>, issues: ParseIssue[], text: string): ResponseParseError {
+	const error = new ResponseParseError(schema.name, issues, text);
+	errorTracker.track(classifyError(error));
+	return error;
+}
+
+/**
+ * Parse model output, optionally asking the model once to fix invalid output
+ * Throws a ResponseParseError (already reported to errorTracker) if it still fails
+ */
+export async function parseModelResponse<T>(
+	text: string,
+	schema: ResponseSchema<T>,
+	options: { repair?: (prompt: string) => Promise<string> } = {}
+): Promise<ParseResult<T>> {
+	const first = validateModelResponse(text, schema);
+	if (first.ok) {
+		return { value: first.value, issues: first.issues, repaired: false };
+	}
+
+	if (options.repair) {
+		try {
+			const repairedText = await options.repair(buildRepairPrompt(text, schema, first.issues));
+			const second = validateModelResponse(repairedText, schema);
+			if (second.ok) {
+				return { value: second.value, issues: [...first.issues, ...second.issues], repaired: true };
+			}
+		} catch (error) {
+			console.error('Response repair failed:', error);
+		}
+	}
+
+	throw reportParsingError(schema, first.issues, text);
+}
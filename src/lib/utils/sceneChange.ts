@@ -0,0 +1,205 @@
+import { PERF_CONFIG } from '$lib/utils/performanceOptimizer';
+
+/**
+ * Scene-change gating for the real-time analysis loop
+ * Each frame is reduced to a perceptual difference hash (structure) and a luminance
+ * histogram (lighting); a new AI request only goes out when either moved far enough
+ * from the last analyzed frame, or when that analysis has gone stale.
+ */
+
+export interface FrameSignature {
+	hash: string; // 64-bit dHash as 16 hex chars
+	histogram: number[]; // Normalized luminance histogram
+}
+
+export interface SceneChangeConfig {
+	hashThreshold: number; // Hamming distance (of 64 bits) that counts as a new scene
+	histogramThreshold: number; // Histogram distance (0-1) that counts as a lighting change
+	staleAfterMs: number; // Re-analyze an unchanged scene after this long
+}
+
+export const DEFAULT_SCENE_CHANGE: SceneChangeConfig = {
+	hashThreshold: 8,
+	histogramThreshold: 0.15,
+	staleAfterMs: PERF_CONFIG.sceneStaleAfter
+};
+
+export type SceneChangeReason = 'first' | 'structure' | 'lighting' | 'stale' | 'unchanged';
+
+export interface SceneChangeResult {
+	changed: boolean;
+	reason: SceneChangeReason;
+	hashDistance: number;
+	histogramDistance: number;
+}
+
+const SAMPLE_SIZE = 32;
+const HISTOGRAM_BINS = 16;
+
+// Reused between frames; the loop runs every couple of seconds, so one small canvas is enough
+let sampleCanvas: HTMLCanvasElement | null = null;
+
+// Downsample a frame to SAMPLE_SIZE x SAMPLE_SIZE luminance values (0-255)
+export function getFrameLuminance(source: CanvasImageSource, size: number = SAMPLE_SIZE): Float32Array {
+	if (!sampleCanvas) {
+		sampleCanvas = document.createElement('canvas');
+	}
+	sampleCanvas.width = size;
+	sampleCanvas.height = size;
+
+	const ctx = sampleCanvas.getContext('2d', { willReadFrequently: true });
+	if (!ctx) throw new Error('Failed to get canvas context');
+
+	ctx.drawImage(source, 0, 0, size, size);
+	const { data } = ctx.getImageData(0, 0, size, size);
+
+	const luminance = new Float32Array(size * size);
+	for (let i = 0; i < luminance.length; i++) {
+		// Rec. 601 luma
+		luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+	}
+	return luminance;
+}
+
+// Average of the luminance grid over a fractional cell, used to shrink to the 9x8 dHash grid
+function cellMean(luminance: Float32Array, size: number, x0: number, x1: number, y0: number, y1: number): number {
+	let sum = 0;
+	let count = 0;
+	for (let y = Math.floor(y0); y < Math.max(Math.floor(y0) + 1, Math.floor(y1)); y++) {
+		for (let x = Math.floor(x0); x < Math.max(Math.floor(x0) + 1, Math.floor(x1)); x++) {
+			sum += luminance[y * size + x];
+			count++;
+		}
+	}
+	return count > 0 ? sum / count : 0;
+}
+
+export function signatureFromLuminance(luminance: Float32Array, size: number = SAMPLE_SIZE): FrameSignature {
+	// dHash: compare horizontally adjacent cells of a 9x8 grid
+	const cols = 9;
+	const rows = 8;
+	const grid: number[] = [];
+	for (let row = 0; row < rows; row++) {
+		for (let col = 0; col < cols; col++) {
+			grid.push(cellMean(
+				luminance,
+				size,
+				(col * size) / cols,
+				((col + 1) * size) / cols,
+				(row * size) / rows,
+				((row + 1) * size) / rows
+			));
+		}
+	}
+
+	let hash = '';
+	for (let row = 0; row < rows; row++) {
+		let byte = 0;
+		for (let col = 0; col < cols - 1; col++) {
+			byte = (byte << 1) | (grid[row * cols + col] > grid[row * cols + col + 1] ? 1 : 0);
+		}
+		hash += byte.toString(16).padStart(2, '0');
+	}
+
+	const histogram = new Array(HISTOGRAM_BINS).fill(0);
+	for (const value of luminance) {
+		histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((value / 256) * HISTOGRAM_BINS))]++;
+	}
+
+	return {
+		hash,
+		histogram: histogram.map(count => count / luminance.length)
+	};
+}
+
+export function computeFrameSignature(source: CanvasImageSource): FrameSignature {
+	return signatureFromLuminance(getFrameLuminance(source));
+}
+
+export function hammingDistance(a: string, b: string): number {
+	if (a.length !== b.length) return 64;
+
+	let distance = 0;
+	for (let i = 0; i < a.length; i += 2) {
+		let xor = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+		while (xor) {
+			distance += xor & 1;
+			xor >>= 1;
+		}
+	}
+	return distance;
+}
+
+// Half the L1 distance between two normalized histograms (0 = identical, 1 = disjoint)
+export function histogramDistance(a: number[], b: number[]): number {
+	let sum = 0;
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		sum += Math.abs((a[i] ?? 0) - (b[i] ?? 0));
+	}
+	return sum / 2;
+}
+
+// Cheap fallback key for frames that come without a signature (uploads, stills)
+export function hashString(text: string): string {
+	// FNV-1a, 32-bit
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Compares each frame with the last one that was sent for analysis (not merely the previous frame),
+// so slow drifts still add up to a change
+export class SceneChangeDetector {
+	private config: SceneChangeConfig;
+	private reference: FrameSignature | null = null;
+	private referenceTime = 0;
+
+	constructor(config: SceneChangeConfig = DEFAULT_SCENE_CHANGE) {
+		this.config = config;
+	}
+
+	check(signature: FrameSignature, now: number = Date.now()): SceneChangeResult {
+		if (!this.reference) {
+			return { changed: true, reason: 'first', hashDistance: 64, histogramDistance: 1 };
+		}
+
+		const hashDist = hammingDistance(signature.hash, this.reference.hash);
+		const histDist = histogramDistance(signature.histogram, this.reference.histogram);
+
+		let reason: SceneChangeReason = 'unchanged';
+		if (hashDist >= this.config.hashThreshold) {
+			reason = 'structure';
+		} else if (histDist >= this.config.histogramThreshold) {
+			reason = 'lighting';
+		} else if (now - this.referenceTime >= this.config.staleAfterMs) {
+			reason = 'stale';
+		}
+
+		return { changed: reason !== 'unchanged', reason, hashDistance: hashDist, histogramDistance: histDist };
+	}
+
+	// Call when a frame is sent for analysis; later frames are compared against it
+	accept(signature: FrameSignature, now: number = Date.now()) {
+		this.reference = signature;
+		this.referenceTime = now;
+	}
+
+	// Forget the reference so the next frame is analyzed (failed request, mode or style change)
+	reset() {
+		this.reference = null;
+		this.referenceTime = 0;
+	}
+}
+
+// Singleton instance
+let sceneChangeDetector: SceneChangeDetector | null = null;
+
+export function getSceneChangeDetector(config?: SceneChangeConfig): SceneChangeDetector {
+	if (!sceneChangeDetector) {
+		sceneChangeDetector = new SceneChangeDetector(config);
+	}
+	return sceneChangeDetector;
+}
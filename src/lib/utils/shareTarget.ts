@@ -0,0 +1,87 @@
+/**
+ * Files handed to the app by the OS share sheet
+ * The service worker receives the share-target POST, parks the files in Cache Storage and
+ * redirects to the import page, which reads them back from here.
+ */
+
+export const SHARE_TARGET_PATH = '/share-target';
+export const SHARE_TARGET_CACHE = 'boyfriend-camera-share-target';
+export const SHARE_IMPORT_PATH = '/import';
+
+export interface SharedItem {
+	id: string;
+	title: string;
+	text: string;
+	url: string;
+	fileCount: number;
+	receivedAt: number;
+}
+
+function manifestKey(id: string): string {
+	return `${SHARE_TARGET_PATH}/${id}/manifest.json`;
+}
+
+function fileKey(id: string, index: number): string {
+	return `${SHARE_TARGET_PATH}/${id}/${index}`;
+}
+
+// Service worker side: park the shared form data, returns the share id
+export async function stashSharedFormData(formData: FormData): Promise<string> {
+	const id = crypto.randomUUID();
+	const cache = await caches.open(SHARE_TARGET_CACHE);
+
+	const files = formData
+		.getAll('photos')
+		.filter((value): value is File => value instanceof File && value.type.startsWith('image/'));
+	for (const [index, file] of files.entries()) {
+		await cache.put(fileKey(id, index), new Response(file, {
+			headers: {
+				'content-type': file.type,
+				'x-file-name': encodeURIComponent(file.name),
+				'x-last-modified': String(file.lastModified)
+			}
+		}));
+	}
+
+	const item: SharedItem = {
+		id,
+		title: String(formData.get('title') ?? ''),
+		text: String(formData.get('text') ?? ''),
+		url: String(formData.get('url') ?? ''),
+		fileCount: files.length,
+		receivedAt: Date.now()
+	};
+	await cache.put(manifestKey(id), new Response(JSON.stringify(item), {
+		headers: { 'content-type': 'application/json' }
+	}));
+	return id;
+}
+
+// Page side: read a share back
+export async function readSharedItem(id: string): Promise<{ item: SharedItem; files: File[] } | null> {
+	const cache = await caches.open(SHARE_TARGET_CACHE);
+	const manifest = await cache.match(manifestKey(id));
+	if (!manifest) return null;
+
+	const item: SharedItem = await manifest.json();
+	const files: File[] = [];
+	for (let index = 0; index < item.fileCount; index++) {
+		const response = await cache.match(fileKey(id, index));
+		if (!response) continue;
+		files.push(new File([await response.blob()], decodeURIComponent(response.headers.get('x-file-name') ?? `shared-${index}`), {
+			type: response.headers.get('content-type') ?? 'image/jpeg',
+			lastModified: Number(response.headers.get('x-last-modified')) || item.receivedAt
+		}));
+	}
+	return { item, files };
+}
+
+export async function clearSharedItem(id: string): Promise<void> {
+	const cache = await caches.open(SHARE_TARGET_CACHE);
+	const keys = await cache.keys();
+	await Promise.all(
+		keys
+			.filter(request => new URL(request.url).pathname.startsWith(`${SHARE_TARGET_PATH}/${id}/`))
+			.map(request => cache.delete(request))
+	);
+}
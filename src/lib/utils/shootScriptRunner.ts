@@ -0,0 +1,112 @@
+import type { Pose, PoseTemplate, ShootScript } from '$lib/types';
+import { calculatePoseAccuracy, getPoseTemplate } from '$lib/data/poseTemplates';
+import { DEFAULT_SCRIPT_ACCURACY_THRESHOLD, isPoseTemplateId } from '$lib/data/shootScripts';
+
+/**
+ * Shoot script runner
+ * Walks an ordered list of pose templates. Each live pose is scored against the current step's
+ * target; when a photo is taken at or above the script's threshold the runner moves on to the
+ * next step, otherwise it stays put and hands out one of the template's common-mistake corrections.
+ */
+
+export interface ShootScriptStepState {
+	index: number;
+	total: number;
+	poseId: string;
+	note?: string;
+	name: string;
+	pose: Pose;
+	steps: string[];
+	tips: string[];
+}
+
+export type ShootScriptShotResult =
+	| { type: 'advanced'; completed: boolean }
+	| { type: 'retry'; correction: string | null };
+
+export class ShootScriptRunner {
+	readonly script: ShootScript;
+	readonly threshold: number;
+	private index = 0;
+	private mistakeIndex = 0;
+
+	constructor(script: ShootScript, startIndex = 0) {
+		// Steps that point at unknown poses cannot be scored, so they are dropped up front
+		this.script = { ...script, steps: script.steps.filter(step => isPoseTemplateId(step.poseId)) };
+		this.threshold = script.accuracyThreshold ?? DEFAULT_SCRIPT_ACCURACY_THRESHOLD;
+		this.index = Math.max(0, Math.min(startIndex, this.script.steps.length));
+	}
+
+	get stepIndex(): number {
+		return this.index;
+	}
+
+	get done(): boolean {
+		return this.index >= this.script.steps.length;
+	}
+
+	get current(): ShootScriptStepState | null {
+		const step = this.script.steps[this.index];
+		if (!step) return null;
+		const template = this.template(step.poseId);
+		return {
+			index: this.index,
+			total: this.script.steps.length,
+			poseId: step.poseId,
+			note: step.note,
+			name: template.name,
+			pose: template.pose,
+			steps: template.steps,
+			tips: template.tips
+		};
+	}
+
+	// Accuracy (0-100) of a live pose against the current step; null when there is nothing to score
+	score(pose: Pose | null): number | null {
+		const current = this.current;
+		if (!pose || !current) return null;
+		return calculatePoseAccuracy(current.pose, pose);
+	}
+
+	// Spoken guidance for the current step: which shot it is, the setting note, then the steps
+	instructions(): string[] {
+		const current = this.current;
+		if (!current) return [];
+		const intro = `第${current.index + 1}个姿势，共${current.total}个：${current.name}`;
+		return [intro, ...(current.note ? [current.note] : []), ...current.steps];
+	}
+
+	// Called after a photo was taken for the current step
+	recordShot(accuracy: number | null): ShootScriptShotResult {
+		if (this.done) return { type: 'advanced', completed: true };
+		if (accuracy !== null && accuracy >= this.threshold) {
+			this.advance();
+			return { type: 'advanced', completed: this.done };
+		}
+		return { type: 'retry', correction: this.nextCorrection() };
+	}
+
+	skip(): void {
+		if (!this.done) this.advance();
+	}
+
+	private advance(): void {
+		this.index++;
+		this.mistakeIndex = 0;
+	}
+
+	// Cycle through the template's common mistakes so repeated misses do not repeat the same hint
+	private nextCorrection(): string | null {
+		const step = this.script.steps[this.index];
+		const mistakes = step ? this.template(step.poseId).commonMistakes : [];
+		if (mistakes.length === 0) return null;
+		const mistake = mistakes[this.mistakeIndex % mistakes.length];
+		this.mistakeIndex++;
+		return mistake.correction;
+	}
+
+	private template(poseId: string): PoseTemplate {
+		// Unknown ids were filtered out in the constructor
+		return getPoseTemplate(poseId)!;
+	}
+}
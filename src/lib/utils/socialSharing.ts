@@ -22,6 +22,7 @@ export interface ShareLink {
 	accessCount: number;
 	maxAccess?: number;
 	password?: string;
+	publishedUrl?: string; // Cloud copy of the content, set once the publish job has uploaded it
 	permissions: {
 		allowDownload: boolean;
 		allowEdit: boolean;
@@ -175,7 +176,7 @@ export class SocialSharingManager {
 	// Get share URL for a platform
 	getShareUrl(shareLink: ShareLink, platform: SharePlatform): string {
 		const baseUrl = window.location.origin;
-		const contentUrl = `${baseUrl}/share/${shareLink.id}`;
+		const contentUrl = shareLink.publishedUrl ?? `${baseUrl}/share/${shareLink.id}`;
 
 		if (platform.id === 'link') {
 			return contentUrl;
@@ -408,6 +409,18 @@ export class SocialSharingManager {
 		return link;
 	}
 
+	// Record where a published link's content lives
+	setPublishedUrl(linkId: string, url: string): boolean {
+		const link = this.shareLinks.get(linkId);
+		if (!link) {
+			return false;
+		}
+
+		link.publishedUrl = url;
+		this.saveToStorage();
+		return true;
+	}
+
 	// Validate share link access
 	validateAccess(linkId: string, password?: string): boolean {
 		const link = this.getShareLink(linkId);
@@ -432,9 +445,9 @@ export class SocialSharingManager {
 		return true;
 	}
 
-	// Generate shareable QR code
-	async generateQRCode(shareLink: ShareLink): Promise<string> {
-		const url = `${window.location.origin}/share/${shareLink.id}`;
+	// Generate shareable QR code for a share link, or for any URL/text (e.g. a style import link)
+	async generateQRCode(target: ShareLink | string): Promise<string> {
+		const url = typeof target === 'string' ? target : `${window.location.origin}/share/${target.id}`;
 
 		// Use QR code API
 		const qrApiUrl = `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(url)}`;
@@ -0,0 +1,136 @@
+/**
+ * Streaming helpers for chat-completions responses
+ * Reads server-sent events and parses JSON that is still being written
+ */
+
+interface ChatCompletionChunk {
+	choices?: Array<{
+		delta?: { content?: string | null };
+		message?: { content?: string | null };
+	}>;
+}
+
+// Yield content deltas from an OpenAI-style SSE stream ("data: {...}" lines, ended by "data: [DONE]")
+export async function* readChatCompletionStream(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	try {
+		while (true) {
+			if (signal?.aborted) {
+				throw new DOMException('Stream aborted', 'AbortError');
+			}
+
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split('\n');
+			buffer = lines.pop() ?? '';
+
+			for (const rawLine of lines) {
+				const line = rawLine.trim();
+				if (!line.startsWith('data:')) continue;
+
+				const data = line.slice(5).trim();
+				if (data === '[DONE]') return;
+
+				try {
+					const chunk: ChatCompletionChunk = JSON.parse(data);
+					const delta = chunk.choices?.[0]?.delta?.content ?? chunk.choices?.[0]?.message?.content;
+					if (delta) {
+						yield delta;
+					}
+				} catch {
+					// Ignore keep-alive comments and malformed events
+				}
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+function tryParse(text: string): Record<string, any> | null {
+	try {
+		const parsed = JSON.parse(text);
+		return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Best-effort parse of an incomplete JSON object
+ * Closes open strings, arrays and objects; drops a trailing value that is cut off mid-token.
+ * Returns null until at least the opening brace has arrived.
+ */
+export function parsePartialJSON(text: string): Record<string, any> | null {
+	const start = text.indexOf('{');
+	if (start === -1) return null;
+
+	const body = text.slice(start);
+	const stack: string[] = [];
+	// Cut points where the prefix is structurally complete once closers are appended
+	const checkpoints: Array<{ end: number; closers: string }> = [];
+	let inString = false;
+	let escaped = false;
+
+	for (let i = 0; i < body.length; i++) {
+		const ch = body[i];
+
+		if (inString) {
+			if (escaped) {
+				escaped = false;
+			} else if (ch === '\\') {
+				escaped = true;
+			} else if (ch === '"') {
+				inString = false;
+			}
+			continue;
+		}
+
+		if (ch === '"') {
+			inString = true;
+		} else if (ch === '{' || ch === '[') {
+			stack.push(ch === '{' ? '}' : ']');
+			checkpoints.push({ end: i + 1, closers: [...stack].reverse().join('') });
+		} else if (ch === '}' || ch === ']') {
+			stack.pop();
+			if (stack.length === 0) {
+				return tryParse(body.slice(0, i + 1));
+			}
+			checkpoints.push({ end: i + 1, closers: [...stack].reverse().join('') });
+		} else if (ch === ',') {
+			checkpoints.push({ end: i, closers: [...stack].reverse().join('') });
+		}
+	}
+
+	const closers = [...stack].reverse().join('');
+
+	// Text cut inside a string value: close it so partial text can render
+	if (inString) {
+		const head = escaped ? body.slice(0, -1) : body;
+		const parsed = tryParse(head + '"' + closers);
+		if (parsed) return parsed;
+	} else if (!/[\d.\-eE+]$/.test(body.trimEnd())) {
+		// Numbers may still be growing ("8" -> "85"), everything else is safe to close as-is
+		const parsed = tryParse(body + closers);
+		if (parsed) return parsed;
+	}
+
+	for (let i = checkpoints.length - 1; i >= 0; i--) {
+		const parsed = tryParse(body.slice(0, checkpoints[i].end) + checkpoints[i].closers);
+		if (parsed) return parsed;
+	}
+
+	return null;
+}
+
+// A key's value in a partially parsed object is final once a later key has started
+export function isKeyComplete(partial: Record<string, unknown>, key: string): boolean {
+	const keys = Object.keys(partial);
+	const index = keys.indexOf(key);
+	return index !== -1 && index < keys.length - 1;
+}
@@ -0,0 +1,19 @@
+import { renderScaledImages, type ThumbnailWorkerRequest, type ThumbnailWorkerResponse } from '$lib/utils/thumbnails';
+
+/**
+ * Thumbnail worker
+ * Decodes and scales photos off the main thread so capture and scrolling stay smooth
+ */
+
+function reply(message: ThumbnailWorkerResponse) {
+	self.postMessage(message);
+}
+
+self.addEventListener('message', async (event: MessageEvent<ThumbnailWorkerRequest>) => {
+	const { id, blob } = event.data;
+	try {
+		reply({ type: 'result', id, images: await renderScaledImages(blob) });
+	} catch (error) {
+		reply({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+	}
+});
@@ -0,0 +1,153 @@
+import { decodePixels, encodePixels } from '$lib/utils/imagePipeline';
+
+/**
+ * Thumbnail and preview generation
+ * Photos get a small thumbnail for grids and a mid-size preview for quick viewing, so the gallery
+ * never decodes full-resolution originals. Scaling runs in a Web Worker with createImageBitmap and
+ * OffscreenCanvas; browsers without either (and the service worker) scale on the calling thread.
+ */
+
+export const THUMBNAIL_MAX_SIDE = 256;
+export const PREVIEW_MAX_SIDE = 1280;
+const THUMBNAIL_QUALITY = 0.75;
+const PREVIEW_QUALITY = 0.85;
+
+export interface ScaledImages {
+	thumbnail: Blob;
+	preview: Blob;
+}
+
+export interface PhotoThumbnails {
+	thumbnail: string; // JPEG data URL, small enough to keep inline in the photo record
+	preview: Blob;
+}
+
+// Messages exchanged with thumbnail.worker.ts
+export type ThumbnailWorkerRequest = { id: number; blob: Blob };
+
+export type ThumbnailWorkerResponse =
+	| { type: 'result'; id: number; images: ScaledImages }
+	| { type: 'error'; id: number; message: string };
+
+async function scaleBitmap(bitmap: ImageBitmap, maxSide: number, quality: number): Promise<Blob> {
+	const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+	const width = Math.max(1, Math.round(bitmap.width * scale));
+	const height = Math.max(1, Math.round(bitmap.height * scale));
+	const canvas = new OffscreenCanvas(width, height);
+	const ctx = canvas.getContext('2d');
+	if (!ctx) throw new Error('Failed to get canvas context');
+	ctx.drawImage(bitmap, 0, 0, width, height);
+	return await canvas.convertToBlob({ type: 'image/jpeg', quality });
+}
+
+// Decode once and scale to both sizes; used by the worker and the in-thread fallback
+export async function renderScaledImages(blob: Blob): Promise<ScaledImages> {
+	if (typeof OffscreenCanvas === 'undefined') {
+		return {
+			thumbnail: await encodePixels(await decodePixels(blob, THUMBNAIL_MAX_SIDE), 'jpeg', THUMBNAIL_QUALITY),
+			preview: await encodePixels(await decodePixels(blob, PREVIEW_MAX_SIDE), 'jpeg', PREVIEW_QUALITY)
+		};
+	}
+
+	const bitmap = await createImageBitmap(blob);
+	try {
+		return {
+			thumbnail: await scaleBitmap(bitmap, THUMBNAIL_MAX_SIDE, THUMBNAIL_QUALITY),
+			preview: await scaleBitmap(bitmap, PREVIEW_MAX_SIDE, PREVIEW_QUALITY)
+		};
+	} finally {
+		bitmap.close();
+	}
+}
+
+// FileReader is not available everywhere the generator runs, so encode by hand
+async function blobToDataURL(blob: Blob): Promise<string> {
+	const bytes = new Uint8Array(await blob.arrayBuffer());
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return `data:${blob.type || 'image/jpeg'};base64,${btoa(binary)}`;
+}
+
+export class ThumbnailGenerator {
+	private worker: Worker | null = null;
+	private workerFailed = false;
+	private nextRequestId = 1;
+	private pending = new Map<number, { resolve: (images: ScaledImages) => void; reject: (error: Error) => void }>();
+
+	async generate(blob: Blob): Promise<PhotoThumbnails> {
+		let images: ScaledImages;
+		if (this.canUseWorker()) {
+			try {
+				images = await this.renderInWorker(blob);
+			} catch (error) {
+				console.warn('Thumbnail worker failed, scaling on this thread:', error);
+				images = await renderScaledImages(blob);
+			}
+		} else {
+			images = await renderScaledImages(blob);
+		}
+		return { thumbnail: await blobToDataURL(images.thumbnail), preview: images.preview };
+	}
+
+	dispose() {
+		this.worker?.terminate();
+		this.worker = null;
+		this.rejectPending(new Error('Thumbnail generator disposed'));
+	}
+
+	private canUseWorker(): boolean {
+		return !this.workerFailed && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+	}
+
+	private getWorker(): Worker {
+		if (this.worker) return this.worker;
+
+		const worker = new Worker(new URL('./thumbnail.worker.ts', import.meta.url), { type: 'module' });
+		worker.onmessage = (event: MessageEvent<ThumbnailWorkerResponse>) => {
+			const message = event.data;
+			const request = this.pending.get(message.id);
+			this.pending.delete(message.id);
+			if (message.type === 'result') {
+				request?.resolve(message.images);
+			} else {
+				request?.reject(new Error(message.message));
+			}
+		};
+		worker.onerror = (event) => {
+			// A worker that fails to load will not recover; stay on the fallback from now on
+			this.workerFailed = true;
+			this.dispose();
+			this.rejectPending(new Error(event.message || 'Thumbnail worker failed'));
+		};
+		this.worker = worker;
+		return worker;
+	}
+
+	private renderInWorker(blob: Blob): Promise<ScaledImages> {
+		const worker = this.getWorker();
+		const id = this.nextRequestId++;
+		return new Promise((resolve, reject) => {
+			this.pending.set(id, { resolve, reject });
+			const request: ThumbnailWorkerRequest = { id, blob };
+			worker.postMessage(request);
+		});
+	}
+
+	private rejectPending(error: Error) {
+		for (const { reject } of this.pending.values()) {
+			reject(error);
+		}
+		this.pending.clear();
+	}
+}
+
+let thumbnailGenerator: ThumbnailGenerator | null = null;
+
+export function getThumbnailGenerator(): ThumbnailGenerator {
+	if (!thumbnailGenerator) {
+		thumbnailGenerator = new ThumbnailGenerator();
+	}
+	return thumbnailGenerator;
+}
@@ -0,0 +1,237 @@
+/**
+ * Minimal ZIP archive support for backups
+ * Writes uncompressed ("stored") entries: photos are already compressed and storing keeps the
+ * writer streaming-friendly, since each entry's Blob is referenced rather than copied.
+ * Reads stored and deflated entries, so an archive re-zipped by an OS tool still opens.
+ * No ZIP64: archives are limited to 4 GB and 65535 entries.
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const ZIP_VERSION = 20;
+const MAX_UINT32 = 0xffffffff;
+
+export interface ZipEntryInput {
+	name: string;
+	data: Blob | string;
+	modifiedAt?: Date;
+}
+
+export interface ZipEntry {
+	name: string;
+	size: number; // Uncompressed size
+	crc32: number;
+	modifiedAt: Date;
+	read(): Promise<Blob>;
+}
+
+export class ZipFormatError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ZipFormatError';
+	}
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+	return crcTable;
+}
+
+export function crc32(bytes: Uint8Array): number {
+	const table = getCrcTable();
+	let crc = 0xffffffff;
+	for (let i = 0; i < bytes.length; i++) {
+		crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+	const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+	};
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+	return new Date(
+		(date >> 9) + 1980,
+		((date >> 5) & 0x0f) - 1,
+		date & 0x1f,
+		time >> 11,
+		(time >> 5) & 0x3f,
+		(time & 0x1f) * 2
+	);
+}
+
+// Build the archive; onProgress is called after each entry with (done, total)
+export async function createZip(
+	entries: ZipEntryInput[],
+	onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+	if (entries.length > 0xffff) {
+		throw new ZipFormatError('Too many entries for a ZIP archive');
+	}
+
+	const encoder = new TextEncoder();
+	const parts: BlobPart[] = [];
+	const central: BlobPart[] = [];
+	let centralSize = 0;
+	let offset = 0;
+
+	for (const [index, entry] of entries.entries()) {
+		const blob = typeof entry.data === 'string' ? new Blob([entry.data]) : entry.data;
+		const data = new Uint8Array(await blob.arrayBuffer());
+		const name = encoder.encode(entry.name);
+		const crc = crc32(data);
+		const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+		if (offset + LOCAL_HEADER_SIZE + name.length + data.length > MAX_UINT32) {
+			throw new ZipFormatError('Archive exceeds 4 GB');
+		}
+
+		const localHeader = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+		const local = new DataView(localHeader.buffer);
+		local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+		local.setUint16(4, ZIP_VERSION, true);
+		local.setUint16(6, UTF8_FLAG, true);
+		local.setUint16(8, METHOD_STORED, true);
+		local.setUint16(10, time, true);
+		local.setUint16(12, date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, data.length, true);
+		local.setUint32(22, data.length, true);
+		local.setUint16(26, name.length, true);
+		local.setUint16(28, 0, true);
+		localHeader.set(name, LOCAL_HEADER_SIZE);
+
+		const header = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+		const view = new DataView(header.buffer);
+		view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+		view.setUint16(4, ZIP_VERSION, true);
+		view.setUint16(6, ZIP_VERSION, true);
+		view.setUint16(8, UTF8_FLAG, true);
+		view.setUint16(10, METHOD_STORED, true);
+		view.setUint16(12, time, true);
+		view.setUint16(14, date, true);
+		view.setUint32(16, crc, true);
+		view.setUint32(20, data.length, true);
+		view.setUint32(24, data.length, true);
+		view.setUint16(28, name.length, true);
+		view.setUint32(42, offset, true);
+		header.set(name, CENTRAL_HEADER_SIZE);
+		central.push(header);
+		centralSize += header.length;
+
+		// Keep the original Blob as the part so large photos are not copied again
+		parts.push(localHeader, blob);
+		offset += LOCAL_HEADER_SIZE + name.length + data.length;
+		onProgress?.(index + 1, entries.length);
+	}
+
+	const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE));
+	end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+	end.setUint16(8, entries.length, true);
+	end.setUint16(10, entries.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+}
+
+async function readView(blob: Blob, start: number, length: number): Promise<DataView> {
+	return new DataView(await blob.slice(start, start + length).arrayBuffer());
+}
+
+// Parse the central directory; entry data is only read when requested
+export async function readZip(blob: Blob): Promise<Map<string, ZipEntry>> {
+	const tailLength = Math.min(blob.size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_LENGTH);
+	const tail = await readView(blob, blob.size - tailLength, tailLength);
+
+	let endOffset = -1;
+	for (let i = tailLength - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+		if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+			endOffset = i;
+			break;
+		}
+	}
+	if (endOffset < 0) {
+		throw new ZipFormatError('Not a ZIP archive');
+	}
+
+	const count = tail.getUint16(endOffset + 10, true);
+	const centralSize = tail.getUint32(endOffset + 12, true);
+	const centralOffset = tail.getUint32(endOffset + 16, true);
+	if (centralOffset === MAX_UINT32 || centralOffset + centralSize > blob.size) {
+		throw new ZipFormatError('Unsupported or truncated ZIP archive');
+	}
+
+	const directory = await readView(blob, centralOffset, centralSize);
+	const decoder = new TextDecoder();
+	const entries = new Map<string, ZipEntry>();
+	let cursor = 0;
+
+	for (let i = 0; i < count; i++) {
+		if (cursor + CENTRAL_HEADER_SIZE > centralSize || directory.getUint32(cursor, true) !== CENTRAL_HEADER_SIGNATURE) {
+			throw new ZipFormatError('Corrupt ZIP central directory');
+		}
+		const method = directory.getUint16(cursor + 10, true);
+		const time = directory.getUint16(cursor + 12, true);
+		const date = directory.getUint16(cursor + 14, true);
+		const crc = directory.getUint32(cursor + 16, true);
+		const compressedSize = directory.getUint32(cursor + 20, true);
+		const size = directory.getUint32(cursor + 24, true);
+		const nameLength = directory.getUint16(cursor + 28, true);
+		const extraLength = directory.getUint16(cursor + 30, true);
+		const commentLength = directory.getUint16(cursor + 32, true);
+		const localOffset = directory.getUint32(cursor + 42, true);
+		const name = decoder.decode(
+			new Uint8Array(directory.buffer, directory.byteOffset + cursor + CENTRAL_HEADER_SIZE, nameLength)
+		);
+		cursor += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+		if (name.endsWith('/')) continue; // Directory entry
+		if (method !== METHOD_STORED && method !== METHOD_DEFLATED) {
+			throw new ZipFormatError(`Unsupported compression method ${method} for ${name}`);
+		}
+
+		entries.set(name, {
+			name,
+			size,
+			crc32: crc,
+			modifiedAt: fromDosDateTime(time, date),
+			async read() {
+				// The local header may carry a different extra field than the central one
+				const local = await readView(blob, localOffset, LOCAL_HEADER_SIZE);
+				if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+					throw new ZipFormatError(`Corrupt local header for ${name}`);
+				}
+				const dataStart = localOffset + LOCAL_HEADER_SIZE + local.getUint16(26, true) + local.getUint16(28, true);
+				const data = blob.slice(dataStart, dataStart + compressedSize);
+				if (method === METHOD_STORED) return data;
+				return await new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+			}
+		});
+	}
+
+	return entries;
+}
@@ -1,14 +1,42 @@
 /// <reference types="@sveltejs/kit" />
 import { build, files, version } from '$service-worker';
+import { getJobQueue, JOB_QUEUE_SYNC_TAG } from '$lib/services/jobQueue';
+import { registerWorkerJobHandlers } from '$lib/services/jobHandlers';
+import { SHARE_IMPORT_PATH, SHARE_TARGET_CACHE, SHARE_TARGET_PATH, stashSharedFormData } from '$lib/utils/shareTarget';
 
 // Create a unique cache name for this deployment
 const CACHE_NAME = `boyfriend-camera-cache-${version}`;
+// Runtime caches outlive deployments: their content does not change with the app
+const RUNTIME_CACHE = 'boyfriend-camera-runtime';
+const THUMBNAIL_CACHE = 'boyfriend-camera-thumbnails';
+const KEPT_CACHES = [CACHE_NAME, RUNTIME_CACHE, THUMBNAIL_CACHE, SHARE_TARGET_CACHE];
+
+// The SPA shell: every route renders from the same index.html (adapter-static fallback)
+const APP_SHELL = '/';
 
 const ASSETS = [
 	...build, // the app itself
-	...files  // favicon, manifest, etc.
+	...files, // favicon, manifest, etc.
+	APP_SHELL
 ];
 
+// Thumbnail cache bounds; the oldest entries go first
+const THUMBNAIL_MAX_ENTRIES = 300;
+const THUMBNAIL_MAX_BYTES = 40 * 1024 * 1024;
+// Opaque (no-cors) responses hide their size; count them at a typical thumbnail size
+const OPAQUE_SIZE_ESTIMATE = 100 * 1024;
+const SIZE_HEADER = 'x-sw-size';
+
+// Model APIs: responses are per-request and must never come from a cache
+const NETWORK_ONLY_HOSTS = ['open.bigmodel.cn', 'api.openai.com', 'api.qrserver.com'];
+const NETWORK_ONLY_PATHS = [/\/chat\/completions$/, /\/v1\/models/, /\/rest\/v1\//, /\/storage\/v1\/upload\//, /\/auth\/v1\//];
+// Third-party static files (MediaPipe runtime and models)
+const STATIC_HOSTS = ['cdn.jsdelivr.net', 'storage.googleapis.com'];
+// Supabase Storage image transforms are photo thumbnails (full-size objects are not cached)
+const THUMBNAIL_PATHS = [/\/storage\/v1\/render\/image\//];
+
+const precached = new Set(ASSETS);
+
 // Install event - cache assets (don't activate yet)
 self.addEventListener('install', (event) => {
 	event.waitUntil(
@@ -25,7 +53,7 @@ self.addEventListener('activate', (event) => {
 	event.waitUntil(
 		caches.keys().then(async (keys) => {
 			for (const key of keys) {
-				if (key !== CACHE_NAME) {
+				if (!KEPT_CACHES.includes(key)) {
 					await caches.delete(key);
 				}
 			}
@@ -40,16 +68,159 @@ self.addEventListener('message', (event) => {
 	}
 });
 
-// Fetch event - serve from cache, fall back to network
+// Precached build files are immutable for this version
+async function cacheFirst(request: Request): Promise<Response> {
+	const cached = await caches.match(request, { cacheName: CACHE_NAME });
+	return cached ?? fetch(request);
+}
+
+// Serve the cached copy right away and refresh it in the background
+async function staleWhileRevalidate(event: FetchEvent): Promise<Response> {
+	const cache = await caches.open(RUNTIME_CACHE);
+	const cached = await cache.match(event.request);
+
+	const refresh = fetch(event.request).then(async (response) => {
+		if (response.ok || response.type === 'opaque') {
+			await cache.put(event.request, response.clone());
+		}
+		return response;
+	});
+
+	if (cached) {
+		event.waitUntil(refresh.catch(() => undefined));
+		return cached;
+	}
+	return refresh;
+}
+
+// Navigations: fresh HTML when online, the cached shell when not
+async function navigate(request: Request): Promise<Response> {
+	try {
+		const response = await fetch(request);
+		if (response.ok) {
+			const cache = await caches.open(CACHE_NAME);
+			await cache.put(APP_SHELL, response.clone());
+		}
+		return response;
+	} catch (error) {
+		const shell = await caches.match(APP_SHELL, { cacheName: CACHE_NAME });
+		if (shell) return shell;
+		throw error;
+	}
+}
+
+// Thumbnails: cache-first in a cache bounded by entry count and bytes
+async function thumbnail(event: FetchEvent): Promise<Response> {
+	const cache = await caches.open(THUMBNAIL_CACHE);
+	const cached = await cache.match(event.request);
+	if (cached) return cached;
+
+	const response = await fetch(event.request);
+	if (!response.ok && response.type !== 'opaque') {
+		return response;
+	}
+
+	const size = response.type === 'opaque'
+		? OPAQUE_SIZE_ESTIMATE
+		: Number(response.headers.get('content-length')) || (await response.clone().blob()).size;
+	const headers = new Headers(response.headers);
+	headers.set(SIZE_HEADER, String(size));
+
+	// Opaque bodies cannot be re-wrapped; they are stored as-is and counted at the estimate
+	const entry = response.type === 'opaque'
+		? response.clone()
+		: new Response(await response.clone().blob(), { status: response.status, statusText: response.statusText, headers });
+	event.waitUntil(cache.put(event.request, entry).then(() => trimThumbnails(cache)));
+	return response;
+}
+
+async function trimThumbnails(cache: Cache): Promise<void> {
+	// keys() is in insertion order, so the front of the list is the oldest
+	const keys = await cache.keys();
+	const sizes: number[] = [];
+	for (const key of keys) {
+		const entry = await cache.match(key);
+		sizes.push(Number(entry?.headers.get(SIZE_HEADER)) || OPAQUE_SIZE_ESTIMATE);
+	}
+
+	let total = sizes.reduce((sum, size) => sum + size, 0);
+	let count = keys.length;
+	for (let i = 0; i < keys.length && (count > THUMBNAIL_MAX_ENTRIES || total > THUMBNAIL_MAX_BYTES); i++) {
+		await cache.delete(keys[i]);
+		total -= sizes[i];
+		count--;
+	}
+}
+
+// Share target: park the shared files and hand over to the import page
+async function receiveShare(request: Request): Promise<Response> {
+	try {
+		const id = await stashSharedFormData(await request.formData());
+		return Response.redirect(`${SHARE_IMPORT_PATH}?share=${id}`, 303);
+	} catch (error) {
+		console.error('Share target failed:', error);
+		return Response.redirect(`${SHARE_IMPORT_PATH}?error=share`, 303);
+	}
+}
+
+function matches(patterns: RegExp[], url: URL): boolean {
+	return patterns.some(pattern => pattern.test(url.pathname));
+}
+
+// Fetch event - pick a strategy per route; requests without one go straight to the network
 self.addEventListener('fetch', (event) => {
-	// Skip cross-origin requests
-	if (!event.request.url.startsWith('http')) {
+	const request = event.request;
+	const url = new URL(request.url);
+	if (!url.protocol.startsWith('http')) {
 		return;
 	}
 
-	event.respondWith(
-		caches.match(event.request).then((cached) => {
-			return cached ?? fetch(event.request);
-		})
-	);
+	const sameOrigin = url.origin === self.location.origin;
+
+	if (request.method === 'POST' && sameOrigin && url.pathname === SHARE_TARGET_PATH) {
+		event.respondWith(receiveShare(request));
+		return;
+	}
+
+	// AI calls, sync and uploads: network-only (also every non-GET)
+	if (request.method !== 'GET' || NETWORK_ONLY_HOSTS.includes(url.hostname) || matches(NETWORK_ONLY_PATHS, url)) {
+		return;
+	}
+
+	if (request.mode === 'navigate' && sameOrigin) {
+		event.respondWith(navigate(request));
+		return;
+	}
+
+	if (sameOrigin && precached.has(url.pathname)) {
+		event.respondWith(cacheFirst(request));
+		return;
+	}
+
+	if (matches(THUMBNAIL_PATHS, url) || (request.destination === 'image' && !sameOrigin)) {
+		event.respondWith(thumbnail(event));
+		return;
+	}
+
+	if (sameOrigin || STATIC_HOSTS.includes(url.hostname)) {
+		event.respondWith(staleWhileRevalidate(event));
+	}
+});
+
+// Background Sync - drain the job queue once the connection is back, even with the app closed
+registerWorkerJobHandlers();
+
+async function drainJobQueue() {
+	const queue = getJobQueue();
+	await queue.drain();
+	// Rejecting asks the browser to fire the sync event again later (jobs waiting on backoff)
+	if (await queue.pendingCount() > 0) {
+		throw new Error('Jobs still pending');
+	}
+}
+
+self.addEventListener('sync', (event) => {
+	if (event.tag === JOB_QUEUE_SYNC_TAG) {
+		event.waitUntil(drainJobQueue());
+	}
 });
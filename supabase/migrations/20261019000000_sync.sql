@@ -0,0 +1,28 @@
+-- Multi-device sync: last-writer-wins needs a modification time on every synced row,
+-- and deletes become soft deletes so other devices can pull them.
+
+ALTER TABLE custom_styles
+  ALTER COLUMN updated_at SET NOT NULL,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE photos
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Incremental pulls read "everything changed since the cursor"
+CREATE INDEX IF NOT EXISTS custom_styles_updated_at_idx ON custom_styles (updated_at);
+CREATE INDEX IF NOT EXISTS sessions_updated_at_idx ON sessions (updated_at);
+CREATE INDEX IF NOT EXISTS photos_updated_at_idx ON photos (updated_at);
+
+-- Photo blobs, stored as <user_id>/<session_id>/<photo_id>.jpg
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('photos', 'photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Clients set updated_at themselves (it is the local edit time), so there is no trigger here.
+-- Row-level security: scope custom_styles / sessions / photos and the photos bucket to the
+-- owning user according to how the deployment authenticates devices.
@@ -0,0 +1,5 @@
+-- Edited styles carry a description and the same config map as the preset styles
+
+ALTER TABLE custom_styles
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS config JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,21 @@
+-- User-defined shoot scripts (ordered pose sequences) and per-session script progress
+
+CREATE TABLE IF NOT EXISTS shoot_scripts (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  accuracy_threshold SMALLINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS shoot_scripts_updated_at_idx ON shoot_scripts (updated_at);
+
+-- Which script a session followed and the pose each photo was taken for
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS shoot_script JSONB;
+
+-- Row-level security: scope shoot_scripts to the owning user like custom_styles.
@@ -0,0 +1,42 @@
+-- Pull cursor: a change time assigned by the server on every insert and update.
+-- updated_at stays the client's edit time and only decides last-writer-wins; it cannot be the
+-- cursor, because a device that was offline can push an edit stamped before another device's
+-- cursor, and that device would never pull it.
+-- Existing rows get the migration time, so every device pulls them once more (applying is idempotent).
+
+CREATE OR REPLACE FUNCTION set_synced_at() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.synced_at := clock_timestamp();
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE custom_styles
+  ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp();
+
+ALTER TABLE photos
+  ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp();
+
+ALTER TABLE shoot_scripts
+  ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp();
+
+-- sessions.synced_at already exists; clients used to set it, the trigger owns it from now on
+UPDATE sessions SET synced_at = clock_timestamp();
+ALTER TABLE sessions
+  ALTER COLUMN synced_at SET DEFAULT clock_timestamp(),
+  ALTER COLUMN synced_at SET NOT NULL;
+
+CREATE TRIGGER custom_styles_set_synced_at BEFORE INSERT OR UPDATE ON custom_styles
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+CREATE TRIGGER sessions_set_synced_at BEFORE INSERT OR UPDATE ON sessions
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+CREATE TRIGGER photos_set_synced_at BEFORE INSERT OR UPDATE ON photos
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+CREATE TRIGGER shoot_scripts_set_synced_at BEFORE INSERT OR UPDATE ON shoot_scripts
+  FOR EACH ROW EXECUTE FUNCTION set_synced_at();
+
+CREATE INDEX IF NOT EXISTS custom_styles_synced_at_idx ON custom_styles (synced_at);
+CREATE INDEX IF NOT EXISTS sessions_synced_at_idx ON sessions (synced_at);
+CREATE INDEX IF NOT EXISTS photos_synced_at_idx ON photos (synced_at);
+CREATE INDEX IF NOT EXISTS shoot_scripts_synced_at_idx ON shoot_scripts (synced_at);
@@ -0,0 +1,49 @@
+-- Synced rows belong to the Supabase Auth user that wrote them. Devices signed in to the same
+-- account share their data; a device without an account signs in anonymously and only sees its own.
+-- Rows written before this migration have no owner and stop being visible to clients.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE custom_styles
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE photos
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE shoot_scripts
+  ADD COLUMN IF NOT EXISTS owner_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS users_owner_id_idx ON users (owner_id);
+CREATE INDEX IF NOT EXISTS custom_styles_owner_synced_at_idx ON custom_styles (owner_id, synced_at);
+CREATE INDEX IF NOT EXISTS sessions_owner_synced_at_idx ON sessions (owner_id, synced_at);
+CREATE INDEX IF NOT EXISTS photos_owner_synced_at_idx ON photos (owner_id, synced_at);
+CREATE INDEX IF NOT EXISTS shoot_scripts_owner_synced_at_idx ON shoot_scripts (owner_id, synced_at);
+
+-- Row-level security: every synced table is readable and writable by its owner only
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custom_styles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE photos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shoot_scripts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY users_owner ON users FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+CREATE POLICY custom_styles_owner ON custom_styles FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+CREATE POLICY sessions_owner ON sessions FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+CREATE POLICY photos_owner ON photos FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+CREATE POLICY shoot_scripts_owner ON shoot_scripts FOR ALL TO authenticated
+  USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Photo blobs live under <users.id>/..., so the first path segment must be one of the caller's users rows
+CREATE POLICY photos_bucket_owner ON storage.objects FOR ALL TO authenticated
+  USING (
+    bucket_id = 'photos'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.users WHERE owner_id = auth.uid())
+  )
+  WITH CHECK (
+    bucket_id = 'photos'
+    AND (storage.foldername(name))[1] IN (SELECT id::text FROM public.users WHERE owner_id = auth.uid())
+  );
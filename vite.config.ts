@@ -1,5 +1,5 @@
 import { sveltekit } from '@sveltejs/kit/vite';
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
 	plugins: [
@@ -13,5 +13,9 @@ export default defineConfig({
 	// For PWA build
 	build: {
 		target: 'esnext'
+	},
+	test: {
+		include: ['src/**/*.test.ts'],
+		environment: 'node'
 	}
 });